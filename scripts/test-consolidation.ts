@@ -0,0 +1,71 @@
+/**
+ * Offline check of LLM-driven memory consolidation.
+ *
+ * Usage:
+ *   npx tsx scripts/test-consolidation.ts
+ *
+ * Replays scripts/fixtures/consolidation.json: two turns in one session reach
+ * the message threshold, and the consolidation call (a direct `makeLlmCall`,
+ * not a session stream) must write memory/MEMORY.md and append
+ * memory/HISTORY.md in the workspace.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { AgentRunner } from "../src/agent.js";
+import { FakeChannel } from "../src/channels/fake.js";
+import { buildTestConfig, check, finish, fixturePath, freshTempDir } from "./test-helpers.js";
+
+async function main() {
+  console.log("=== Consolidation Test ===\n");
+
+  const root = await freshTempDir("nano-openclaw-test-consolidation");
+  const config = buildTestConfig({
+    agentDir: path.join(root, "agent"),
+    workspaceDir: path.join(root, "workspace"),
+    llmFixtures: { mode: "replay", path: fixturePath("consolidation.json") },
+    overrides: {
+      // Two turns = four messages: the first turn stays below the threshold
+      consolidation: { enabled: true, messageThreshold: 4, citations: "off" },
+    },
+  });
+  const memoryPath = path.join(config.workspaceDir, "memory", "MEMORY.md");
+  const historyPath = path.join(config.workspaceDir, "memory", "HISTORY.md");
+
+  const agent = new AgentRunner(config);
+  await agent.init();
+
+  const channel = new FakeChannel("test");
+  channel.onMessage((msg, stream) => agent.handleMessage(msg, stream));
+
+  await channel.receive("I prefer tea over coffee. Remember that.", { channelId: "test-user" });
+  const early = await fs.readFile(memoryPath, "utf-8").catch(() => undefined);
+
+  const reply = await channel.receive("My project is called Lighthouse and it launches on Friday.", {
+    channelId: "test-user",
+  });
+
+  console.log("\n--- Checks ---");
+  check(early === undefined, "no consolidation below the message threshold");
+  check(reply?.includes("Lighthouse"), "second turn answered from the fixture");
+
+  const memory = await fs.readFile(memoryPath, "utf-8").catch(() => "");
+  check(memory.includes("Prefers tea over coffee") && memory.includes("Lighthouse"), "MEMORY.md holds the extracted facts");
+  check(!memory.includes("===MEMORY==="), "MEMORY.md has the block content only, not the markers");
+
+  const history = await fs.readFile(historyPath, "utf-8").catch(() => "");
+  check(history.trim().split("\n").length === 2, "HISTORY.md gained the two logged events");
+
+  const statePath = path.join(config.agentDir, "consolidation", "test_dm_test-user.json");
+  const state = JSON.parse(await fs.readFile(statePath, "utf-8").catch(() => "{}")) as {
+    lastConsolidatedMessageCount?: number;
+  };
+  check(state.lastConsolidatedMessageCount === 4, "consolidation state advanced to the session's message count");
+
+  finish("Consolidation Test");
+}
+
+main().catch((err) => {
+  console.error("Fatal:", err);
+  process.exit(1);
+});
@@ -0,0 +1,133 @@
+/**
+ * Shared setup for the offline test scripts (scripts/test-*.ts).
+ *
+ * `buildTestConfig` returns a minimal NanoConfig with every channel off;
+ * `check` / `finish` collect assertions so a script reports all failures and
+ * exits non-zero if any failed.
+ */
+
+import path from "node:path";
+import os from "node:os";
+import { fileURLToPath } from "node:url";
+import type { NanoConfig } from "../src/config.js";
+import type { LlmFixtureConfig } from "../src/agent/replay.js";
+import { defaultSandboxConfig } from "../src/sandbox/types.js";
+import { defaultHeartbeatConfig } from "../src/heartbeat.js";
+
+export const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+/** Fixture committed under scripts/fixtures/. */
+export function fixturePath(name: string): string {
+  return path.join(repoRoot, "scripts", "fixtures", name);
+}
+
+/** `--record <path>` / `--replay <path>` from the command line, if given. */
+export function parseFixtureArgs(argv: string[]): LlmFixtureConfig | undefined {
+  for (const mode of ["record", "replay"] as const) {
+    const idx = argv.indexOf(`--${mode}`);
+    if (idx === -1) continue;
+    const fixture = argv[idx + 1];
+    if (!fixture) {
+      console.error(`ERROR: --${mode} needs a fixture path`);
+      process.exit(1);
+    }
+    return { mode, path: path.resolve(fixture) };
+  }
+  return undefined;
+}
+
+export interface TestConfigOptions {
+  /** State directory; wiped by the caller between runs. */
+  agentDir: string;
+  /** Defaults to the repo's workspace/. */
+  workspaceDir?: string;
+  llmFixtures?: LlmFixtureConfig;
+  /** Sections to replace wholesale (e.g. `toolPolicy`). */
+  overrides?: Partial<NanoConfig>;
+}
+
+export function buildTestConfig(options: TestConfigOptions): NanoConfig {
+  const { llmFixtures } = options;
+  const apiKey = process.env.MODEL_API_KEY || (llmFixtures?.mode === "replay" ? "replay" : undefined);
+  if (!apiKey) {
+    console.error("ERROR: MODEL_API_KEY is required. Set it in .env or environment.");
+    process.exit(1);
+  }
+
+  const workspaceDir = options.workspaceDir ?? path.join(repoRoot, "workspace");
+
+  return {
+    provider: process.env.MODEL_PROVIDER || "anthropic",
+    modelId: process.env.MODEL_ID || "claude-sonnet-4-20250514",
+    apiKey,
+    modelFallbacks: [],
+    background: { timeoutMs: 60_000, maxRetries: 2 },
+    workspaceDir,
+    codeDir: path.join(workspaceDir, "code"),
+    agentDir: options.agentDir,
+    braveApiKey: undefined,
+    puppeteerExecutable: undefined,
+    sandbox: { ...defaultSandboxConfig(), enabled: false },
+    channels: {
+      discord: { enabled: false, token: "" },
+      whatsapp: { enabled: false, authDir: "" },
+      slack: { enabled: false, botToken: "", appToken: "" },
+      telegram: { enabled: false, token: "" },
+      matrix: { enabled: false, homeserverUrl: "", accessToken: "" },
+      http: { enabled: false, host: "127.0.0.1", port: 0, tokens: [] },
+      cli: { enabled: false, user: "test", imageDir: "" },
+      accounts: [],
+    },
+    consolidation: { enabled: false, messageThreshold: 999, citations: "off" },
+    heartbeat: { ...defaultHeartbeatConfig, enabled: false },
+    scheduler: {},
+    webhooks: { host: "127.0.0.1", port: 0, hooks: [] },
+    thinkingLevel: "low",
+    firecrawl: { enabled: false, onlyMainContent: true },
+    transcription: { backend: "none", whisperBin: "whisper-cli", language: "auto", ffmpegBin: "ffmpeg" },
+    attachments: { maxBytes: 20 * 1024 * 1024, allowedTypes: [] },
+    budgets: {},
+    queue: { mode: "queue", collectDebounceMs: 0 },
+    sessionPool: { idleMs: 60_000, maxSessions: 8 },
+    toolPolicy: { default: "allow", askTimeoutMs: 60_000, rules: [] },
+    access: {
+      owners: [],
+      members: [],
+      guests: [],
+      unknown: "member",
+      refusalMessage: "",
+      memberTools: ["*"],
+      guestTools: [],
+      guestCommands: [],
+    },
+    allowLocalhost: false,
+    llmFixtures,
+    ...options.overrides,
+  };
+}
+
+/** A fresh, empty directory under the OS temp dir. */
+export async function freshTempDir(name: string): Promise<string> {
+  const fs = await import("node:fs/promises");
+  const dir = path.join(os.tmpdir(), name);
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+let failures = 0;
+
+export function check(condition: unknown, description: string): void {
+  if (condition) {
+    console.log(`  ✅ ${description}`);
+  } else {
+    failures++;
+    console.log(`  ❌ ${description}`);
+  }
+}
+
+/** Print the verdict and exit (non-zero if any check failed). */
+export function finish(name: string): never {
+  console.log(failures === 0 ? `\n=== ${name}: all checks passed ===` : `\n=== ${name}: ${failures} check(s) failed ===`);
+  process.exit(failures === 0 ? 0 : 1);
+}
@@ -0,0 +1,106 @@
+/**
+ * Offline check of the HTTP gateway with a local HTTP client.
+ *
+ * Usage:
+ *   npx tsx scripts/test-http.ts
+ *
+ * Starts HttpChannel on a free port with two tokens and a stub message
+ * handler (no LLM involved), then exercises auth, messages, SSE streaming,
+ * abort, the session listing and the OpenAI-compatible endpoint — including
+ * that one token can't reach the other user's sessions.
+ */
+
+import { HttpChannel } from "../src/channels/http.js";
+import type { InboundMessage } from "../src/channels/base.js";
+import { check, finish } from "./test-helpers.js";
+
+async function main() {
+  console.log("=== HTTP Gateway Test ===\n");
+
+  const channel = new HttpChannel({
+    enabled: true,
+    host: "127.0.0.1",
+    port: 0,
+    tokens: [
+      { token: "alice-token", userId: "alice" },
+      { token: "bob-token", userId: "bob" },
+    ],
+  });
+  const seen: InboundMessage[] = [];
+  const stopped: string[] = [];
+  channel.onMessage(async (msg, stream) => {
+    seen.push(msg);
+    stream.onThinking?.();
+    stream.onTextDelta?.("echo", "echo");
+    return { text: `echo: ${msg.text}` };
+  });
+  channel.onCommand(async (command, _args, sessionKey) => {
+    if (command !== "stop") return null;
+    stopped.push(sessionKey);
+    return "Nothing to stop.";
+  });
+  await channel.start();
+  const base = `http://127.0.0.1:${channel.port}`;
+
+  const request = (path: string, token: string | undefined, body?: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${base}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  try {
+    console.log("--- Auth ---");
+    check((await request("/v1/sessions", undefined)).status === 401, "no token → 401");
+    check((await request("/v1/sessions", "wrong")).status === 401, "unknown token → 401");
+
+    console.log("\n--- Messages ---");
+    const res = await request("/v1/sessions/work/messages", "alice-token", { text: "hello" });
+    const json = (await res.json()) as { message: { text: string } | null };
+    check(res.status === 200 && json.message?.text === "echo: hello", "message returns the reply");
+    check(seen.at(-1)?.sessionKey === "http:alice:work" && seen.at(-1)?.userId === "alice", "session key is scoped to the token's user");
+    check((await request("/v1/sessions/bad key/messages", "alice-token", { text: "x" })).status === 400, "invalid key → 400");
+    check((await request("/v1/sessions/work/messages", "alice-token", { text: "" })).status === 400, "empty text → 400");
+
+    console.log("\n--- Streaming ---");
+    const sse = await (await request("/v1/sessions/work/messages", "alice-token", { text: "hi", stream: true })).text();
+    check(sse.includes("event: thinking") && sse.includes("event: text_delta"), "SSE carries turn events");
+    check(sse.includes("event: message") && sse.includes("echo: hi"), "SSE ends with the reply");
+
+    console.log("\n--- Isolation ---");
+    await request("/v1/sessions/work/messages", "bob-token", { text: "mine" });
+    check(seen.at(-1)?.sessionKey === "http:bob:work", "same key from another token is another session");
+    const listing = (await (await request("/v1/sessions", "bob-token")).json()) as { sessions: Array<{ userId: string; sessionKey: string }> };
+    check(
+      listing.sessions.length === 1 && listing.sessions[0].sessionKey === "http:bob:work",
+      "session listing only shows the token's own sessions",
+    );
+    await request("/v1/sessions/work/abort", "bob-token", {});
+    check(stopped.at(-1) === "http:bob:work", "abort only reaches the token's own session");
+
+    console.log("\n--- Chat completions ---");
+    const completion = await request("/v1/chat/completions", "bob-token", {
+      model: "nano-openclaw",
+      user: "work",
+      messages: [{ role: "user", content: "via openai" }],
+    });
+    const body = (await completion.json()) as { choices: Array<{ message: { content: string } }> };
+    check(body.choices?.[0]?.message.content === "echo: via openai", "completion returns the reply");
+    check(seen.at(-1)?.sessionKey === "http:bob:work", "`user` picks a session within the token's own namespace");
+    await request("/v1/chat/completions", "bob-token", { messages: [{ role: "user", content: "x" }] }, { "X-Session-Key": "alice:work" });
+    check(seen.at(-1)?.sessionKey.startsWith("http:bob:"), "X-Session-Key can't name another user's session");
+  } finally {
+    await channel.stop();
+  }
+
+  finish("HTTP Gateway Test");
+}
+
+main().catch((err) => {
+  console.error("Fatal:", err);
+  process.exit(1);
+});
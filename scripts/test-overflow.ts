@@ -0,0 +1,62 @@
+/**
+ * Offline check of context-overflow recovery.
+ *
+ * Usage:
+ *   npx tsx scripts/test-overflow.ts
+ *
+ * Replays scripts/fixtures/overflow.json: the second turn's model call fails
+ * with "prompt is too long", the session compacts (the summary comes from the
+ * fixture too) and the call is retried. The turn must reply with the retried
+ * answer, and the next turn must carry on from the compacted session.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { AgentRunner } from "../src/agent.js";
+import { FakeChannel } from "../src/channels/fake.js";
+import { buildTestConfig, check, finish, fixturePath, freshTempDir } from "./test-helpers.js";
+
+async function main() {
+  console.log("=== Overflow Recovery Test ===\n");
+
+  const root = await freshTempDir("nano-openclaw-test-overflow");
+  const config = buildTestConfig({
+    agentDir: path.join(root, "agent"),
+    workspaceDir: path.join(root, "workspace"),
+    llmFixtures: { mode: "replay", path: fixturePath("overflow.json") },
+  });
+
+  const agent = new AgentRunner(config);
+  await agent.init();
+
+  const channel = new FakeChannel("test");
+  channel.onMessage((msg, stream) => agent.handleMessage(msg, stream));
+
+  const first = await channel.receive("Here's the full build log, keep it in mind.", { channelId: "test-user" });
+  const recovered = await channel.receive("Now, which step failed?", { channelId: "test-user" });
+  const next = await channel.receive("Thanks — how do I fix it?", { channelId: "test-user" });
+
+  console.log("\n--- Checks ---");
+  check(first?.startsWith("Got it"), "first turn answered normally");
+  check(recovered?.includes("couldn't find a fixture file"), "overflowing turn replied with the retried answer");
+  check(recovered !== first, "overflowing turn did not repeat the previous reply");
+
+  const sessionFile = path.join(config.agentDir, "sessions", "test_dm_test-user.jsonl");
+  const entries = (await fs.readFile(sessionFile, "utf-8").catch(() => ""))
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as { type: string; summary?: string });
+  const compactions = entries.filter((e) => e.type === "compaction");
+  check(
+    compactions.length === 1 && compactions[0].summary?.includes("`test` step failed"),
+    "session was compacted once, with the recorded summary",
+  );
+  check(next?.includes("missing fixture file"), "next turn continued from the compacted session");
+
+  finish("Overflow Recovery Test");
+}
+
+main().catch((err) => {
+  console.error("Fatal:", err);
+  process.exit(1);
+});
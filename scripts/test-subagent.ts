@@ -3,9 +3,14 @@
  *
  * Usage:
  *   npx tsx scripts/test-subagent.ts
+ *   npx tsx scripts/test-subagent.ts --record scripts/fixtures/subagent.json
+ *   npx tsx scripts/test-subagent.ts --replay scripts/fixtures/subagent.json
  *
- * Requires MODEL_API_KEY in .env (or environment).
- * Does NOT require Discord or any channel — talks directly to AgentRunner.
+ * Live and --record runs require MODEL_API_KEY in .env (or environment);
+ * --replay answers every LLM call from the fixture and needs no network.
+ * Ends with checks that the spawn, the subagent run and its announce back
+ * into the parent session all happened; exits non-zero if any failed.
+ * Does NOT require Discord or any channel — drives AgentRunner through a FakeChannel.
  */
 
 import { config } from "dotenv";
@@ -13,55 +18,21 @@ config();
 
 import path from "node:path";
 import os from "node:os";
-import { fileURLToPath } from "node:url";
 import { AgentRunner } from "../src/agent.js";
 import { buildAnnounceMessage } from "../src/subagent.js";
-import type { NanoConfig } from "../src/config.js";
-import type { OutboundMessage } from "../src/channels/base.js";
-import { defaultSandboxConfig } from "../src/sandbox/types.js";
-import { defaultHeartbeatConfig } from "../src/heartbeat.js";
-
-// ── Minimal config (no channels required) ─────────────────────────────
-
-function buildTestConfig(): NanoConfig {
-  const apiKey = process.env.MODEL_API_KEY;
-  if (!apiKey) {
-    console.error("ERROR: MODEL_API_KEY is required. Set it in .env or environment.");
-    process.exit(1);
-  }
-
-  const thisFile = fileURLToPath(import.meta.url);
-  const repoRoot = path.resolve(path.dirname(thisFile), "..");
-  const workspaceDir = path.join(repoRoot, "workspace");
-  const agentDir = path.join(os.tmpdir(), "nano-openclaw-test-subagent");
-
-  return {
-    provider: process.env.MODEL_PROVIDER || "anthropic",
-    modelId: process.env.MODEL_ID || "claude-sonnet-4-20250514",
-    apiKey,
-    workspaceDir,
-    codeDir: path.join(workspaceDir, "code"),
-    agentDir,
-    braveApiKey: undefined,
-    puppeteerExecutable: undefined,
-    sandbox: { ...defaultSandboxConfig(), enabled: false },
-    channels: {
-      discord: { enabled: false, token: "" },
-      whatsapp: { enabled: false, authDir: "" },
-      slack: { enabled: false, botToken: "", appToken: "" },
-    },
-    consolidation: { enabled: false, messageThreshold: 999 },
-    heartbeat: { ...defaultHeartbeatConfig, enabled: false },
-    scheduler: {},
-  };
-}
+import { FakeChannel } from "../src/channels/fake.js";
+import { buildTestConfig, check, finish, parseFixtureArgs } from "./test-helpers.js";
 
 // ── Main ───────────────────────────────────────────────────────────────
 
 async function main() {
   console.log("=== Subagent Test ===\n");
 
-  const config = buildTestConfig();
+  const llmFixtures = parseFixtureArgs(process.argv.slice(2));
+  const config = buildTestConfig({
+    agentDir: path.join(os.tmpdir(), "nano-openclaw-test-subagent"),
+    llmFixtures,
+  });
 
   // Clean up stale state from previous runs so the agent starts fresh
   const fs = await import("node:fs/promises");
@@ -148,29 +119,30 @@ async function main() {
   console.log(`📩 [USER] ${testMessage}\n`);
   console.log("--- Sending to agent... ---\n");
 
-  const response = await agent.handleMessage(
-    {
-      text: testMessage,
-      sessionKey: testSessionKey,
-      channelId: testChannelId,
-      userId: "test-user",
-      userName: "TestUser",
-      isGroup: false,
-    },
-    {
-      onThinking: () => console.log("🤔 Agent thinking..."),
-      onToolStart: (name, meta) => console.log(`🔧 Tool start: ${name}${meta ? ` (${meta})` : ""}`),
-      onToolEnd: (name, info) => {
-        const parts = [`⏱️  Tool end: ${name} (${info.durationMs}ms)`];
-        if (info.error) parts.push(`❌ ${info.error}`);
-        if (info.preview) parts.push(`📋 ${info.preview}`);
-        console.log(parts.join(" "));
-      },
-    },
-  );
+  const channel = new FakeChannel("test");
+  channel.onMessage((msg, stream) => agent.handleMessage(msg, stream));
+
+  const reply = await channel.receive(testMessage, {
+    channelId: testChannelId,
+    userId: "test-user",
+    userName: "TestUser",
+  });
+
+  for (const entry of channel.transcript) {
+    if (entry.type === "thinking") console.log("🤔 Agent thinking...");
+    if (entry.type === "tool_start") {
+      console.log(`🔧 Tool start: ${entry.toolName}${entry.meta ? ` (${entry.meta})` : ""}`);
+    }
+    if (entry.type === "tool_end") {
+      const parts = [`⏱️  Tool end: ${entry.toolName} (${entry.durationMs}ms)`];
+      if (entry.error) parts.push(`❌ ${entry.error}`);
+      if (entry.preview) parts.push(`📋 ${entry.preview}`);
+      console.log(parts.join(" "));
+    }
+  }
 
   console.log(`\n--- Parent agent initial response ---`);
-  console.log(`💬 ${response?.text?.slice(0, 500) || "(no response)"}\n`);
+  console.log(`💬 ${reply?.slice(0, 500) || "(no response)"}\n`);
 
   // Wait for subagent(s) to finish
   console.log("⏳ Waiting up to 120s for subagent completion...\n");
@@ -216,8 +188,25 @@ async function main() {
     console.log();
   }
 
-  console.log("=== Test complete ===");
-  process.exit(0);
+  console.log("--- Checks ---");
+  check(
+    channel.transcript.some((e) => e.type === "tool_start" && e.toolName === "subagent"),
+    "parent called the subagent tool",
+  );
+  check(reply && !reply.startsWith("Error:"), "parent confirmed the spawn");
+  check(
+    allRuns.length === 1 && allRuns[0].label === "facts-42" && allRuns[0].status === "ok",
+    "one labelled subagent run completed",
+  );
+  check(allRuns[0]?.depth === 1, "subagent ran one level below the parent");
+  check(announcements.length === 1 && announcements[0].status === "ok", "completion was announced once");
+  check(
+    announcements[0]?.result && announcements[0].result === (allRuns[0]?.result ?? "").slice(0, 300),
+    "announce carried the subagent's result",
+  );
+  check(announcements[0]?.parentResponse, "parent session answered the announce");
+
+  finish("Subagent Test");
 }
 
 main().catch((err) => {
@@ -0,0 +1,58 @@
+/**
+ * Offline check that the tool policy really gates the built-in coding tools.
+ *
+ * Usage:
+ *   npx tsx scripts/test-tool-policy.ts
+ *
+ * Replays scripts/fixtures/tool-policy.json: the model calls `write` (allowed)
+ * and `bash` (denied by a policy rule) in one step. The write must land in
+ * codeDir; the bash command must never run.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { AgentRunner } from "../src/agent.js";
+import { FakeChannel } from "../src/channels/fake.js";
+import { buildTestConfig, check, finish, fixturePath, freshTempDir } from "./test-helpers.js";
+
+const MESSAGE = 'Save "hello" to notes.txt, then run `touch denied-marker`.';
+
+async function main() {
+  console.log("=== Tool Policy Test ===\n");
+
+  const root = await freshTempDir("nano-openclaw-test-tool-policy");
+  const config = buildTestConfig({
+    agentDir: path.join(root, "agent"),
+    workspaceDir: path.join(root, "workspace"),
+    llmFixtures: { mode: "replay", path: fixturePath("tool-policy.json") },
+    overrides: {
+      toolPolicy: { default: "allow", askTimeoutMs: 1_000, rules: [{ tool: "bash", action: "deny" }] },
+    },
+  });
+
+  const agent = new AgentRunner(config);
+  await agent.init();
+
+  const channel = new FakeChannel("test");
+  channel.onMessage((msg, stream) => agent.handleMessage(msg, stream));
+  const reply = await channel.receive(MESSAGE, { channelId: "test-user" });
+
+  console.log("\n--- Checks ---");
+  const notes = await fs.readFile(path.join(config.codeDir, "notes.txt"), "utf-8").catch(() => undefined);
+  check(notes === "hello\n", "allowed write tool ran in codeDir");
+
+  const marker = await fs.stat(path.join(config.codeDir, "denied-marker")).catch(() => undefined);
+  check(!marker, "denied bash command did not run");
+
+  const bashEnd = channel.transcript.find((e) => e.type === "tool_end" && e.toolName === "bash");
+  const bashResult = bashEnd?.type === "tool_end" ? `${bashEnd.error ?? ""} ${bashEnd.preview ?? ""}` : "";
+  check(bashResult.includes("blocked by the tool policy"), "bash call ended with the policy denial");
+  check(reply?.includes("blocked"), "agent replied after the denial");
+
+  finish("Tool Policy Test");
+}
+
+main().catch((err) => {
+  console.error("Fatal:", err);
+  process.exit(1);
+});
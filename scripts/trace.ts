@@ -0,0 +1,54 @@
+/**
+ * Pretty-print turn traces from AGENT_DIR/traces/.
+ *
+ * Usage:
+ *   npm run trace -- <turnId>              # one turn
+ *   npm run trace -- <sessionKey> [limit]  # last turns of a session (default 5)
+ *   npm run trace -- <turnId> --json       # raw record(s)
+ *
+ * Reads AGENT_DIR from .env / nano-openclaw.json like the bot does.
+ */
+
+import { config } from "dotenv";
+config();
+
+import os from "node:os";
+import path from "node:path";
+import { loadConfigFile, resolveConfigFilePath } from "../src/config-file.js";
+import { TraceStore, formatTrace } from "../src/agent/trace.js";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes("--json");
+  const [query, limitArg] = args.filter((a) => a !== "--json");
+  if (!query) {
+    console.error("Usage: npm run trace -- <turnId|sessionKey> [limit] [--json]");
+    process.exit(1);
+  }
+
+  const configFile = resolveConfigFilePath();
+  const env = { ...process.env, ...(configFile ? loadConfigFile(configFile).env : {}) };
+  const agentDir = env.AGENT_DIR?.trim() || path.join(os.homedir(), ".nano-openclaw");
+
+  const limit = limitArg ? Number(limitArg) : 5;
+  if (!Number.isInteger(limit) || limit < 1) {
+    console.error(`limit must be a positive integer, got "${limitArg}"`);
+    process.exit(1);
+  }
+
+  const traces = await new TraceStore(agentDir).find(query, limit);
+  if (traces.length === 0) {
+    console.error(`No traces found for "${query}" in ${path.join(agentDir, "traces")}`);
+    process.exit(1);
+  }
+
+  for (const t of traces) {
+    console.log(json ? JSON.stringify(t, null, 2) : formatTrace(t));
+    console.log();
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -2,18 +2,23 @@ import {
   createAgentSession,
   SessionManager,
   SettingsManager,
-  codingTools,
+  createCodingTools,
   AuthStorage,
   ModelRegistry,
+  DefaultResourceLoader,
 } from "@mariozechner/pi-coding-agent";
+import type { AgentSession } from "@mariozechner/pi-coding-agent";
 import { streamSimple } from "@mariozechner/pi-ai";
-import type { NanoConfig } from "./config.js";
+import { parseModelRef } from "./config.js";
+import type { ModelRef, NanoConfig } from "./config.js";
 import type {
   ImageAttachment,
   InboundMessage,
   OutboundMessage,
   StreamCallbacks,
+  ToolApprovalRequest,
 } from "./channels/base.js";
+import { describeReceivedFiles } from "./channels/inbox.js";
 import { MemoryStore } from "./memory.js";
 import {
   createMemoryTool,
@@ -41,14 +46,18 @@ import {
 import { createSubagentTool } from "./tools/subagent.js";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 import type { SandboxContext } from "./sandbox/types.js";
 import { resolveSandboxContext, createSandboxedExecTool } from "./sandbox/index.js";
 
 import {
+  wrapToolWithApproval,
   wrapToolWithImageNormalization,
   wrapToolWithResultTruncation,
 } from "./agent/tool-wrappers.js";
+import { ToolDeniedError, describeToolCall, evaluateToolPolicy } from "./security/tool-policy.js";
+import { roleAllowsTool, roleCanReadMemory } from "./security/access.js";
+import type { AccessRole } from "./security/access.js";
 import { normalizeImage } from "./media/image-ops.js";
 import { maybeRunMemoryFlush } from "./agent/memory-flush.js";
 import { resolvePromptError } from "./agent/context-overflow.js";
@@ -67,14 +76,46 @@ import type { LoadedSkill } from "./agent/skills.js";
 import { sanitizeSessionHistory } from "./agent/history.js";
 import { repairSessionFileIfNeeded } from "./agent/session-repair.js";
 import { MemoryConsolidator } from "./agent/consolidation.js";
+import { SessionOverrideStore } from "./agent/session-overrides.js";
+import type { ThinkingLevelOverride } from "./agent/session-overrides.js";
+import { UsageLedger, priceUsage } from "./agent/usage.js";
+import { TraceStore, clipForTrace, hashSystemPrompt } from "./agent/trace.js";
+import type { TurnTrace } from "./agent/trace.js";
+import { SessionPool } from "./agent/session-pool.js";
+import { LlmFixtures } from "./agent/replay.js";
+import { LlmClient, buildFallbackModel } from "./agent/llm-client.js";
+import { InboundQueue } from "./agent/inbound-queue.js";
+import type { QueueMode } from "./agent/inbound-queue.js";
 
 const AGENT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const OVERFLOW_RECOVERY_TIMEOUT_MS = 2 * 60 * 1000; // SDK compaction + retry after an overflow
+
+/** A built Pi session plus what failover needs to switch its model. */
+interface WarmSession {
+  session: AgentSession;
+  modelRegistry: ModelRegistry;
+  /** Primary model the session was built with; restored at the start of each turn. */
+  model: NonNullable<ReturnType<ModelRegistry["find"]>>;
+}
 
 export class AgentRunner {
   private config: NanoConfig;
   private memoryStore: MemoryStore;
-  private activeSessions = new Map<string, Promise<void>>();
+  private inboundQueue: InboundQueue;
+  /** Injects a message into a session's running prompt; present only while it is prompting. */
+  private steerTargets = new Map<string, (msg: InboundMessage) => Promise<boolean>>();
   private activeAbortControllers = new Map<string, AbortController>();
+  /** Who started each running turn: tool approvals go to them and subagents inherit their role. */
+  private activeTurns = new Map<
+    string,
+    {
+      userId: string;
+      role?: AccessRole;
+      identity?: string;
+      ask?: (request: ToolApprovalRequest) => Promise<boolean>;
+      signal: AbortSignal;
+    }
+  >();
   private scheduler?: Scheduler;
   private cachedSkills: LoadedSkill[] = [];
   private cachedBootstrapContext: string | null = null;
@@ -84,6 +125,14 @@ export class AgentRunner {
   private announceCallback?: AnnounceCallback;
   private spawnProgressCallback?: SpawnProgressCallback;
   private subagentToolProgressCallback?: SubagentToolProgressCallback;
+  /** Model used by the most recent (or current) turn of each session, as "provider/modelId". */
+  private activeModels = new Map<string, string>();
+  private sessionOverrides: SessionOverrideStore;
+  private usageLedger: UsageLedger;
+  private traceStore: TraceStore;
+  private llmFixtures?: LlmFixtures;
+  private llmClient: LlmClient;
+  private sessionPool: SessionPool<WarmSession>;
 
   constructor(config: NanoConfig) {
     this.config = config;
@@ -94,6 +143,24 @@ export class AgentRunner {
       agentDir: config.agentDir,
     });
     this.subagentRegistry = new SubagentRegistry(config.agentDir);
+    this.sessionOverrides = new SessionOverrideStore(config.agentDir);
+    this.usageLedger = new UsageLedger(config.agentDir);
+    this.traceStore = new TraceStore(config.agentDir);
+    this.inboundQueue = new InboundQueue(
+      (msg, stream) => this._handleMessage(msg, stream),
+      (msg) => this.steerTargets.get(msg.sessionKey)?.(msg) ?? Promise.resolve(false),
+      () => config.queue.collectDebounceMs,
+    );
+    this.sessionPool = new SessionPool<WarmSession>(
+      () => config.sessionPool,
+      (warm) => warm.session.dispose(),
+    );
+    this.llmClient = new LlmClient(config.background, (ref) =>
+      this.resolveModel(this.createModelRegistry([ref]).modelRegistry, ref),
+    );
+    if (config.llmFixtures) {
+      this.llmFixtures = new LlmFixtures(config.llmFixtures);
+    }
   }
 
   setScheduler(scheduler: Scheduler): void {
@@ -116,6 +183,15 @@ export class AgentRunner {
     return this.subagentRegistry;
   }
 
+  getUsageLedger(): UsageLedger {
+    return this.usageLedger;
+  }
+
+  /** Move per-user memories to a linked identity so every linked account sees them. */
+  async reassignUserMemory(from: string[], to: string): Promise<number> {
+    return this.memoryStore.reassignUser(from, to);
+  }
+
   /**
    * Spawn a background subagent that runs in an isolated session.
    * The result is auto-announced back to the parent session when complete.
@@ -168,6 +244,9 @@ export class AgentRunner {
       console.log(`[subagent.spawn] WARNING: No spawnProgressCallback set`);
     }
 
+    // Captured now: the spawning turn may be over by the time a subagent tool asks
+    const parentTurn = this.activeTurns.get(params.parentSessionKey);
+
     // Fire-and-forget: run the subagent in the background
     const run = async () => {
       const childSystemPrompt = buildSubagentSystemPrompt({
@@ -186,6 +265,8 @@ export class AgentRunner {
         userId: "system",
         userName: "parent-agent",
         isGroup: false,
+        role: parentTurn?.role,
+        identity: parentTurn?.identity,
       };
 
       // Build stream callbacks for subagent so tool progress is visible
@@ -193,6 +274,7 @@ export class AgentRunner {
       if (this.subagentToolProgressCallback) {
         const progressCb = this.subagentToolProgressCallback;
         const subLabel = params.label;
+        const subSessionKey = params.parentSessionKey;
         const subChannelId = params.parentChannelId;
         const subRunId = runId;
         const subToolTimers = new Map<string, number>();
@@ -200,6 +282,7 @@ export class AgentRunner {
         subagentStream.onToolStart = async (toolName: string, meta?: string) => {
           subToolTimers.set(toolName, Date.now());
           progressCb({
+            parentSessionKey: subSessionKey,
             parentChannelId: subChannelId,
             runId: subRunId,
             label: subLabel,
@@ -214,6 +297,7 @@ export class AgentRunner {
         ) => {
           subToolTimers.delete(toolName);
           progressCb({
+            parentSessionKey: subSessionKey,
             parentChannelId: subChannelId,
             runId: subRunId,
             label: subLabel,
@@ -226,6 +310,14 @@ export class AgentRunner {
         };
       }
 
+      // Tool approvals from the subagent go to the user of the turn that spawned it
+      if (parentTurn?.ask) {
+        const ask = parentTurn.ask;
+        const tag = params.label ? `[${params.label}] ` : "[subagent] ";
+        subagentStream.onApprovalRequest = (request) =>
+          ask({ ...request, userId: parentTurn.userId, summary: tag + request.summary });
+      }
+
       let resultText: string;
       let status: "ok" | "error";
       try {
@@ -289,28 +381,133 @@ export class AgentRunner {
     return true;
   }
 
+  /**
+   * Drop the session's warm in-memory state so the next turn reloads from
+   * disk (used by /reset). A running turn's session is disposed when it ends.
+   */
+  evictSession(sessionKey: string): void {
+    this.sessionPool.evict(sessionKey);
+  }
+
+  /** Dispose all warm sessions (process shutdown). */
+  shutdown(): void {
+    this.sessionPool.stop();
+  }
+
   /** Check if a session is currently running. */
   isSessionActive(sessionKey: string): boolean {
     return this.activeAbortControllers.has(sessionKey);
   }
 
+  /** Model used by the session's latest turn (reflects failover), if any. */
+  getActiveModel(sessionKey: string): string | undefined {
+    return this.activeModels.get(sessionKey);
+  }
+
+  /** Effective model, thinking level and queue mode for a session (override or default). */
+  getSessionSettings(sessionKey: string): {
+    model: string;
+    thinkingLevel: string;
+    queueMode: QueueMode;
+    modelOverridden: boolean;
+    thinkingOverridden: boolean;
+    queueModeOverridden: boolean;
+  } {
+    const override = this.sessionOverrides.get(sessionKey);
+    return {
+      model: override.model ?? `${this.config.provider}/${this.config.modelId}`,
+      thinkingLevel: override.thinkingLevel ?? this.config.thinkingLevel,
+      queueMode: override.queueMode ?? this.channelQueueMode(sessionKey),
+      modelOverridden: Boolean(override.model),
+      thinkingOverridden: Boolean(override.thinkingLevel),
+      queueModeOverridden: Boolean(override.queueMode),
+    };
+  }
+
+  /** Queue mode configured for the channel a session belongs to, else the global default. */
+  private channelQueueMode(sessionKey: string): QueueMode {
+    const channelName = sessionKey.split(":")[0];
+    const { discord, whatsapp, slack, telegram, matrix, http, accounts } = this.config.channels;
+    const channel = [
+      { ...discord, name: discord.name ?? "discord" },
+      { ...whatsapp, name: whatsapp.name ?? "whatsapp" },
+      { ...slack, name: slack.name ?? "slack" },
+      { ...telegram, name: telegram.name ?? "telegram" },
+      { ...matrix, name: matrix.name ?? "matrix" },
+      { ...http, name: http.name ?? "http" },
+      ...accounts,
+    ].find((c) => c.name === channelName);
+    return channel?.queueMode ?? this.config.queue.mode;
+  }
+
+  /**
+   * Pin a session to a model ("provider/modelId"), or clear the pin with null.
+   * The model must resolve via the registry or buildFallbackModel. Configured
+   * fallbacks still apply after the pinned model.
+   */
+  async setSessionModel(sessionKey: string, spec: string | null): Promise<void> {
+    if (spec) {
+      const ref = parseModelRef(spec, this.config);
+      const { modelRegistry } = this.createModelRegistry([ref]);
+      if (!this.resolveModel(modelRegistry, ref)) {
+        throw new Error(`Model ${spec} not found (unknown provider — set MODEL_BASE_URL?)`);
+      }
+    }
+    await this.sessionOverrides.set(sessionKey, { model: spec ?? undefined });
+  }
+
+  /** Set a session's thinking level, or clear it with null. */
+  async setSessionThinkingLevel(
+    sessionKey: string,
+    level: ThinkingLevelOverride | null,
+  ): Promise<void> {
+    await this.sessionOverrides.set(sessionKey, { thinkingLevel: level ?? undefined });
+  }
+
+  /** Set how a session handles messages that arrive mid-run, or clear it with null. */
+  async setSessionQueueMode(sessionKey: string, mode: QueueMode | null): Promise<void> {
+    await this.sessionOverrides.set(sessionKey, { queueMode: mode ?? undefined });
+  }
+
+  /** Models the registry has credentials for, plus the configured fallback chain. */
+  listModels(): { available: string[]; fallbacks: string[] } {
+    const { modelRegistry } = this.createModelRegistry(this.modelCandidates());
+    return {
+      available: modelRegistry.getAvailable().map((m) => `${m.provider}/${m.id}`),
+      fallbacks: this.config.modelFallbacks.map((m) => `${m.provider}/${m.modelId}`),
+    };
+  }
+
   async init(): Promise<void> {
     await fs.mkdir(this.config.workspaceDir, { recursive: true });
     await fs.mkdir(this.config.codeDir, { recursive: true });
     await fs.mkdir(this.config.agentDir, { recursive: true });
     await this.memoryStore.load();
     await this.subagentRegistry.load();
+    await this.sessionOverrides.load();
+    await this.usageLedger.load();
     await this.ensureAgentFiles();
 
     // Load skills and bootstrap context from workspace
     this.cachedSkills = await loadWorkspaceSkills(this.config.workspaceDir);
     this.cachedBootstrapContext = await loadBootstrapContext(this.config.workspaceDir);
+    this.sessionPool.start();
 
     console.log(`[agent] Workspace: ${this.config.workspaceDir}`);
     console.log(`[agent] Code dir:  ${this.config.codeDir}`);
     console.log(
       `[agent] Model: ${this.config.provider}/${this.config.modelId}`,
     );
+    if (this.config.background.model) {
+      console.log(
+        `[agent] Background model: ${this.config.background.model.provider}/${this.config.background.model.modelId}`,
+      );
+    }
+    if (this.config.modelFallbacks.length > 0) {
+      console.log(
+        `[agent] Fallbacks: ${this.config.modelFallbacks.map((m) => `${m.provider}/${m.modelId}`).join(" → ")}`,
+      );
+    }
     console.log(
       `[agent] Web search: ${this.config.braveApiKey ? "enabled" : "disabled (no BRAVE_API_KEY)"}`,
     );
@@ -345,125 +542,113 @@ export class AgentRunner {
 
   /**
    * Make a direct LLM API call for consolidation (bypasses Pi SDK session).
-   * Uses the Anthropic Messages API or OpenAI-compatible chat completions
-   * depending on the configured provider.
+   * Goes through the record/replay fixtures when configured.
    */
-  private async makeLlmCall(systemPrompt: string, userPrompt: string): Promise<string> {
-    if (this.config.provider === "anthropic") {
-      const res = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": this.config.apiKey,
-          "anthropic-version": "2023-06-01",
-        },
-        body: JSON.stringify({
-          model: this.config.modelId,
-          max_tokens: 4096,
-          system: systemPrompt,
-          messages: [{ role: "user", content: userPrompt }],
-        }),
-      });
-      if (!res.ok) {
-        throw new Error(`Anthropic API error: ${res.status} ${await res.text()}`);
-      }
-      const data = (await res.json()) as {
-        content: Array<{ type: string; text?: string }>;
-      };
-      return data.content
-        .filter((b) => b.type === "text" && b.text)
-        .map((b) => b.text!)
-        .join("");
+  private async makeLlmCall(
+    systemPrompt: string,
+    userPrompt: string,
+    opts: { sessionKey: string },
+  ): Promise<string> {
+    if (this.llmFixtures) {
+      return this.llmFixtures.call(systemPrompt, () =>
+        this.callProviderDirect(systemPrompt, userPrompt, opts),
+      );
     }
+    return this.callProviderDirect(systemPrompt, userPrompt, opts);
+  }
 
-    // OpenAI-compatible fallback
-    const baseUrl = this.config.provider === "openai"
-      ? "https://api.openai.com/v1"
-      : `https://api.${this.config.provider}.com/v1`;
-    const res = await fetch(`${baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: this.config.modelId,
-        max_tokens: 4096,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-      }),
+  /**
+   * One-shot call on the background model (BACKGROUND_MODEL, else the primary
+   * model) through the shared LLM client. Usage is recorded in the ledger
+   * against the given session.
+   */
+  private async callProviderDirect(
+    systemPrompt: string,
+    userPrompt: string,
+    opts: { sessionKey: string },
+  ): Promise<string> {
+    const ref = this.backgroundModelRef();
+    const { text, usage, model } = await this.llmClient.complete(ref, systemPrompt, userPrompt);
+    void this.usageLedger.record({
+      sessionKey: opts.sessionKey,
+      kind: "consolidation",
+      model: `${ref.provider}/${ref.modelId}`,
+      ...usage,
+      costUsd: priceUsage(usage, model.cost),
     });
-    if (!res.ok) {
-      throw new Error(`LLM API error: ${res.status} ${await res.text()}`);
-    }
-    const data = (await res.json()) as {
-      choices: Array<{ message: { content: string } }>;
-    };
-    return data.choices[0]?.message?.content ?? "";
+    return text;
+  }
+
+  private primaryModelRef(): ModelRef {
+    const { provider, modelId, apiKey, baseUrl } = this.config;
+    return { provider, modelId, apiKey, baseUrl };
+  }
+
+  /** Model for housekeeping (consolidation, memory flush): BACKGROUND_MODEL, else the primary. */
+  private backgroundModelRef(): ModelRef {
+    return this.config.background.model ?? this.primaryModelRef();
   }
 
   /**
-   * Build a fallback model when the Pi SDK built-in registry doesn't have it.
-   * Follows OpenClaw's resolveModel pattern: construct the Model object manually
-   * using the configured provider, modelId, baseUrl, and sensible defaults.
-   * This enables OpenRouter models (e.g. minimax/minimax-m2.5), custom endpoints, etc.
+   * Models to try, in failover order: the session's `/model` pin (if any),
+   * then the primary model, then MODEL_FALLBACKS.
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private buildFallbackModel(): any | undefined {
-    const { provider, modelId, baseUrl } = this.config;
-
-    // Default base URLs for known providers
-    const KNOWN_BASE_URLS: Record<string, string> = {
-      openrouter: "https://openrouter.ai/api/v1",
-      openai: "https://api.openai.com/v1",
-      groq: "https://api.groq.com/openai/v1",
-      cerebras: "https://api.cerebras.ai/v1",
-      mistral: "https://api.mistral.ai/v1",
-      xai: "https://api.x.ai/v1",
-      minimax: "https://api.minimax.chat/v1",
-      "minimax-cn": "https://api.minimax.chat/v1",
-      huggingface: "https://api-inference.huggingface.co/v1",
-      "vercel-ai-gateway": "https://ai-gateway.vercel.sh/v1",
-    };
-
-    // Known providers that use anthropic-messages API
-    const ANTHROPIC_API_PROVIDERS = new Set(["anthropic"]);
-    // Known providers that use openai-responses API
-    const RESPONSES_API_PROVIDERS = new Set(["openai", "azure-openai-responses"]);
+  private modelCandidates(sessionKey?: string): ModelRef[] {
+    const chain = [this.primaryModelRef(), ...this.config.modelFallbacks];
+    const pinned = sessionKey ? this.sessionOverrides.get(sessionKey).model : undefined;
+    if (!pinned) return chain;
+    const pinnedRef = parseModelRef(pinned, this.config);
+    return [
+      pinnedRef,
+      ...chain.filter((r) => r.provider !== pinnedRef.provider || r.modelId !== pinnedRef.modelId),
+    ];
+  }
 
-    const resolvedBaseUrl = baseUrl || KNOWN_BASE_URLS[provider];
-    if (!resolvedBaseUrl) {
-      console.warn(`[agent] No base URL for provider "${provider}". Set MODEL_BASE_URL env var.`);
-      return undefined;
+  /** Build Pi SDK auth + model registry with runtime keys for the given candidates. */
+  private createModelRegistry(candidates: ModelRef[]): {
+    authStorage: AuthStorage;
+    modelRegistry: ModelRegistry;
+  } {
+    const authStorage = new AuthStorage(
+      path.join(this.config.agentDir, "auth.json"),
+    );
+    // Register keys for every candidate provider (first candidate last so it wins on conflicts)
+    for (const ref of [...candidates].reverse()) {
+      authStorage.setRuntimeApiKey(ref.provider, ref.apiKey);
     }
+    const modelRegistry = new ModelRegistry(
+      authStorage,
+      path.join(this.config.agentDir, "models.json"),
+    );
+    return { authStorage, modelRegistry };
+  }
 
-    // Determine the API type based on provider
-    let api: string;
-    if (ANTHROPIC_API_PROVIDERS.has(provider)) {
-      api = "anthropic-messages";
-    } else if (RESPONSES_API_PROVIDERS.has(provider)) {
-      api = "openai-responses";
-    } else {
-      // OpenRouter and most custom providers are OpenAI-completions compatible
-      api = "openai-completions";
+  /**
+   * Resolve a candidate to a Pi SDK model: registry first, then a manually
+   * constructed model via buildFallbackModel.
+   */
+  private resolveModel(
+    modelRegistry: ModelRegistry,
+    ref: ModelRef,
+  ): ReturnType<ModelRegistry["find"]> {
+    const found = modelRegistry.find(ref.provider, ref.modelId);
+    if (found) return found;
+
+    const fallback = buildFallbackModel(ref);
+    if (fallback) {
+      console.log(`[agent] Using fallback model: ${ref.provider}/${ref.modelId} (api=${fallback.api}, baseUrl=${fallback.baseUrl})`);
     }
+    return fallback;
+  }
 
-    console.log(`[agent] Building fallback model: provider=${provider}, modelId=${modelId}, api=${api}, baseUrl=${resolvedBaseUrl}`);
-
-    return {
-      id: modelId,
-      name: modelId,
-      api,
-      provider,
-      baseUrl: resolvedBaseUrl,
-      reasoning: false,
-      input: ["text"],
-      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
-      contextWindow: 128000,
-      maxTokens: 16384,
-    };
+  /**
+   * Background model for in-session housekeeping (memory flush), resolved
+   * against the session's registry. Undefined when BACKGROUND_MODEL is unset
+   * or can't be resolved — the session keeps its own model then.
+   */
+  private resolveBackgroundModel(modelRegistry: ModelRegistry): ReturnType<ModelRegistry["find"]> {
+    const ref = this.config.background.model;
+    return ref ? this.resolveModel(modelRegistry, ref) : undefined;
   }
 
   private async ensureAgentFiles(): Promise<void> {
@@ -487,33 +672,10 @@ export class AgentRunner {
     return path.join(this.config.agentDir, "sessions", `${safe}.jsonl`);
   }
 
-  private async writeDebugLog(logPath: string, entry: Record<string, unknown>): Promise<void> {
-    try {
-      let entries: Array<Record<string, unknown>> = [];
-      try {
-        const existing = await fs.readFile(logPath, "utf-8");
-        entries = JSON.parse(existing);
-        if (!Array.isArray(entries)) entries = [];
-      } catch {
-        // File doesn't exist or is invalid, start fresh
-      }
-      
-      // Keep only last 100 entries to prevent unbounded growth
-      entries.push(entry);
-      if (entries.length > 100) {
-        entries = entries.slice(-100);
-      }
-      
-      await fs.writeFile(logPath, JSON.stringify(entries, null, 2));
-    } catch (err) {
-      console.warn(`[debug] Failed to write debug log:`, err instanceof Error ? err.message : String(err));
-    }
-  }
-
   private buildCustomTools(sessionKey: string, channelId?: string): NanoToolDefinition[] {
     const tools: NanoToolDefinition[] = [];
 
-    tools.push(createMemoryTool(this.memoryStore));
+    tools.push(createMemoryTool(this.memoryStore, () => this.activeTurns.get(sessionKey)?.identity));
 
     // Citation-aware memory search + get tools (search across memory/*.md files)
     tools.push(
@@ -573,51 +735,40 @@ export class AgentRunner {
 
   /**
    * Handle a cron-fired agent turn: run the agent with the given prompt
-   * and return the response text (for delivery to the channel).
+   * and return the response text (for delivery to the channel). `source`
+   * names the trigger ("cron", "webhook") and prefixes the session key.
    */
   async handleCronAgentTurn(
     sessionKey: string,
     prompt: string,
+    source = "cron",
+    /** Limits the turn's tools like a user's role; omitted, the turn gets every tool. */
+    role?: AccessRole,
   ): Promise<OutboundMessage | null> {
     const msg: InboundMessage = {
       text: prompt,
-      sessionKey: `cron:${sessionKey}`,
-      channelId: sessionKey.split(":").slice(-1)[0] || "cron",
+      sessionKey: `${source}:${sessionKey}`,
+      channelId: sessionKey.split(":").slice(-1)[0] || source,
       userId: "system",
-      userName: "cron",
+      userName: source,
       isGroup: false,
+      role,
     };
-    return this.handleMessage(msg, {});
+    return this.handleMessage(msg, {}, { queueMode: "queue" });
   }
 
+  /**
+   * Run a turn for an inbound message. Messages for a session that is already
+   * busy are handled per its queue mode (see InboundQueue); pass `queueMode`
+   * to override it, e.g. "queue" for system messages that need their own reply.
+   */
   async handleMessage(
     msg: InboundMessage,
     stream: StreamCallbacks = {},
+    opts?: { queueMode?: QueueMode },
   ): Promise<OutboundMessage | null> {
-    // Serialize per session
-    const existing = this.activeSessions.get(msg.sessionKey);
-    if (existing) {
-      try {
-        await existing;
-      } catch {
-        // ignore
-      }
-    }
-
-    const promise = this._handleMessage(msg, stream);
-    this.activeSessions.set(
-      msg.sessionKey,
-      promise.then(
-        () => {},
-        () => {},
-      ),
-    );
-
-    try {
-      return await promise;
-    } finally {
-      this.activeSessions.delete(msg.sessionKey);
-    }
+    const mode = opts?.queueMode ?? this.getSessionSettings(msg.sessionKey).queueMode;
+    return this.inboundQueue.submit(msg, stream, mode);
   }
 
   private async _handleMessage(
@@ -625,137 +776,132 @@ export class AgentRunner {
     stream: StreamCallbacks,
     opts?: { extraSystemPrompt?: string },
   ): Promise<OutboundMessage | null> {
+    // Refuse new turns once a spend budget is exhausted
+    const budgetRefusal = this.usageLedger.checkBudget(msg.sessionKey, this.config.budgets);
+    if (budgetRefusal) {
+      console.warn(`[usage] Refusing turn for ${msg.sessionKey}: budget exceeded`);
+      return { text: budgetRefusal };
+    }
+
     const sessionFile = this.resolveSessionFile(msg.sessionKey);
     await fs.mkdir(path.dirname(sessionFile), { recursive: true });
 
-    // Debug logging: capture turn input
+    // Turn trace: filled in as the turn runs, appended to agentDir/traces/ when it ends
     const turnId = randomUUID().slice(0, 8);
-    const debugLogPath = path.join(this.config.agentDir, "debug.json");
-    const debugEntry: Record<string, unknown> = {
+    const turnStart = Date.now();
+    const trace: TurnTrace = {
       turnId,
-      timestamp: new Date().toISOString(),
       sessionKey: msg.sessionKey,
+      startedAt: new Date(turnStart).toISOString(),
       input: {
         text: msg.text,
         userId: msg.userId,
         userName: msg.userName,
         channelId: msg.channelId,
         isGroup: msg.isGroup,
-        hasImages: !!msg.images?.length,
+        imageCount: msg.images?.length ?? 0,
       },
-      tools: [] as Array<{ name: string; args: unknown; result: unknown; error?: string; durationMs: number }>,
+      tools: [],
+      attempts: [],
+      failovers: [],
+      outcome: "error",
+      timings: { totalMs: 0 },
     };
-    console.log(`[debug] Turn ${turnId} started: ${msg.text.slice(0, 80)}`);
+    const finishTrace = (outcome: TurnTrace["outcome"], error?: string) => {
+      trace.outcome = outcome;
+      trace.error = error?.slice(0, 1000);
+      trace.timings.totalMs = Date.now() - turnStart;
+      void this.traceStore.append(trace);
+      console.log(`[trace] Turn ${turnId} ${outcome}: ${trace.tools.length} tools, ${trace.timings.totalMs}ms`);
+    };
+    console.log(`[trace] Turn ${turnId} started: ${msg.text.slice(0, 80)}`);
 
     // Abort controller for this run
     const abortController = new AbortController();
     this.activeAbortControllers.set(msg.sessionKey, abortController);
 
-    // Pi SDK components
-    const authStorage = new AuthStorage(
-      path.join(this.config.agentDir, "auth.json"),
-    );
-    authStorage.setRuntimeApiKey(this.config.provider, this.config.apiKey);
-
-    const modelRegistry = new ModelRegistry(
-      authStorage,
-      path.join(this.config.agentDir, "models.json"),
-    );
-    let model = modelRegistry.find(
-      this.config.provider,
-      this.config.modelId,
-    );
-
-    // Fallback model resolution (follows OpenClaw's resolveModel pattern):
-    // When the model isn't in the Pi SDK built-in registry, construct one.
-    // This enables OpenRouter models (e.g. minimax/minimax-m2.5) and custom endpoints.
-    if (!model) {
-      const fallback = this.buildFallbackModel();
-      if (fallback) {
-        model = fallback as typeof model;
-        console.log(`[agent] Using fallback model: ${this.config.provider}/${this.config.modelId} (api=${fallback.api}, baseUrl=${fallback.baseUrl})`);
-      } else {
-        console.error(
-          `[agent] Model not found: ${this.config.provider}/${this.config.modelId}`,
-        );
-        return {
-          text: `Error: model ${this.config.provider}/${this.config.modelId} not found in Pi SDK registry.`,
-        };
-      }
-    }
-
-    // Repair corrupted session file before opening
-    await repairSessionFileIfNeeded({
-      sessionFile,
-      warn: (message) => console.warn(`[agent] ${message}`),
-    });
-
-    // Session & settings
-    const sessionManager = SessionManager.open(sessionFile);
-    const settingsManager = SettingsManager.create(
-      this.config.workspaceDir,
-      this.config.agentDir,
-    );
-
-    ensureCompactionReserveTokens(settingsManager);
+    // Pi SDK components — reused from the session pool while nothing they were built from changed
+    const candidates = this.modelCandidates(msg.sessionKey);
+    const modelLabel = (ref: ModelRef) => `${ref.provider}/${ref.modelId}`;
+    const thinkingLevel = this.getSessionSettings(msg.sessionKey).thinkingLevel;
+    trace.thinkingLevel = thinkingLevel;
 
     // Resolve sandbox context (creates Docker container if enabled)
     const sandbox = await this.resolveSandbox(msg.sessionKey);
 
-    // Custom tools
-    const customTools = this.buildCustomTools(msg.sessionKey, msg.channelId);
-    console.log(`[debug] Built ${customTools.length} custom tools: ${customTools.map(t => t.name).join(', ')}`);
-
-    // When sandbox is enabled, add the sandboxed exec tool and filter out
-    // the built-in bash/exec from codingTools (same pattern as OpenClaw's
-    // createOpenClawCodingTools which does: if tool.name === "bash" || "exec" → skip)
-    if (sandbox) {
-      customTools.push(createSandboxedExecTool(sandbox));
+    // Read persistent memory for injection into system prompt (not for roles barred from memory)
+    const canReadMemory = !msg.role || roleCanReadMemory(msg.role);
+    const memoryContext = canReadMemory ? await this.consolidator.readMemory() : null;
+    const skillsSection = formatSkillsForPrompt(this.cachedSkills);
+
+    // Subagent runs are one-shot and carry their own prompt — never pooled
+    const poolable = !opts?.extraSystemPrompt;
+    const fingerprint = createHash("sha256")
+      .update(
+        JSON.stringify([
+          candidates.map(modelLabel),
+          thinkingLevel,
+          msg.channelId,
+          msg.role ?? null,
+          // Tools are filtered by role when the session is built; a hot reload may change the lists
+          msg.role === "member" ? this.config.access.memberTools : msg.role === "guest" ? this.config.access.guestTools : null,
+          sandbox?.containerName ?? null,
+          skillsSection,
+          this.cachedBootstrapContext,
+          memoryContext,
+        ]),
+      )
+      .digest("hex");
+
+    let warm = poolable ? this.sessionPool.acquire(msg.sessionKey, fingerprint) : undefined;
+    let pooled = Boolean(warm);
+    trace.warmSession = pooled;
+    if (warm) {
+      // A previous turn may have failed over — start again from the primary model
+      warm.session.agent.setModel(warm.model);
+      console.log(`[agent] Reusing warm session for ${msg.sessionKey}`);
+    } else {
+      const built = await this.buildSession(msg, sessionFile, candidates, sandbox, thinkingLevel);
+      if ("error" in built) {
+        this.activeAbortControllers.delete(msg.sessionKey);
+        finishTrace("error", built.error);
+        return { text: built.error };
+      }
+      warm = built;
+      pooled = poolable && this.sessionPool.add(msg.sessionKey, fingerprint, warm);
     }
-    const tools = sandbox
-      ? (codingTools as unknown as Array<{ name: string }>).filter(
-          (t) => t.name !== "bash" && t.name !== "exec",
-        )
-      : codingTools;
-
-    console.log(`[debug] Total tools for session: ${tools.length} built-in + ${customTools.length} custom`);
-    console.log(`[debug] Custom tools: ${customTools.map(t => t.name).join(', ')}`);
-
-    // Create agent session — cwd is codeDir so coding tools operate in the isolated code directory
-    const { session } = await createAgentSession({
-      cwd: this.config.codeDir,
-      agentDir: this.config.agentDir,
-      authStorage,
-      modelRegistry,
-      model,
-      thinkingLevel: this.config.thinkingLevel as "off" | "minimal" | "low" | "medium" | "high",
-      tools: tools as typeof codingTools,
-      customTools: customTools as never[],
-      sessionManager,
-      settingsManager,
-    });
-
-    session.agent.streamFn = streamSimple;
+    const { session, modelRegistry } = warm;
+    let candidateIdx = 0;
+    let model: ReturnType<ModelRegistry["find"]> = warm.model;
+    this.activeModels.set(msg.sessionKey, modelLabel(candidates[0]));
+    trace.model = modelLabel(candidates[0]);
 
     // Set system prompt with current time, skills, bootstrap context, and sandbox info
-    // Read persistent memory for injection into system prompt
-    const memoryContext = await this.consolidator.readMemory();
-
-    // Derive channel name from session key (e.g. "discord:dm:123" → "Discord")
-    const channelName = msg.sessionKey.split(":")[0] ?? "unknown";
+    // Derive channel name from session key (e.g. "discord:dm:123" → "Discord"); shared sessions carry it
+    const channelName = msg.originChannel ?? msg.sessionKey.split(":")[0] ?? "unknown";
     const channelLabel = channelName.charAt(0).toUpperCase() + channelName.slice(1);
+    // Per-user memories follow the user's identity, not the session
+    const userMemory =
+      canReadMemory && msg.identity
+        ? this.memoryStore
+            .forUser(msg.identity)
+            .map((m) => `- ${m.content}${m.tags.length ? ` [${m.tags.join(", ")}]` : ""} (id: ${m.id})`)
+            .join("\n")
+        : "";
+    const linked = msg.identity && !msg.identity.startsWith(`${channelName}:`) ? `, linked identity: ${msg.identity}` : "";
 
     const systemPrompt = buildSystemPrompt({
       workspaceDir: this.config.workspaceDir,
       hasWebSearch: Boolean(this.config.braveApiKey),
       memoryContext: memoryContext ?? undefined,
+      userMemory: userMemory || undefined,
       citationsMode: this.config.consolidation.citations,
       channelContext: [
         `Platform: ${channelLabel}`,
-        "User: " + msg.userName + " (ID: " + msg.userId + ")",
+        "User: " + msg.userName + " (ID: " + msg.userId + ")" + (msg.role ? `, role: ${msg.role}` : "") + linked,
         msg.isGroup ? "Group chat" : "Direct message",
       ].join(" | "),
-      skillsSection: formatSkillsForPrompt(this.cachedSkills),
+      skillsSection,
       bootstrapContext: this.cachedBootstrapContext ?? undefined,
       currentTime: new Date().toISOString(),
       sandbox: sandbox
@@ -781,22 +927,87 @@ export class AgentRunner {
     };
     mutableSession._baseSystemPrompt = finalSystemPrompt;
     mutableSession._rebuildSystemPrompt = () => finalSystemPrompt;
+    trace.systemPromptHash = hashSystemPrompt(finalSystemPrompt);
+    trace.systemPromptChars = finalSystemPrompt.length;
 
     // Subscribe to session events for streaming feedback
     const collectedImages: ImageAttachment[] = [];
     const toolTimers = new Map<string, number>();
-    const toolDebugMap = new Map<string, { name: string; args: unknown; startTime: number }>();
+    const toolTraceMap = new Map<string, { name: string; args: unknown; startTime: number }>();
     let thinkingEmitted = false;
+    // Only the user-facing prompt streams text — the memory flush runs in the same session
+    let streamingText = false;
+    let streamedText = "";
+    // The SDK recovers from a context overflow on its own (compact, then continue)
+    // after session.prompt() has returned; the turn waits for that to settle
+    let overflowRecovery: { done: Promise<void>; settle: () => void; retrying: boolean } | undefined;
 
     const unsubscribe = session.subscribe(
       (evt: { type: string; [k: string]: unknown }) => {
         switch (evt.type) {
-          case "assistant_text": {
+          case "message_end": {
+            const message = evt.message as {
+              role?: string;
+              provider?: string;
+              model?: string;
+              usage?: { input: number; output: number; cacheRead: number; cacheWrite: number };
+            };
+            if (message?.role === "assistant" && streamingText && streamedText) {
+              stream.onTextComplete?.(streamedText);
+            }
+            // Record token usage for every assistant message (turns, retries, memory flush)
+            if (message?.role === "assistant" && message.usage) {
+              const { input, output, cacheRead, cacheWrite } = message.usage;
+              const usage = { input, output, cacheRead, cacheWrite };
+              // The session's model tracks failover and the memory flush's background
+              // model, so this prices against the model that answered
+              const answered = session.model ?? model;
+              void this.usageLedger.record({
+                sessionKey: msg.sessionKey,
+                kind: "turn",
+                model: `${message.provider ?? answered?.provider}/${message.model ?? answered?.id}`,
+                ...usage,
+                costUsd: answered ? priceUsage(usage, answered.cost) : 0,
+              });
+            }
+            break;
+          }
+          case "auto_compaction_start": {
+            if (evt.reason === "overflow" && !overflowRecovery) {
+              let settle = () => {};
+              const done = new Promise<void>((resolve) => (settle = resolve));
+              overflowRecovery = { done, settle, retrying: false };
+              console.warn(`[agent] Context overflow — SDK compacting ${msg.sessionKey}`);
+            }
+            break;
+          }
+          case "auto_compaction_end": {
+            if (!overflowRecovery) break;
+            if (evt.willRetry) overflowRecovery.retrying = true;
+            else overflowRecovery.settle();
+            break;
+          }
+          case "agent_end": {
+            if (overflowRecovery?.retrying) overflowRecovery.settle();
+            break;
+          }
+          case "message_start": {
+            if ((evt.message as { role?: string } | undefined)?.role === "assistant") {
+              streamedText = "";
+            }
+            break;
+          }
+          case "message_update": {
             // Emit thinking indicator once when the model starts generating
             if (!thinkingEmitted) {
               thinkingEmitted = true;
               stream.onThinking?.();
             }
+            const update = evt.assistantMessageEvent as { type?: string; delta?: string } | undefined;
+            if (streamingText && update?.type === "text_delta" && update.delta) {
+              streamedText += update.delta;
+              stream.onTextDelta?.(update.delta, streamedText);
+            }
             break;
           }
           case "tool_execution_start": {
@@ -805,7 +1016,7 @@ export class AgentRunner {
             const meta = inferToolMeta(toolName, evt.args);
             const startTime = Date.now();
             toolTimers.set(toolCallId, startTime);
-            toolDebugMap.set(toolCallId, { name: toolName, args: evt.args, startTime });
+            toolTraceMap.set(toolCallId, { name: toolName, args: evt.args, startTime });
             stream.onToolStart?.(toolName, meta);
             break;
           }
@@ -816,14 +1027,14 @@ export class AgentRunner {
             const durationMs = Date.now() - startTime;
             toolTimers.delete(toolCallId);
             
-            // Capture tool call for debug log
-            const toolDebug = toolDebugMap.get(toolCallId);
-            if (toolDebug) {
+            // Capture tool call for the turn trace
+            const toolTrace = toolTraceMap.get(toolCallId);
+            if (toolTrace) {
               const result = evt.result as Record<string, unknown> | undefined;
               const content = result?.content;
               let resultText: string | undefined;
               let errorText: string | undefined;
-              
+
               if (Array.isArray(content)) {
                 const textBlock = content.find(
                   (b: unknown) =>
@@ -833,21 +1044,23 @@ export class AgentRunner {
                 ) as { text?: string } | undefined;
                 if (textBlock?.text) {
                   if (textBlock.text.startsWith("Error:") || textBlock.text.includes('"status": "error"')) {
-                    errorText = textBlock.text.slice(0, 500);
+                    errorText = clipForTrace(textBlock.text) as string;
                   } else {
-                    resultText = textBlock.text.slice(0, 500);
+                    resultText = clipForTrace(textBlock.text) as string;
                   }
                 }
               }
-              
-              (debugEntry.tools as Array<unknown>).push({
-                name: toolDebug.name,
-                args: toolDebug.args,
+
+              trace.tools.push({
+                toolCallId,
+                name: toolTrace.name,
+                args: clipForTrace(toolTrace.args),
                 result: resultText,
                 error: errorText,
+                startedAtMs: toolTrace.startTime - turnStart,
                 durationMs,
               });
-              toolDebugMap.delete(toolCallId);
+              toolTraceMap.delete(toolCallId);
             }
 
             const result = evt.result as Record<string, unknown> | undefined;
@@ -905,12 +1118,38 @@ export class AgentRunner {
       },
     );
 
+    // Steer mode: while this turn is prompting, later messages for the session are
+    // injected into the live run (session.steer) instead of waiting for their own turn.
+    // Each resolves once the turn ends — false if the run finished before consuming it.
+    // Only the sender of this turn can steer it: the run keeps their role, tools and approvals.
+    const steered: Array<{ text: string; settle: (delivered: boolean) => void }> = [];
+    this.steerTargets.set(msg.sessionKey, async (next) => {
+      if (next.userId !== msg.userId || next.role !== msg.role || next.identity !== msg.identity) return false;
+      if (!session.isStreaming || next.images?.length || next.files?.length) return false;
+      try {
+        await session.steer(next.text);
+      } catch {
+        return false;
+      }
+      return new Promise<boolean>((settle) => steered.push({ text: next.text, settle }));
+    });
+
+    // Tool policy "ask" prompts go to the user who started this turn, in its chat
+    this.activeTurns.set(msg.sessionKey, {
+      userId: msg.userId,
+      role: msg.role,
+      identity: msg.identity,
+      ask: stream.onApprovalRequest,
+      signal: abortController.signal,
+    });
+
     try {
       const startTime = Date.now();
+      trace.timings.setupMs = startTime - turnStart;
 
-      // Memory flush: save important context before auto-compaction
+      // Memory flush: save important context before auto-compaction (on the background model)
       try {
-        await maybeRunMemoryFlush(session, msg.sessionKey);
+        await maybeRunMemoryFlush(session, msg.sessionKey, this.resolveBackgroundModel(modelRegistry));
       } catch (flushErr) {
         console.warn(
           `[agent] Memory flush failed (continuing): ${flushErr instanceof Error ? flushErr.message : String(flushErr)}`,
@@ -965,7 +1204,11 @@ export class AgentRunner {
         }
       }
 
+      // Files the user sent were saved to the session inbox — tell the agent where
+      const promptText = msg.files?.length ? `${msg.text}\n\n${describeReceivedFiles(msg.files)}` : msg.text;
+
       // ── Retry loop with abort support ──────────────────────────────
+      // Attempts are counted per model; failing over to the next candidate resets them.
       const MAX_PROMPT_ATTEMPTS = 3;
       for (let attempt = 0; attempt < MAX_PROMPT_ATTEMPTS; attempt++) {
         const timeoutId = setTimeout(() => {
@@ -976,18 +1219,50 @@ export class AgentRunner {
         abortController.signal.addEventListener("abort", onAbort, { once: true });
 
         let promptError: string | undefined;
+        const attemptStart = Date.now();
 
         try {
+          streamingText = true;
           // Run actual prompt [Run agent loop until error / stop]
           if (promptImages.length > 0) {
-            await session.prompt(msg.text, { images: promptImages });
+            await session.prompt(promptText, { images: promptImages });
           } else {
-            await session.prompt(msg.text);
+            await session.prompt(promptText);
+          }
+          // Overflow handling starts from the SDK's agent_end listener, just after prompt() resolves
+          await new Promise((resolve) => setImmediate(resolve));
+          if (overflowRecovery) {
+            // Its end events may never come if compaction stalls or the turn is stopped
+            let recoveryTimer: ReturnType<typeof setTimeout> | undefined;
+            let onRecoveryAbort = () => {};
+            try {
+              await Promise.race([
+                overflowRecovery.done,
+                new Promise<never>((_, reject) => {
+                  recoveryTimer = setTimeout(
+                    () => reject(new Error("Overflow recovery timed out")),
+                    OVERFLOW_RECOVERY_TIMEOUT_MS,
+                  );
+                  onRecoveryAbort = () => reject(abortController.signal.reason ?? new Error("Aborted"));
+                  if (abortController.signal.aborted) onRecoveryAbort();
+                  abortController.signal.addEventListener("abort", onRecoveryAbort, { once: true });
+                }),
+              ]);
+              console.log(`[agent] Overflow recovery finished for ${msg.sessionKey}`);
+            } catch (err) {
+              try { session.abort(); } catch {}
+              throw err;
+            } finally {
+              clearTimeout(recoveryTimer);
+              abortController.signal.removeEventListener("abort", onRecoveryAbort);
+              overflowRecovery = undefined;
+            }
           }
         } catch (err) {
           promptError = err instanceof Error ? err.message : String(err);
           console.error(`[agent] Prompt error (attempt ${attempt}):`, promptError);
         } finally {
+          streamingText = false;
           clearTimeout(timeoutId);
           abortController.signal.removeEventListener("abort", onAbort);
         }
@@ -1005,6 +1280,14 @@ export class AgentRunner {
           }
         }
 
+        const attemptTrace: TurnTrace["attempts"][number] = {
+          attempt,
+          model: modelLabel(candidates[candidateIdx]),
+          durationMs: Date.now() - attemptStart,
+          error: promptError?.slice(0, 500),
+        };
+        trace.attempts.push(attemptTrace);
+
         // No error — extract response and return
         if (!promptError) {
           const elapsed = Date.now() - startTime;
@@ -1023,15 +1306,8 @@ export class AgentRunner {
               })
             : "(no text response)";
 
-          // Debug logging: capture turn output
-          debugEntry.output = {
-            text: processedText,
-            hasImages: allImages.length > 0,
-            imageCount: allImages.length,
-          };
-          debugEntry.elapsed = Date.now() - startTime;
-          await this.writeDebugLog(debugLogPath, debugEntry);
-          console.log(`[debug] Turn ${turnId} completed: ${(debugEntry.tools as Array<unknown>).length} tools, ${debugEntry.elapsed}ms`);
+          trace.output = { text: processedText, imageCount: allImages.length };
+          finishTrace("ok");
 
           return {
             text: processedText,
@@ -1041,37 +1317,77 @@ export class AgentRunner {
 
         // Abort signal fired — don't retry
         if (abortController.signal.aborted) {
+          finishTrace("aborted", promptError);
           return { text: "🛑 Task was stopped." };
         }
 
-        // Resolve error → retry or respond
+        // Resolve error → retry, fail over to the next model, or respond
         const resolution = await resolvePromptError({
           error: promptError,
           sessionFile,
           sessionKey: msg.sessionKey,
           session,
           attempt,
+          canFailover: candidateIdx < candidates.length - 1,
         });
 
+        attemptTrace.action = resolution.action;
         if (resolution.action === "respond") {
+          // The resolver may have reset the session file — rebuild from disk next turn
+          this.sessionPool.evict(msg.sessionKey);
+          finishTrace("error", promptError);
           return { text: resolution.text };
         }
 
+        if (resolution.action === "failover") {
+          const from = modelLabel(candidates[candidateIdx]);
+          let next: ReturnType<ModelRegistry["find"]>;
+          while (!next && candidateIdx < candidates.length - 1) {
+            candidateIdx++;
+            next = this.resolveModel(modelRegistry, candidates[candidateIdx]);
+          }
+          if (!next) {
+            finishTrace("error", promptError);
+            return { text: `Error: ${promptError}` };
+          }
+          model = next;
+          const to = modelLabel(candidates[candidateIdx]);
+          console.warn(`[agent] Failing over ${from} → ${to} for ${msg.sessionKey}`);
+          trace.failovers.push({ from, to, error: promptError.slice(0, 500) });
+          this.activeModels.set(msg.sessionKey, to);
+          // Swap the model on the live agent only — the failover is turn-scoped,
+          // so don't persist it as the session/settings default.
+          session.agent.setModel(model);
+          attempt = -1; // fresh attempt budget for the new model
+          continue;
+        }
+
         // action === "retry" — wait if needed, then loop
         if (resolution.delayMs) {
+          attemptTrace.delayMs = resolution.delayMs;
           console.log(`[agent] Waiting ${resolution.delayMs}ms before retry...`);
           await new Promise((r) => setTimeout(r, resolution.delayMs));
         }
       }
 
       // Exhausted all attempts
+      finishTrace("error", trace.attempts[trace.attempts.length - 1]?.error);
       return { text: "Error: Failed after multiple retry attempts." };
     } catch (err) {
       // noop — falls through to the error handler below
       const errMsg = err instanceof Error ? err.message : String(err);
       console.error(`[agent] Unexpected error:`, err);
+      this.sessionPool.evict(msg.sessionKey);
+      finishTrace("error", errMsg);
       return { text: `Error: ${errMsg}` };
     } finally {
+      this.steerTargets.delete(msg.sessionKey);
+      this.activeTurns.delete(msg.sessionKey);
+      if (steered.length > 0) {
+        const missed = new Set(session.clearQueue().steering);
+        for (const s of steered) s.settle(!missed.has(s.text));
+      }
+
       // Run LLM-driven memory consolidation (non-blocking — errors are logged, not thrown)
       try {
         const allMessages = session.messages as Array<{ role?: string; content?: unknown }>;
@@ -1094,7 +1410,8 @@ export class AgentRunner {
               msg.sessionKey,
               messagesForConsolidation,
               allMessages.length,
-              this.makeLlmCall.bind(this),
+              (systemPrompt, userPrompt) =>
+                this.makeLlmCall(systemPrompt, userPrompt, { sessionKey: msg.sessionKey }),
             );
           }
         }
@@ -1107,7 +1424,170 @@ export class AgentRunner {
 
       this.activeAbortControllers.delete(msg.sessionKey);
       unsubscribe();
-      session.dispose();
+      if (pooled) this.sessionPool.release(msg.sessionKey, warm);
+      else session.dispose();
     }
   }
+
+  /**
+   * Apply the tool policy to one call. Resolves if it may run; throws
+   * ToolDeniedError if the policy denies it or the user doesn't approve.
+   */
+  private async authorizeToolCall(sessionKey: string, toolName: string, params: unknown): Promise<void> {
+    const target = this.activeTurns.get(sessionKey);
+    const policy = this.config.toolPolicy;
+    const { action } = evaluateToolPolicy(policy, { toolName, params, sessionKey, userId: target?.userId });
+    if (action === "allow") return;
+
+    const summary = describeToolCall(toolName, params);
+    if (action === "deny") {
+      console.warn(`[policy] Denied ${toolName} for ${sessionKey}: ${summary}`);
+      throw new ToolDeniedError(toolName, "blocked by the tool policy");
+    }
+    if (!target?.ask) {
+      console.warn(`[policy] ${toolName} needs approval but ${sessionKey} has no one to ask — denied`);
+      throw new ToolDeniedError(toolName, "it needs the user's approval and nobody can be asked in this context");
+    }
+    if (target.signal.aborted) throw new ToolDeniedError(toolName, "the task was stopped");
+
+    // The prompt is dismissed (signal aborted) on timeout, turn abort, or once answered
+    console.log(`[policy] Asking ${target.userId} to approve ${toolName} for ${sessionKey}: ${summary}`);
+    const prompt = new AbortController();
+    const onTurnAbort = () => prompt.abort();
+    target.signal.addEventListener("abort", onTurnAbort, { once: true });
+    const timer = setTimeout(() => prompt.abort(), policy.askTimeoutMs);
+    const dismissed = new Promise<"expired">((resolve) =>
+      prompt.signal.addEventListener("abort", () => resolve("expired"), { once: true }),
+    );
+
+    let verdict: boolean | "expired";
+    try {
+      verdict = await Promise.race([
+        target.ask({ toolName, summary, userId: target.userId, signal: prompt.signal }),
+        dismissed,
+      ]);
+    } catch (err) {
+      console.warn(`[policy] Approval prompt failed: ${err instanceof Error ? err.message : String(err)}`);
+      verdict = false;
+    } finally {
+      clearTimeout(timer);
+      target.signal.removeEventListener("abort", onTurnAbort);
+    }
+
+    console.log(`[policy] ${toolName} for ${sessionKey}: ${verdict === true ? "approved" : verdict === false ? "denied" : "no answer"}`);
+    if (verdict === "expired") {
+      throw new ToolDeniedError(
+        toolName,
+        target.signal.aborted ? "the task was stopped" : "the user did not answer the approval request in time",
+      );
+    }
+    if (!verdict) throw new ToolDeniedError(toolName, "the user denied it");
+  }
+
+  /**
+   * Build a Pi session for `msg`'s session key: model registry, settings,
+   * tools and history loaded from the session file.
+   */
+  private async buildSession(
+    msg: InboundMessage,
+    sessionFile: string,
+    candidates: ModelRef[],
+    sandbox: SandboxContext | null,
+    thinkingLevel: string,
+  ): Promise<WarmSession | { error: string }> {
+    // The background model's key is registered too (lowest priority) for the memory flush
+    const background = this.config.background.model;
+    const { authStorage, modelRegistry } = this.createModelRegistry(
+      background ? [...candidates, background] : candidates,
+    );
+
+    // Fallback model resolution (follows OpenClaw's resolveModel pattern):
+    // When the model isn't in the Pi SDK built-in registry, construct one.
+    // This enables OpenRouter models (e.g. minimax/minimax-m2.5) and custom endpoints.
+    const model = this.resolveModel(modelRegistry, candidates[0]);
+    if (!model) {
+      console.error(
+        `[agent] Model not found: ${candidates[0].provider}/${candidates[0].modelId}`,
+      );
+      return { error: `Error: model ${candidates[0].provider}/${candidates[0].modelId} not found in Pi SDK registry.` };
+    }
+
+    // Repair corrupted session file before opening
+    await repairSessionFileIfNeeded({
+      sessionFile,
+      warn: (message) => console.warn(`[agent] ${message}`),
+    });
+
+    // Session & settings
+    const sessionManager = SessionManager.open(sessionFile);
+    const settingsManager = SettingsManager.create(
+      this.config.workspaceDir,
+      this.config.agentDir,
+    );
+
+    ensureCompactionReserveTokens(settingsManager);
+
+    // Custom tools, limited to what the sender's role may use (system turns get everything)
+    const allowedForRole = (tool: { name: string }) =>
+      !msg.role || roleAllowsTool(this.config.access, msg.role, tool.name);
+    const customTools = this.buildCustomTools(msg.sessionKey, msg.channelId).filter(allowedForRole);
+    console.log(`[debug] Built ${customTools.length} custom tools: ${customTools.map(t => t.name).join(', ')}`);
+
+    // When sandbox is enabled, add the sandboxed exec tool and filter out
+    // the built-in bash/exec (same pattern as OpenClaw's
+    // createOpenClawCodingTools which does: if tool.name === "bash" || "exec" → skip)
+    if (sandbox) {
+      const execTool = createSandboxedExecTool(sandbox);
+      if (allowedForRole(execTool)) customTools.push(execTool);
+    }
+    // Built-ins (read/bash/edit/write) are created here for codeDir rather than
+    // left to the SDK: createAgentSession only takes the *names* from `tools`
+    // and rebuilds its own instances, which would bypass the wrappers below.
+    // Passed as custom tools, they replace the SDK's same-named base tools.
+    const builtinTools = createCodingTools(this.config.codeDir, {
+      read: { autoResizeImages: settingsManager.getImageAutoResize() },
+      bash: { commandPrefix: settingsManager.getShellCommandPrefix() },
+    })
+      .filter((t) => !sandbox || (t.name !== "bash" && t.name !== "exec"))
+      .filter(allowedForRole);
+
+    // Every call, built-in or custom, passes the tool policy first
+    const gate = (toolName: string, params: unknown) => this.authorizeToolCall(msg.sessionKey, toolName, params);
+    const gatedTools = [...builtinTools, ...customTools].map((tool) => wrapToolWithApproval(tool, gate));
+
+    console.log(`[debug] Total tools for session: ${builtinTools.length} built-in + ${customTools.length} custom`);
+    console.log(`[debug] Custom tools: ${customTools.map(t => t.name).join(', ')}`);
+
+    // With LLM fixtures, compaction summaries go through them too (the default loader plus one extension)
+    let resourceLoader: DefaultResourceLoader | undefined;
+    if (this.llmFixtures) {
+      resourceLoader = new DefaultResourceLoader({
+        cwd: this.config.codeDir,
+        agentDir: this.config.agentDir,
+        settingsManager,
+        extensionFactories: [this.llmFixtures.compactionExtension],
+      });
+      await resourceLoader.reload();
+    }
+
+    // Create agent session — cwd is codeDir so coding tools operate in the isolated code directory
+    const { session } = await createAgentSession({
+      cwd: this.config.codeDir,
+      agentDir: this.config.agentDir,
+      authStorage,
+      modelRegistry,
+      model,
+      thinkingLevel: thinkingLevel as "off" | "minimal" | "low" | "medium" | "high",
+      // No SDK base tools: the gated built-ins above come in as custom tools
+      tools: [],
+      customTools: gatedTools as never[],
+      sessionManager,
+      settingsManager,
+      resourceLoader,
+    });
+
+    session.agent.streamFn = this.llmFixtures?.streamFn ?? streamSimple;
+
+    return { session, modelRegistry, model };
+  }
 }
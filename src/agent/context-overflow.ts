@@ -35,16 +35,42 @@ export function isRetryableError(msg: string): boolean {
   );
 }
 
+/** HTTP status the provider SDKs put at the start of the message ("401 {...}"). */
+const AUTH_STATUS_PREFIX = /^(?:error:\s*)?(?:401|402|403)\b/i;
+/** Error type / code / status fields in the provider's JSON error body. */
+const AUTH_ERROR_FIELD =
+  /"(?:type|code|status)"\s*:\s*(?:"(?:authentication_error|permission_error|billing_error|insufficient_quota|invalid_api_key|UNAUTHENTICATED|PERMISSION_DENIED)"|40[13]\b)/;
+/** Provider messages that carry no code (OpenAI quota, Anthropic credits, bad keys). */
+const AUTH_ERROR_MESSAGES = [
+  "exceeded your current quota",
+  "credit balance is too low",
+  "incorrect api key provided",
+  "invalid x-api-key",
+  "invalid api key",
+];
+
+/** Detect auth / billing / quota errors — retrying the same model won't help. */
+export function isAuthOrQuotaError(msg: string): boolean {
+  const lower = msg.toLowerCase();
+  return (
+    AUTH_STATUS_PREFIX.test(msg.trim()) ||
+    AUTH_ERROR_FIELD.test(msg) ||
+    AUTH_ERROR_MESSAGES.some((m) => lower.includes(m))
+  );
+}
+
 /**
  * Retry strategy for prompt failures. Returns:
  *  - { action: "retry" } → caller should retry session.prompt()
+ *  - { action: "failover" } → caller should switch to the next fallback model
  *  - { action: "respond", text } → caller should return this as the response
  *
  * Strategy:
  *  1. Context overflow → try session.compact() → retry
  *  2. Context overflow after compaction → reset session file → respond with error
- *  3. Retryable transient error → wait + retry (up to maxRetries)
- *  4. Unknown error → respond with error
+ *  3. Auth / quota error → fail over to the next model (if any)
+ *  4. Retryable transient error → wait + retry (up to maxRetries), then fail over
+ *  5. Unknown error → respond with error
  */
 export async function resolvePromptError(opts: {
   error: string;
@@ -54,7 +80,13 @@ export async function resolvePromptError(opts: {
   session: any;
   attempt: number;
   maxRetries?: number;
-}): Promise<{ action: "retry"; delayMs?: number } | { action: "respond"; text: string }> {
+  /** Whether another model is available in the fallback chain. */
+  canFailover?: boolean;
+}): Promise<
+  | { action: "retry"; delayMs?: number }
+  | { action: "failover" }
+  | { action: "respond"; text: string }
+> {
   const { error, sessionFile, sessionKey, session, attempt } = opts;
   const maxRetries = opts.maxRetries ?? 2;
 
@@ -86,13 +118,25 @@ export async function resolvePromptError(opts: {
     };
   }
 
+  // ── Auth / quota errors — this model won't recover, try the next one ─
+  if (isAuthOrQuotaError(error) && opts.canFailover) {
+    console.warn(`[agent] Auth/quota error: ${error.slice(0, 120)} — failing over`);
+    return { action: "failover" };
+  }
+
   // ── Retryable transient errors (rate limit, 503, timeout) ─────────
-  if (isRetryableError(error) && attempt < maxRetries) {
-    const delayMs = Math.min(1000 * 2 ** attempt, 15_000); // exponential backoff, cap 15s
-    console.warn(
-      `[agent] Retryable error (attempt ${attempt}/${maxRetries}): ${error.slice(0, 120)} — retrying in ${delayMs}ms`,
-    );
-    return { action: "retry", delayMs };
+  if (isRetryableError(error)) {
+    if (attempt < maxRetries) {
+      const delayMs = Math.min(1000 * 2 ** attempt, 15_000); // exponential backoff, cap 15s
+      console.warn(
+        `[agent] Retryable error (attempt ${attempt}/${maxRetries}): ${error.slice(0, 120)} — retrying in ${delayMs}ms`,
+      );
+      return { action: "retry", delayMs };
+    }
+    if (opts.canFailover) {
+      console.warn(`[agent] Retries exhausted (${maxRetries}) — failing over`);
+      return { action: "failover" };
+    }
   }
 
   // ── Non-recoverable ───────────────────────────────────────────────
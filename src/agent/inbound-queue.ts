@@ -0,0 +1,160 @@
+import type { InboundMessage, OutboundMessage, StreamCallbacks } from "../channels/base.js";
+
+/**
+ * Per-session handling of messages that arrive while a turn is running.
+ *
+ * - "queue":   each message runs as its own turn, in arrival order.
+ * - "collect": messages sent while a turn is running are debounced and merged
+ *              into one prompt (a message on an idle session starts at once).
+ *              A batch only holds one sender's messages — the turn runs with
+ *              that sender's role — so a different sender starts a new batch.
+ *              The reply goes to the last message; earlier ones get null.
+ * - "steer":   if a turn is mid-prompt, the message is injected into the live
+ *              Pi session (session.steer) so the agent adjusts course; falls
+ *              back to "queue" when nothing is running or the steer was missed.
+ */
+
+export const QUEUE_MODES = ["queue", "collect", "steer"] as const;
+export type QueueMode = (typeof QUEUE_MODES)[number];
+
+export function isQueueMode(value: string): value is QueueMode {
+  return (QUEUE_MODES as readonly string[]).includes(value);
+}
+
+type RunTurn = (msg: InboundMessage, stream: StreamCallbacks) => Promise<OutboundMessage | null>;
+/** Resolves true once the running turn consumed the message, false if it couldn't be steered. */
+type SteerTurn = (msg: InboundMessage) => Promise<boolean>;
+
+interface Waiter {
+  msg: InboundMessage;
+  stream: StreamCallbacks;
+  resolve: (result: OutboundMessage | null) => void;
+  reject: (err: unknown) => void;
+}
+
+interface Lane {
+  /** Settles when the last scheduled turn for this session finishes. */
+  tail: Promise<void>;
+  /** Open "collect" batch — accepts new messages until its turn starts. */
+  batch?: { waiters: Waiter[]; timer?: ReturnType<typeof setTimeout>; scheduled: boolean };
+  /** Submitted messages not yet settled (lane is dropped at 0). */
+  pending: number;
+  /** Turns scheduled or running. */
+  active: number;
+}
+
+export class InboundQueue {
+  private lanes = new Map<string, Lane>();
+
+  constructor(
+    private runTurn: RunTurn,
+    private steerTurn: SteerTurn,
+    /** Read per batch so config hot reload applies. */
+    private collectDebounceMs: () => number,
+  ) {}
+
+  async submit(
+    msg: InboundMessage,
+    stream: StreamCallbacks,
+    mode: QueueMode,
+  ): Promise<OutboundMessage | null> {
+    const lane = this.lane(msg.sessionKey);
+    lane.pending++;
+    try {
+      if (mode === "steer" && (await this.steerTurn(msg))) {
+        console.log(`[queue] Steered message into running turn for ${msg.sessionKey}`);
+        return null;
+      }
+      if (mode === "collect") {
+        return await this.collect(lane, msg, stream);
+      }
+      return await this.enqueue(lane, () => this.runTurn(msg, stream));
+    } finally {
+      lane.pending--;
+      if (lane.pending === 0) this.lanes.delete(msg.sessionKey);
+    }
+  }
+
+  private lane(sessionKey: string): Lane {
+    let lane = this.lanes.get(sessionKey);
+    if (!lane) {
+      lane = { tail: Promise.resolve(), pending: 0, active: 0 };
+      this.lanes.set(sessionKey, lane);
+    }
+    return lane;
+  }
+
+  /** Chain a turn after everything already scheduled for the lane. */
+  private enqueue<T>(lane: Lane, run: () => Promise<T>): Promise<T> {
+    lane.active++;
+    const result = lane.tail.then(run);
+    const done = () => {
+      lane.active--;
+    };
+    lane.tail = result.then(done, done);
+    return result;
+  }
+
+  private collect(
+    lane: Lane,
+    msg: InboundMessage,
+    stream: StreamCallbacks,
+  ): Promise<OutboundMessage | null> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { msg, stream, resolve, reject };
+      const schedule = (batch: NonNullable<Lane["batch"]>) => {
+        if (batch.timer) clearTimeout(batch.timer);
+        batch.scheduled = true;
+        void this.enqueue(lane, () => this.runBatch(lane, batch));
+      };
+      // Another sender's batch is closed off: it runs first, with its own role
+      const open = lane.batch;
+      if (open && !sameSender(open.waiters[0].msg, msg)) {
+        if (!open.scheduled) schedule(open);
+        lane.batch = undefined;
+      }
+      const batch = lane.batch ?? { waiters: [], scheduled: false };
+      lane.batch = batch;
+      batch.waiters.push(waiter);
+      if (batch.scheduled) return; // already waiting for the running turn — just join
+
+      // Nothing running and nothing collected yet: no reason to wait
+      if (lane.active === 0 && batch.waiters.length === 1) return schedule(batch);
+      if (batch.timer) clearTimeout(batch.timer);
+      batch.timer = setTimeout(() => schedule(batch), this.collectDebounceMs());
+    });
+  }
+
+  private async runBatch(lane: Lane, batch: NonNullable<Lane["batch"]>): Promise<void> {
+    if (lane.batch === batch) lane.batch = undefined;
+    const { waiters } = batch;
+    const last = waiters[waiters.length - 1];
+    const merged: InboundMessage =
+      waiters.length === 1
+        ? last.msg
+        : {
+            ...last.msg,
+            text: waiters.map((w) => `${w.msg.userName}: ${w.msg.text}`).join("\n\n"),
+            images: waiters.some((w) => w.msg.images?.length)
+              ? waiters.flatMap((w) => w.msg.images ?? [])
+              : undefined,
+            files: waiters.some((w) => w.msg.files?.length)
+              ? waiters.flatMap((w) => w.msg.files ?? [])
+              : undefined,
+          };
+    if (waiters.length > 1) {
+      console.log(`[queue] Collected ${waiters.length} messages into one turn for ${last.msg.sessionKey}`);
+    }
+    for (const w of waiters.slice(0, -1)) w.resolve(null);
+    try {
+      last.resolve(await this.runTurn(merged, last.stream));
+    } catch (err) {
+      last.reject(err);
+    }
+  }
+}
+
+/** Same user with the same role and identity — safe to run as one turn. */
+function sameSender(a: InboundMessage, b: InboundMessage): boolean {
+  return a.userId === b.userId && a.role === b.role && a.identity === b.identity;
+}
@@ -1,6 +1,7 @@
-export { wrapToolWithImageNormalization, wrapToolWithResultTruncation } from "./tool-wrappers.js";
+export { wrapToolWithImageNormalization, wrapToolWithResultTruncation, wrapToolWithApproval } from "./tool-wrappers.js";
+export type { ToolCallGate } from "./tool-wrappers.js";
 export { maybeRunMemoryFlush } from "./memory-flush.js";
-export { isContextOverflowError, isRetryableError, resolvePromptError } from "./context-overflow.js";
+export { isContextOverflowError, isRetryableError, isAuthOrQuotaError, resolvePromptError } from "./context-overflow.js";
 export { ensureCompactionReserveTokens } from "./compaction.js";
 export { inferToolMeta, extractResultPreview, extractAssistantResponse } from "./utils.js";
 export { loadWorkspaceSkills, loadBootstrapContext, formatSkillsForPrompt } from "./skills.js";
@@ -8,3 +9,5 @@ export type { LoadedSkill } from "./skills.js";
 export { limitHistoryTurns, sanitizeToolUseResultPairing, sanitizeSessionHistory } from "./history.js";
 export { repairSessionFileIfNeeded } from "./session-repair.js";
 export type { RepairReport } from "./session-repair.js";
+export { LlmClient, buildFallbackModel } from "./llm-client.js";
+export type { LlmClientOptions, LlmCompletion } from "./llm-client.js";
@@ -0,0 +1,172 @@
+import { completeSimple } from "@mariozechner/pi-ai";
+import type { Api, Model } from "@mariozechner/pi-ai";
+import type { ModelRef } from "../config.js";
+import { isRetryableError } from "./context-overflow.js";
+
+/**
+ * One-shot LLM calls outside agent sessions: memory consolidation and other
+ * housekeeping. Goes through Pi's provider layer (`completeSimple`) with the
+ * same model resolution as agent turns — registry first, then
+ * `buildFallbackModel` — so MODEL_BASE_URL, OpenRouter and custom endpoints
+ * work here too. Each attempt has a timeout; transient errors (rate limits,
+ * 5xx, timeouts) are retried with exponential backoff.
+ */
+
+export interface LlmClientOptions {
+  /** Per-attempt timeout (ms). */
+  timeoutMs: number;
+  /** Retries after the first attempt for transient errors. */
+  maxRetries: number;
+}
+
+export interface LlmCallUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  usage: LlmCallUsage;
+  /** The model that answered (for pricing). */
+  model: Model<Api>;
+}
+
+// Default base URLs for known providers
+const KNOWN_BASE_URLS: Record<string, string> = {
+  openrouter: "https://openrouter.ai/api/v1",
+  openai: "https://api.openai.com/v1",
+  groq: "https://api.groq.com/openai/v1",
+  cerebras: "https://api.cerebras.ai/v1",
+  mistral: "https://api.mistral.ai/v1",
+  xai: "https://api.x.ai/v1",
+  minimax: "https://api.minimax.chat/v1",
+  "minimax-cn": "https://api.minimax.chat/v1",
+  huggingface: "https://api-inference.huggingface.co/v1",
+  "vercel-ai-gateway": "https://ai-gateway.vercel.sh/v1",
+  anthropic: "https://api.anthropic.com",
+};
+
+// Known providers that use anthropic-messages API
+const ANTHROPIC_API_PROVIDERS = new Set(["anthropic"]);
+// Known providers that use openai-responses API
+const RESPONSES_API_PROVIDERS = new Set(["openai", "azure-openai-responses"]);
+
+const DEFAULT_MAX_TOKENS = 4096;
+const MAX_BACKOFF_MS = 15_000;
+
+/**
+ * Build a fallback model when the Pi SDK built-in registry doesn't have it.
+ * Follows OpenClaw's resolveModel pattern: construct the Model object manually
+ * using the configured provider, modelId, baseUrl, and sensible defaults.
+ * This enables OpenRouter models (e.g. minimax/minimax-m2.5), custom endpoints, etc.
+ */
+export function buildFallbackModel(ref: ModelRef): Model<Api> | undefined {
+  const { provider, modelId, baseUrl } = ref;
+
+  const resolvedBaseUrl = baseUrl || KNOWN_BASE_URLS[provider];
+  if (!resolvedBaseUrl) {
+    console.warn(`[agent] No base URL for provider "${provider}". Set MODEL_BASE_URL env var.`);
+    return undefined;
+  }
+
+  // Determine the API type based on provider
+  let api: Api;
+  if (ANTHROPIC_API_PROVIDERS.has(provider)) {
+    api = "anthropic-messages";
+  } else if (RESPONSES_API_PROVIDERS.has(provider)) {
+    api = "openai-responses";
+  } else {
+    // OpenRouter and most custom providers are OpenAI-completions compatible
+    api = "openai-completions";
+  }
+
+  console.log(`[agent] Building fallback model: provider=${provider}, modelId=${modelId}, api=${api}, baseUrl=${resolvedBaseUrl}`);
+
+  return {
+    id: modelId,
+    name: modelId,
+    api,
+    provider,
+    baseUrl: resolvedBaseUrl,
+    reasoning: false,
+    input: ["text"],
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    contextWindow: 128000,
+    maxTokens: 16384,
+  };
+}
+
+export class LlmClient {
+  constructor(
+    private options: LlmClientOptions,
+    /** Model lookup shared with agent turns (registry, then buildFallbackModel). */
+    private resolveModel: (ref: ModelRef) => Model<Api> | undefined,
+  ) {}
+
+  /** Single system + user prompt → assistant text. Throws once retries are exhausted. */
+  async complete(
+    ref: ModelRef,
+    systemPrompt: string,
+    userPrompt: string,
+    opts: { maxTokens?: number; signal?: AbortSignal } = {},
+  ): Promise<LlmCompletion> {
+    const model = this.resolveModel(ref);
+    if (!model) throw new Error(`Model ${ref.provider}/${ref.modelId} not found`);
+
+    const { maxRetries } = this.options;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(model, ref.apiKey, systemPrompt, userPrompt, opts);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (opts.signal?.aborted || attempt >= maxRetries || !isRetryableError(message)) throw err;
+        const delayMs = Math.min(1000 * 2 ** attempt, MAX_BACKOFF_MS);
+        console.warn(
+          `[llm] ${ref.provider}/${ref.modelId} failed (attempt ${attempt + 1}/${maxRetries + 1}): ${message.slice(0, 120)} — retrying in ${delayMs}ms`,
+        );
+        await new Promise((r) => setTimeout(r, delayMs));
+      }
+    }
+  }
+
+  private async attempt(
+    model: Model<Api>,
+    apiKey: string,
+    systemPrompt: string,
+    userPrompt: string,
+    opts: { maxTokens?: number; signal?: AbortSignal },
+  ): Promise<LlmCompletion> {
+    const { timeoutMs } = this.options;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = opts.signal ? AbortSignal.any([opts.signal, timeout]) : timeout;
+
+    const response = await completeSimple(
+      model,
+      {
+        systemPrompt,
+        messages: [{ role: "user", content: userPrompt, timestamp: Date.now() }],
+      },
+      { apiKey, maxTokens: opts.maxTokens ?? DEFAULT_MAX_TOKENS, signal },
+    );
+
+    if (response.stopReason === "error" || response.stopReason === "aborted") {
+      // Pi reports our timeout as a plain abort — name it so it's retried
+      if (timeout.aborted && !opts.signal?.aborted) {
+        throw new Error(`LLM request timeout after ${timeoutMs}ms`);
+      }
+      throw new Error(response.errorMessage || `LLM request ${response.stopReason}`);
+    }
+
+    const { input, output, cacheRead, cacheWrite } = response.usage;
+    return {
+      text: response.content
+        .filter((b) => b.type === "text")
+        .map((b) => b.text)
+        .join(""),
+      usage: { input, output, cacheRead, cacheWrite },
+      model,
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import type { Api, Model } from "@mariozechner/pi-ai";
+
 const COMPACTION_RESERVE_TOKENS = 20_000;
 const MEMORY_FLUSH_SOFT_TOKENS = 4_000;
 const DEFAULT_CONTEXT_WINDOW = 200_000;
@@ -39,10 +41,16 @@ function estimateSessionTokens(messages: any[]): number {
  *
  * If the session is near the compaction threshold, inject a silent turn
  * prompting the agent to save important context to memory files before
- * auto-compaction summarizes (and potentially loses) it.
+ * auto-compaction summarizes (and potentially loses) it. With a `model`
+ * (BACKGROUND_MODEL), the flush runs on it and the session's model is
+ * restored afterwards.
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function maybeRunMemoryFlush(session: any, sessionKey: string): Promise<void> {
+export async function maybeRunMemoryFlush(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  session: any,
+  sessionKey: string,
+  model?: Model<Api>,
+): Promise<void> {
   const messages = session.messages;
   if (!Array.isArray(messages) || messages.length < 6) return;
 
@@ -55,11 +63,15 @@ export async function maybeRunMemoryFlush(session: any, sessionKey: string): Pro
     `[agent] Memory flush triggered for ${sessionKey}: ~${estimatedTokens} tokens (threshold: ${threshold})`,
   );
 
+  const sessionModel = session.model;
+  if (model) session.agent.setModel(model);
   try {
     await session.prompt(FLUSH_PROMPT);
   } catch (err) {
     console.warn(
       `[agent] Memory flush prompt failed: ${err instanceof Error ? err.message : String(err)}`,
     );
+  } finally {
+    if (model && sessionModel) session.agent.setModel(sessionModel);
   }
 }
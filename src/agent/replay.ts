@@ -0,0 +1,225 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { createAssistantMessageEventStream, streamSimple } from "@mariozechner/pi-ai";
+import type { AssistantMessage, AssistantMessageEventStream, Context } from "@mariozechner/pi-ai";
+import { compact } from "@mariozechner/pi-coding-agent";
+import type { CompactionResult, ExtensionFactory, SessionEntry } from "@mariozechner/pi-coding-agent";
+
+/**
+ * Record/replay of LLM exchanges for offline runs of AgentRunner.
+ *
+ * In "record" mode every agent-loop stream (`session.agent.streamFn`), every
+ * direct `makeLlmCall` (consolidation) and every Pi SDK compaction summary goes
+ * to the real provider and the result is appended to a JSON fixture. In
+ * "replay" mode the fixture answers instead and nothing touches the network.
+ *
+ * Exchanges are matched by key, not by global order, so concurrent sessions
+ * (a parent and its subagents) replay deterministically:
+ * - streams: hash of the conversation's first user message + number of
+ *   assistant messages already in context (i.e. the step within that turn loop)
+ * - direct calls: hash of the system prompt
+ * - compactions: same as streams, over the session branch being compacted
+ * Repeated keys are consumed in recorded order.
+ */
+
+export type LlmFixtureMode = "record" | "replay";
+
+export interface LlmFixtureConfig {
+  mode: LlmFixtureMode;
+  /** Fixture file (JSON). Created on record, required on replay. */
+  path: string;
+}
+
+type FixtureExchange =
+  | { kind: "stream"; key: string; response: AssistantMessage }
+  | { kind: "call"; key: string; response: string }
+  | { kind: "compaction"; key: string; response: Omit<CompactionResult, "firstKeptEntryId"> };
+
+interface FixtureFile {
+  version: 1;
+  exchanges: FixtureExchange[];
+}
+
+export class LlmFixtureMissError extends Error {
+  constructor(kind: FixtureExchange["kind"], key: string, fixturePath: string) {
+    super(`No recorded ${kind} exchange for key ${key} in ${fixturePath} — re-record the fixture`);
+    this.name = "LlmFixtureMissError";
+  }
+}
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+function messageText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((b) => (b && typeof b === "object" && (b as { type?: string }).type === "text" ? (b as { text: string }).text : ""))
+    .join("");
+}
+
+function conversationKey(messages: Array<{ role: string; content?: unknown }>): string {
+  const firstUser = messages.find((m) => m.role === "user");
+  const step = messages.filter((m) => m.role === "assistant").length;
+  return `${hash(messageText(firstUser?.content))}:${step}`;
+}
+
+function streamKey(context: Context): string {
+  return conversationKey(context.messages);
+}
+
+function compactionKey(branch: SessionEntry[]): string {
+  return conversationKey(branch.flatMap((e) => (e.type === "message" ? [e.message as { role: string; content?: unknown }] : [])));
+}
+
+export class LlmFixtures {
+  private exchanges: FixtureExchange[] = [];
+  /** Replay cursors: remaining exchanges per kind+key, in recorded order. */
+  private pending = new Map<string, FixtureExchange[]>();
+
+  constructor(private config: LlmFixtureConfig) {
+    if (config.mode === "replay") {
+      const raw = fs.readFileSync(config.path, "utf-8");
+      const file = JSON.parse(raw) as FixtureFile;
+      for (const ex of file.exchanges) {
+        const id = `${ex.kind}:${ex.key}`;
+        if (!this.pending.has(id)) this.pending.set(id, []);
+        this.pending.get(id)!.push(ex);
+      }
+      console.log(`[replay] Replaying ${file.exchanges.length} LLM exchanges from ${config.path}`);
+    } else {
+      console.log(`[replay] Recording LLM exchanges to ${config.path}`);
+    }
+  }
+
+  get mode(): LlmFixtureMode {
+    return this.config.mode;
+  }
+
+  /** Drop-in replacement for `streamSimple` as `session.agent.streamFn`. */
+  readonly streamFn = (...args: Parameters<typeof streamSimple>): AssistantMessageEventStream => {
+    const [model, context, options] = args;
+    const key = streamKey(context);
+
+    if (this.config.mode === "record") {
+      const stream = streamSimple(model, context, options);
+      void stream.result().then((response) => this.record({ kind: "stream", key, response }));
+      return stream;
+    }
+
+    const out = createAssistantMessageEventStream();
+    let response: AssistantMessage;
+    try {
+      response = this.take("stream", key).response as AssistantMessage;
+    } catch (err) {
+      // Surface misses the way a provider failure would, so the agent loop ends cleanly
+      response = {
+        role: "assistant",
+        content: [],
+        api: model.api,
+        provider: model.provider,
+        model: model.id,
+        usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: 0, cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 } },
+        stopReason: "error",
+        errorMessage: err instanceof Error ? err.message : String(err),
+        timestamp: Date.now(),
+      };
+    }
+    queueMicrotask(() => replayEvents(out, response));
+    return out;
+  };
+
+  /** Wrap a direct LLM call (consolidation) keyed by its system prompt. */
+  async call(systemPrompt: string, live: () => Promise<string>): Promise<string> {
+    const key = hash(systemPrompt);
+    if (this.config.mode === "replay") {
+      return this.take("call", key).response as string;
+    }
+    const response = await live();
+    this.record({ kind: "call", key, response });
+    return response;
+  }
+
+  /**
+   * Pi SDK extension that answers compactions (`session.compact()`, auto-compaction)
+   * from the fixture. Compaction summarizes through its own provider call,
+   * which `streamFn` never sees.
+   */
+  readonly compactionExtension: ExtensionFactory = (pi) => {
+    pi.on("session_before_compact", async (event, ctx) => {
+      const key = compactionKey(event.branchEntries);
+      if (this.config.mode === "replay") {
+        let recorded: Omit<CompactionResult, "firstKeptEntryId">;
+        try {
+          recorded = this.take("compaction", key).response as Omit<CompactionResult, "firstKeptEntryId">;
+        } catch (err) {
+          // Cancel rather than throw: a throwing handler lets the SDK summarize over the network
+          console.warn(`[replay] ${err instanceof Error ? err.message : String(err)}`);
+          return { cancel: true };
+        }
+        // Entry ids are fresh every run: keep the cut point this run computed
+        return { compaction: { ...recorded, firstKeptEntryId: event.preparation.firstKeptEntryId } };
+      }
+      const model = ctx.model;
+      const apiKey = model ? await ctx.modelRegistry.getApiKey(model) : undefined;
+      if (!model || !apiKey) return undefined; // let the SDK report it
+      const result = await compact(event.preparation, model, apiKey, event.customInstructions, event.signal);
+      const { firstKeptEntryId: _, ...response } = result;
+      this.record({ kind: "compaction", key, response });
+      return { compaction: result };
+    });
+  };
+
+  private take(kind: FixtureExchange["kind"], key: string): FixtureExchange {
+    const ex = this.pending.get(`${kind}:${key}`)?.shift();
+    if (!ex) throw new LlmFixtureMissError(kind, key, this.config.path);
+    return ex;
+  }
+
+  private record(ex: FixtureExchange): void {
+    this.exchanges.push(ex);
+    try {
+      fs.mkdirSync(path.dirname(this.config.path), { recursive: true });
+      const file: FixtureFile = { version: 1, exchanges: this.exchanges };
+      fs.writeFileSync(this.config.path, JSON.stringify(file, null, 2));
+    } catch (err) {
+      console.warn(`[replay] Failed to write fixture: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+/** Re-emit a recorded final message as the event sequence a provider stream produces. */
+function replayEvents(out: AssistantMessageEventStream, message: AssistantMessage): void {
+  if (message.stopReason === "error" || message.stopReason === "aborted") {
+    out.push({ type: "error", reason: message.stopReason, error: message });
+    out.end(message);
+    return;
+  }
+
+  const partial: AssistantMessage = { ...message, content: [] };
+  out.push({ type: "start", partial });
+  message.content.forEach((block, contentIndex) => {
+    partial.content.push(block);
+    switch (block.type) {
+      case "text":
+        out.push({ type: "text_start", contentIndex, partial });
+        out.push({ type: "text_delta", contentIndex, delta: block.text, partial });
+        out.push({ type: "text_end", contentIndex, content: block.text, partial });
+        break;
+      case "thinking":
+        out.push({ type: "thinking_start", contentIndex, partial });
+        out.push({ type: "thinking_delta", contentIndex, delta: block.thinking, partial });
+        out.push({ type: "thinking_end", contentIndex, content: block.thinking, partial });
+        break;
+      case "toolCall":
+        out.push({ type: "toolcall_start", contentIndex, partial });
+        out.push({ type: "toolcall_delta", contentIndex, delta: JSON.stringify(block.arguments), partial });
+        out.push({ type: "toolcall_end", contentIndex, toolCall: block, partial });
+        break;
+    }
+  });
+  out.push({ type: "done", reason: message.stopReason, message });
+  out.end(message);
+}
@@ -0,0 +1,75 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { QueueMode } from "./inbound-queue.js";
+
+/**
+ * Per-session model / thinking-level / queue-mode overrides set via `/model`,
+ * `/think` and `/queue`.
+ *
+ * Persisted to agentDir/session-overrides.json so a DM switched to a stronger
+ * model stays switched across restarts. Sessions without an entry use the
+ * global config (MODEL_ID, THINKING_LEVEL, the channel's queue mode).
+ */
+
+export const THINKING_LEVELS = ["off", "low", "medium", "high"] as const;
+export type ThinkingLevelOverride = (typeof THINKING_LEVELS)[number];
+
+export interface SessionOverride {
+  /** "provider/modelId" */
+  model?: string;
+  thinkingLevel?: ThinkingLevelOverride;
+  queueMode?: QueueMode;
+}
+
+export class SessionOverrideStore {
+  private overrides = new Map<string, SessionOverride>();
+  private storePath: string;
+
+  constructor(agentDir: string) {
+    this.storePath = path.join(agentDir, "session-overrides.json");
+  }
+
+  async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.storePath, "utf-8");
+      const data = JSON.parse(raw) as Record<string, SessionOverride>;
+      this.overrides = new Map(Object.entries(data));
+    } catch {
+      this.overrides = new Map();
+    }
+  }
+
+  get(sessionKey: string): SessionOverride {
+    return this.overrides.get(sessionKey) ?? {};
+  }
+
+  /** Merge a patch into a session's overrides. `undefined` fields clear the override. */
+  async set(sessionKey: string, patch: SessionOverride): Promise<void> {
+    const next: SessionOverride = { ...this.get(sessionKey), ...patch };
+    if (!next.model) delete next.model;
+    if (!next.thinkingLevel) delete next.thinkingLevel;
+    if (!next.queueMode) delete next.queueMode;
+
+    if (Object.keys(next).length === 0) {
+      this.overrides.delete(sessionKey);
+    } else {
+      this.overrides.set(sessionKey, next);
+    }
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      const tmp = this.storePath + ".tmp";
+      await fs.writeFile(tmp, JSON.stringify(Object.fromEntries(this.overrides), null, 2));
+      await fs.rename(tmp, this.storePath);
+    } catch (err) {
+      console.error(`[overrides] Failed to persist: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+export function isThinkingLevel(value: string): value is ThinkingLevelOverride {
+  return (THINKING_LEVELS as readonly string[]).includes(value);
+}
@@ -0,0 +1,160 @@
+/**
+ * Warm agent sessions kept between turns, keyed by sessionKey.
+ *
+ * Building a Pi session (model registry, settings, tool instances, history
+ * load) on every message is the bulk of per-turn setup. The pool keeps the
+ * built value checked in between turns and hands it back when the caller's
+ * fingerprint — everything the session was built from (model candidates,
+ * thinking level, sandbox, system prompt inputs) — still matches. A mismatch
+ * disposes the stale entry so the caller rebuilds.
+ *
+ * Entries idle for longer than `idleMs` are disposed by a periodic sweep, and
+ * the least recently used idle entry makes room once `maxSessions` is reached.
+ * `maxSessions: 0` disables pooling.
+ */
+
+export interface SessionPoolOptions {
+  idleMs: number;
+  maxSessions: number;
+}
+
+interface PoolEntry<T> {
+  value: T;
+  fingerprint: string;
+  lastUsedAt: number;
+  /** Checked out by a running turn. */
+  busy: boolean;
+  /** Evicted while busy — dispose on release instead of checking back in. */
+  stale: boolean;
+}
+
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+export class SessionPool<T> {
+  private entries = new Map<string, PoolEntry<T>>();
+  private sweepTimer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    /** Read on every operation so config hot reload applies. */
+    private options: () => SessionPoolOptions,
+    private disposeValue: (value: T) => void,
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Check out the warm value for `key` if it was built from the same inputs. */
+  acquire(key: string, fingerprint: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.busy) return undefined;
+    if (entry.fingerprint !== fingerprint) {
+      this.drop(key, "inputs changed");
+      return undefined;
+    }
+    entry.busy = true;
+    entry.lastUsedAt = Date.now();
+    return entry.value;
+  }
+
+  /**
+   * Register a freshly built value as checked out. Returns false when it can't
+   * be pooled (pooling disabled, or another turn holds this key) — the caller
+   * then owns the value and disposes it itself.
+   */
+  add(key: string, fingerprint: string, value: T): boolean {
+    const { maxSessions } = this.options();
+    if (maxSessions <= 0) return false;
+
+    const existing = this.entries.get(key);
+    if (existing?.busy) return false;
+    if (existing) this.drop(key, "replaced");
+
+    while (this.entries.size >= maxSessions) {
+      const lru = this.leastRecentlyUsedIdle();
+      if (!lru) return false;
+      this.drop(lru, "pool full");
+    }
+
+    this.entries.set(key, { value, fingerprint, lastUsedAt: Date.now(), busy: true, stale: false });
+    return true;
+  }
+
+  /** Check a value back in after its turn. Values the pool doesn't own are disposed. */
+  release(key: string, value: T): void {
+    const entry = this.entries.get(key);
+    if (!entry || entry.value !== value) {
+      this.disposeSafely(value);
+      return;
+    }
+    if (entry.stale) {
+      this.drop(key, "evicted during turn");
+      return;
+    }
+    entry.busy = false;
+    entry.lastUsedAt = Date.now();
+  }
+
+  /** Drop the warm value for `key` (e.g. on /reset). A busy entry is disposed when released. */
+  evict(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    if (entry.busy) {
+      entry.stale = true;
+      return;
+    }
+    this.drop(key, "evicted");
+  }
+
+  /** Dispose idle entries older than `idleMs`. */
+  sweep(now = Date.now()): void {
+    const { idleMs } = this.options();
+    for (const [key, entry] of this.entries) {
+      if (!entry.busy && now - entry.lastUsedAt >= idleMs) {
+        this.drop(key, "idle");
+      }
+    }
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+    const interval = Math.min(Math.max(this.options().idleMs, 1000), MAX_SWEEP_INTERVAL_MS);
+    this.sweepTimer = setInterval(() => this.sweep(), interval);
+    this.sweepTimer.unref();
+  }
+
+  /** Stop sweeping and dispose everything idle; busy entries are disposed on release. */
+  stop(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+    for (const key of [...this.entries.keys()]) this.evict(key);
+  }
+
+  private leastRecentlyUsedIdle(): string | undefined {
+    let oldest: string | undefined;
+    let oldestAt = Infinity;
+    for (const [key, entry] of this.entries) {
+      if (!entry.busy && entry.lastUsedAt < oldestAt) {
+        oldest = key;
+        oldestAt = entry.lastUsedAt;
+      }
+    }
+    return oldest;
+  }
+
+  private drop(key: string, reason: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.disposeSafely(entry.value);
+    console.log(`[pool] Disposed warm session ${key} (${reason})`);
+  }
+
+  private disposeSafely(value: T): void {
+    try {
+      this.disposeValue(value);
+    } catch (err) {
+      console.warn(`[pool] Failed to dispose session: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
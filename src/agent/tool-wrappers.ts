@@ -118,3 +118,25 @@ export function wrapToolWithResultTruncation(
     },
   };
 }
+
+/** Resolves if the call may run; throws (ToolDeniedError) if it may not. */
+export type ToolCallGate = (toolName: string, params: unknown) => Promise<void>;
+
+/**
+ * Wraps a tool's execute function so every call passes the tool policy gate
+ * first (allow / deny / ask the user). Works for both custom tools and the
+ * Pi SDK built-ins, whose execute signatures differ after `params`.
+ */
+export function wrapToolWithApproval<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  T extends { name: string; execute: (...args: any[]) => Promise<unknown> },
+>(tool: T, gate: ToolCallGate): T {
+  const originalExecute = tool.execute;
+  return {
+    ...tool,
+    execute: (async (...args: unknown[]) => {
+      await gate(tool.name, args[1]);
+      return originalExecute(...args);
+    }) as T["execute"],
+  };
+}
@@ -0,0 +1,275 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Append-only turn traces.
+ *
+ * One JSONL record per agent turn in agentDir/traces/YYYY-MM-DD.jsonl (UTC
+ * days). A day file that grows past MAX_FILE_BYTES continues in
+ * YYYY-MM-DD.1.jsonl, .2.jsonl, …; files older than RETENTION_DAYS are pruned
+ * when the day rolls over. `npm run trace -- <turnId|sessionKey>` pretty-prints
+ * records for debugging.
+ */
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const RETENTION_DAYS = 14;
+/** Long strings in tool args/results are clipped to keep records readable. */
+const MAX_STRING_CHARS = 4000;
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface TraceToolCall {
+  toolCallId: string;
+  name: string;
+  args: unknown;
+  result?: string;
+  error?: string;
+  /** Offset from turn start (ms). */
+  startedAtMs: number;
+  durationMs: number;
+}
+
+export interface TraceAttempt {
+  attempt: number;
+  /** "provider/modelId" */
+  model: string;
+  durationMs: number;
+  error?: string;
+  /** How the error was handled (absent on success). */
+  action?: "retry" | "failover" | "respond";
+  delayMs?: number;
+}
+
+export interface TurnTrace {
+  turnId: string;
+  sessionKey: string;
+  startedAt: string;
+  input: {
+    text: string;
+    userId: string;
+    userName: string;
+    channelId: string;
+    isGroup: boolean;
+    imageCount: number;
+  };
+  /** Model the turn started on ("provider/modelId"). */
+  model?: string;
+  thinkingLevel?: string;
+  /** Turn reused a pooled session instead of building one. */
+  warmSession?: boolean;
+  systemPromptHash?: string;
+  systemPromptChars?: number;
+  tools: TraceToolCall[];
+  attempts: TraceAttempt[];
+  failovers: Array<{ from: string; to: string; error: string }>;
+  outcome: "ok" | "error" | "aborted";
+  error?: string;
+  output?: { text: string; imageCount: number };
+  timings: {
+    /** Session + sandbox + prompt setup before the first attempt. */
+    setupMs?: number;
+    totalMs: number;
+  };
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+export function hashSystemPrompt(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 12);
+}
+
+/** Deep-copy a value, clipping long strings (tool args can carry whole files). */
+export function clipForTrace(value: unknown, maxChars = MAX_STRING_CHARS): unknown {
+  if (typeof value === "string") {
+    return value.length > maxChars
+      ? `${value.slice(0, maxChars)}… [${value.length - maxChars} more chars]`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map((v) => clipForTrace(v, maxChars));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, clipForTrace(v, maxChars)]),
+    );
+  }
+  return value;
+}
+
+function utcDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+const TRACE_FILE_RE = /^(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+
+// ── Store ──────────────────────────────────────────────────────────────
+
+export class TraceStore {
+  private dir: string;
+  private day = "";
+  private segment = 0;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(agentDir: string) {
+    this.dir = path.join(agentDir, "traces");
+  }
+
+  /** Append a turn record. Writes are serialized so rotation checks stay consistent. */
+  append(trace: TurnTrace): Promise<void> {
+    this.writeChain = this.writeChain.then(() => this.write(trace));
+    return this.writeChain;
+  }
+
+  /**
+   * Find traces by turn ID or session key, oldest first.
+   * A turn ID match returns that single turn; a session key returns its last `limit` turns.
+   */
+  async find(query: string, limit = 10): Promise<TurnTrace[]> {
+    const matches: TurnTrace[] = [];
+    for (const file of (await this.listFiles()).reverse()) {
+      const records = await this.readFile(file);
+      for (let i = records.length - 1; i >= 0; i--) {
+        const r = records[i];
+        if (r.turnId === query) return [r];
+        if (r.sessionKey === query) {
+          matches.push(r);
+          if (matches.length >= limit) return matches.reverse();
+        }
+      }
+    }
+    return matches.reverse();
+  }
+
+  private async write(trace: TurnTrace): Promise<void> {
+    const line = JSON.stringify(trace) + "\n";
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      const today = utcDay();
+      if (today !== this.day) {
+        this.day = today;
+        this.segment = await this.latestSegment(today);
+        await this.prune();
+      }
+      let file = this.segmentPath();
+      const size = await fs.stat(file).then((s) => s.size, () => 0);
+      if (size > 0 && size + line.length > MAX_FILE_BYTES) {
+        this.segment++;
+        file = this.segmentPath();
+      }
+      await fs.appendFile(file, line);
+    } catch (err) {
+      console.warn(`[trace] Failed to append trace: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  private segmentPath(): string {
+    const suffix = this.segment > 0 ? `.${this.segment}` : "";
+    return path.join(this.dir, `${this.day}${suffix}.jsonl`);
+  }
+
+  private async latestSegment(day: string): Promise<number> {
+    let latest = 0;
+    for (const file of await this.listFiles()) {
+      const m = TRACE_FILE_RE.exec(file);
+      if (m && m[1] === day) latest = Math.max(latest, Number(m[2] ?? 0));
+    }
+    return latest;
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = utcDay(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    for (const file of await this.listFiles()) {
+      const day = TRACE_FILE_RE.exec(file)?.[1];
+      if (day && day < cutoff) {
+        await fs.rm(path.join(this.dir, file), { force: true });
+      }
+    }
+  }
+
+  /** Trace files in chronological order. */
+  private async listFiles(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+    const key = (f: string) => {
+      const m = TRACE_FILE_RE.exec(f)!;
+      return [m[1], Number(m[2] ?? 0)] as const;
+    };
+    return files
+      .filter((f) => TRACE_FILE_RE.test(f))
+      .sort((a, b) => {
+        const [da, sa] = key(a);
+        const [db, sb] = key(b);
+        return da === db ? sa - sb : da < db ? -1 : 1;
+      });
+  }
+
+  private async readFile(file: string): Promise<TurnTrace[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(this.dir, file), "utf-8");
+    } catch {
+      return [];
+    }
+    const records: TurnTrace[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as TurnTrace);
+      } catch {
+        // skip torn lines (e.g. crash mid-append)
+      }
+    }
+    return records;
+  }
+}
+
+// ── Formatting ─────────────────────────────────────────────────────────
+
+function indent(text: string, prefix = "    "): string {
+  return text
+    .split("\n")
+    .map((l) => prefix + l)
+    .join("\n");
+}
+
+/** Render a trace for the terminal (`npm run trace`). */
+export function formatTrace(t: TurnTrace): string {
+  const lines = [
+    `━━ Turn ${t.turnId} — ${t.sessionKey} — ${t.startedAt}`,
+    `outcome: ${t.outcome}${t.error ? ` (${t.error})` : ""}`,
+    `model: ${t.model ?? "?"}  thinking: ${t.thinkingLevel ?? "?"}  system prompt: ${t.systemPromptHash ?? "?"} (${t.systemPromptChars ?? 0} chars)`,
+    `timings: setup ${t.timings.setupMs ?? "?"}ms${t.warmSession ? " (warm session)" : ""}, total ${t.timings.totalMs}ms`,
+    "",
+    `▶ ${t.input.userName} (${t.input.userId})${t.input.isGroup ? " [group]" : ""}${t.input.imageCount ? ` +${t.input.imageCount} image(s)` : ""}`,
+    indent(t.input.text),
+  ];
+
+  if (t.attempts.length > 0) {
+    lines.push("", "Attempts:");
+    for (const a of t.attempts) {
+      const handled = a.action ? ` → ${a.action}${a.delayMs ? ` after ${a.delayMs}ms` : ""}` : "";
+      lines.push(`  #${a.attempt} ${a.model} ${a.durationMs}ms${a.error ? ` ✗ ${a.error}` : " ✓"}${handled}`);
+    }
+  }
+  for (const f of t.failovers) {
+    lines.push(`  failover ${f.from} → ${f.to}: ${f.error}`);
+  }
+
+  if (t.tools.length > 0) {
+    lines.push("", `Tools (${t.tools.length}):`);
+    for (const tool of t.tools) {
+      lines.push(`  [+${tool.startedAtMs}ms] ${tool.name} (${tool.durationMs}ms)${tool.error ? " ✗" : ""}`);
+      lines.push(indent(`args: ${JSON.stringify(tool.args, null, 2)}`, "      "));
+      if (tool.error) lines.push(indent(`error: ${tool.error}`, "      "));
+      else if (tool.result) lines.push(indent(`result: ${tool.result}`, "      "));
+    }
+  }
+
+  if (t.output) {
+    lines.push("", `◀ reply${t.output.imageCount ? ` +${t.output.imageCount} image(s)` : ""}`, indent(t.output.text));
+  }
+  return lines.join("\n");
+}
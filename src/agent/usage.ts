@@ -0,0 +1,245 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Token usage + cost ledger.
+ *
+ * Every LLM call (agent turns, memory flush, consolidation) appends one JSONL
+ * record to agentDir/usage/YYYY-MM-DD.jsonl (UTC days). Today's totals are
+ * kept in memory so budget checks don't touch disk; `/usage` reports re-read
+ * the day files for the requested range.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Model pricing in USD per million tokens (Pi SDK `Model.cost` shape). */
+export interface ModelCost {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  ts: string;
+  sessionKey: string;
+  /** What made the call: an agent turn or background consolidation. */
+  kind: "turn" | "consolidation";
+  /** "provider/modelId" */
+  model: string;
+  costUsd: number;
+}
+
+export interface BudgetConfig {
+  /** Max spend per UTC day across all sessions (USD). */
+  dailyUsd?: number;
+  /** Max spend per session per UTC day (USD). */
+  sessionDailyUsd?: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  label: string;
+  total: UsageTotals;
+  bySession: Map<string, UsageTotals>;
+  byModel: Map<string, UsageTotals>;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+export function priceUsage(usage: TokenUsage, cost: ModelCost): number {
+  return (
+    (usage.input * cost.input +
+      usage.output * cost.output +
+      usage.cacheRead * cost.cacheRead +
+      usage.cacheWrite * cost.cacheWrite) /
+    1_000_000
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, costUsd: 0 };
+}
+
+function addTo(totals: UsageTotals, r: UsageRecord): void {
+  totals.calls++;
+  totals.input += r.input;
+  totals.output += r.output;
+  totals.cacheRead += r.cacheRead;
+  totals.cacheWrite += r.cacheWrite;
+  totals.costUsd += r.costUsd;
+}
+
+function utcDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// ── Ledger ─────────────────────────────────────────────────────────────
+
+export class UsageLedger {
+  private dir: string;
+  private day = utcDay();
+  private todayTotal = 0;
+  private todayBySession = new Map<string, number>();
+
+  constructor(agentDir: string) {
+    this.dir = path.join(agentDir, "usage");
+  }
+
+  /** Load today's totals from disk (so budgets survive restarts). */
+  async load(): Promise<void> {
+    this.day = utcDay();
+    this.todayTotal = 0;
+    this.todayBySession.clear();
+    for (const r of await this.readDay(this.day)) {
+      this.todayTotal += r.costUsd;
+      this.todayBySession.set(r.sessionKey, (this.todayBySession.get(r.sessionKey) ?? 0) + r.costUsd);
+    }
+  }
+
+  async record(entry: Omit<UsageRecord, "ts">): Promise<void> {
+    const record: UsageRecord = { ts: new Date().toISOString(), ...entry };
+    this.rollDay();
+    this.todayTotal += record.costUsd;
+    this.todayBySession.set(
+      record.sessionKey,
+      (this.todayBySession.get(record.sessionKey) ?? 0) + record.costUsd,
+    );
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.appendFile(path.join(this.dir, `${this.day}.jsonl`), JSON.stringify(record) + "\n");
+    } catch (err) {
+      console.warn(`[usage] Failed to append ledger: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /** Returns a refusal message if a budget is exhausted for this session, else null. */
+  checkBudget(sessionKey: string, budgets: BudgetConfig): string | null {
+    this.rollDay();
+    if (budgets.dailyUsd !== undefined && this.todayTotal >= budgets.dailyUsd) {
+      return `💸 Daily budget reached ($${this.todayTotal.toFixed(2)} of $${budgets.dailyUsd.toFixed(2)} spent today). New tasks are paused until 00:00 UTC.`;
+    }
+    const sessionSpent = this.todayBySession.get(sessionKey) ?? 0;
+    if (budgets.sessionDailyUsd !== undefined && sessionSpent >= budgets.sessionDailyUsd) {
+      return `💸 This conversation's daily budget is used up ($${sessionSpent.toFixed(2)} of $${budgets.sessionDailyUsd.toFixed(2)}). New tasks are paused until 00:00 UTC.`;
+    }
+    return null;
+  }
+
+  /** Aggregate usage for today or the current month (UTC), optionally for one session. */
+  async summarize(range: "today" | "month", sessionKey?: string): Promise<UsageSummary> {
+    const today = utcDay();
+    let days: string[];
+    if (range === "today") {
+      days = [today];
+    } else {
+      const prefix = today.slice(0, 7);
+      try {
+        days = (await fs.readdir(this.dir))
+          .filter((f) => f.startsWith(prefix) && f.endsWith(".jsonl"))
+          .map((f) => f.replace(/\.jsonl$/, ""));
+      } catch {
+        days = [];
+      }
+    }
+
+    const summary: UsageSummary = {
+      label: range === "today" ? today : today.slice(0, 7),
+      total: emptyTotals(),
+      bySession: new Map(),
+      byModel: new Map(),
+    };
+    for (const day of days) {
+      for (const r of await this.readDay(day)) {
+        if (sessionKey && r.sessionKey !== sessionKey) continue;
+        addTo(summary.total, r);
+        if (!summary.bySession.has(r.sessionKey)) summary.bySession.set(r.sessionKey, emptyTotals());
+        addTo(summary.bySession.get(r.sessionKey)!, r);
+        if (!summary.byModel.has(r.model)) summary.byModel.set(r.model, emptyTotals());
+        addTo(summary.byModel.get(r.model)!, r);
+      }
+    }
+    return summary;
+  }
+
+  private rollDay(): void {
+    const today = utcDay();
+    if (today === this.day) return;
+    this.day = today;
+    this.todayTotal = 0;
+    this.todayBySession.clear();
+  }
+
+  private async readDay(day: string): Promise<UsageRecord[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(this.dir, `${day}.jsonl`), "utf-8");
+    } catch {
+      return [];
+    }
+    const records: UsageRecord[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // skip torn lines (e.g. crash mid-append)
+      }
+    }
+    return records;
+  }
+}
+
+// ── Formatting ─────────────────────────────────────────────────────────
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatTotals(t: UsageTotals): string {
+  return `$${t.costUsd.toFixed(4)} · ${t.calls} calls · ${formatTokens(t.input)} in / ${formatTokens(t.output)} out` +
+    (t.cacheRead ? ` / ${formatTokens(t.cacheRead)} cached` : "");
+}
+
+/** Render a summary for chat (`/usage`). */
+export function formatUsageReport(
+  summary: UsageSummary,
+  opts: { title: string; budgets?: BudgetConfig; maxRows?: number },
+): string {
+  const maxRows = opts.maxRows ?? 8;
+  const lines = [`**${opts.title}** (${summary.label}, UTC)`, `Total: ${formatTotals(summary.total)}`];
+
+  const top = (m: Map<string, UsageTotals>) =>
+    [...m.entries()].sort((a, b) => b[1].costUsd - a[1].costUsd).slice(0, maxRows);
+
+  if (summary.byModel.size > 1) {
+    lines.push("**By model:**");
+    for (const [model, t] of top(summary.byModel)) lines.push(`• \`${model}\` — ${formatTotals(t)}`);
+  }
+  if (summary.bySession.size > 1) {
+    lines.push("**By session:**");
+    for (const [key, t] of top(summary.bySession)) lines.push(`• \`${key}\` — ${formatTotals(t)}`);
+    if (summary.bySession.size > maxRows) lines.push(`…and ${summary.bySession.size - maxRows} more`);
+  }
+
+  const budgetParts = [
+    opts.budgets?.dailyUsd !== undefined && `daily $${opts.budgets.dailyUsd.toFixed(2)}`,
+    opts.budgets?.sessionDailyUsd !== undefined && `per-session daily $${opts.budgets.sessionDailyUsd.toFixed(2)}`,
+  ].filter(Boolean);
+  if (budgetParts.length > 0) lines.push(`Budgets: ${budgetParts.join(", ")}`);
+
+  return lines.join("\n");
+}
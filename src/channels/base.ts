@@ -1,3 +1,5 @@
+import type { AccessRole } from "../security/access.js";
+
 export interface InboundMessage {
   text: string;
   sessionKey: string;
@@ -7,6 +9,30 @@ export interface InboundMessage {
   isGroup: boolean;
   /** Images attached to the inbound message (downloaded, ready for vision models). */
   images?: ImageAttachment[];
+  /** Other files attached to the message, saved to the session's inbox (see Inbox). */
+  files?: ReceivedFile[];
+  /** Sender's role, set by ChannelManager's access check. Unset for system turns (cron, heartbeat). */
+  role?: AccessRole;
+  /** Canonical cross-channel user ID (linked identity, else "<channel>:<userId>"), set by ChannelManager. */
+  identity?: string;
+  /** Channel the message arrived on, when the session key doesn't start with it (shared "identity:" sessions). */
+  originChannel?: string;
+  /**
+   * Media work the adapter defers until the sender is admitted (downloads,
+   * saving to the inbox, transcription). ChannelManager runs it after the
+   * access check and merges the result into the message.
+   */
+  loadAttachments?: () => Promise<LoadedAttachments>;
+}
+
+/** Result of `InboundMessage.loadAttachments`. */
+export interface LoadedAttachments {
+  images?: ImageAttachment[];
+  files?: ReceivedFile[];
+  /** Replaces the message text (e.g. a voice message's transcript). */
+  text?: string;
+  /** Answer the sender with this instead of running a turn (e.g. audio that can't be transcribed). */
+  reply?: string;
 }
 
 export interface ImageAttachment {
@@ -15,9 +41,66 @@ export interface ImageAttachment {
   mimeType: string;
 }
 
+/** A non-image file a user sent, saved for the agent's file tools. */
+export interface ReceivedFile {
+  name: string;
+  mimeType: string;
+  size?: number;
+  /** Saved copy, relative to the code directory. Unset when the file wasn't received. */
+  path?: string;
+  /** Extracted text (PDFs), relative to the code directory. */
+  textPath?: string;
+  /** Why the file wasn't saved: too large, type not accepted, download failed. */
+  error?: string;
+}
+
+export interface FileAttachment {
+  data: Buffer;
+  name: string;
+  mimeType?: string;
+}
+
 export interface OutboundMessage {
   text: string;
   images?: ImageAttachment[];
+  /** Non-image attachments (documents, archives, …). */
+  files?: FileAttachment[];
+}
+
+/** How a channel renders message text. */
+export type MarkdownFlavor = "markdown" | "slack" | "whatsapp" | "plain";
+
+/** What a channel can deliver; the outbound queue adapts messages to it. */
+export interface ChannelCapabilities {
+  /** Images are sent as inline pictures. */
+  images: boolean;
+  /** Other files are sent as attachments. */
+  files: boolean;
+  /** Longest text the platform takes in one message (longer text is split by the channel). */
+  maxMessageLength: number;
+  markdown: MarkdownFlavor;
+}
+
+/**
+ * Thrown by `Channel.send` when retrying can't help (unknown chat, channel that
+ * can't push messages) — the outbound queue drops the message instead.
+ */
+export class UndeliverableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UndeliverableError";
+  }
+}
+
+/** A tool call held until the user confirms it (tool policy "ask"). */
+export interface ToolApprovalRequest {
+  toolName: string;
+  /** One-line description of the call, e.g. the shell command or file path. */
+  summary: string;
+  /** Only this user's answer counts — the user whose message started the turn. */
+  userId: string;
+  /** Aborted when the request times out or the turn is stopped; dismiss the prompt then. */
+  signal: AbortSignal;
 }
 
 export interface StreamCallbacks {
@@ -27,6 +110,20 @@ export interface StreamCallbacks {
     toolName: string,
     info: { durationMs: number; error?: string; preview?: string },
   ) => void | Promise<void>;
+  /**
+   * Partial assistant text as it is generated. `text` is everything streamed so
+   * far for the current assistant message; it restarts when the model begins a
+   * new message (e.g. after a tool call or a retry).
+   */
+  onTextDelta?: (delta: string, text: string) => void | Promise<void>;
+  /** An assistant message finished generating text (before citation post-processing). */
+  onTextComplete?: (text: string) => void | Promise<void>;
+  /**
+   * Ask the user to confirm a tool call in the originating chat. Resolves true
+   * if approved, false if denied. Channels without it can't confirm, so
+   * "ask" calls are denied there.
+   */
+  onApprovalRequest?: (request: ToolApprovalRequest) => Promise<boolean>;
 }
 
 export type MessageHandler = (
@@ -39,12 +136,30 @@ export type CommandHandler = (
   args: string,
   sessionKey: string,
   channelId: string,
+  /** Platform user ID of the sender. */
+  userId: string,
+  /** True in group chats, where replies are seen by everyone in the chat. */
+  isGroup: boolean,
+  /** Display name of the sender, when the platform gives one. */
+  userName?: string,
 ) => Promise<string | null>;
 
 export interface Channel {
   readonly name: string;
+  readonly capabilities: ChannelCapabilities;
   start(): Promise<void>;
   stop(): Promise<void>;
   onMessage(handler: MessageHandler): void;
   onCommand?(handler: CommandHandler): void;
+  /**
+   * Proactive delivery (scheduler, heartbeat, subagent results) to a chat —
+   * `target` is the `channelId` of that chat's inbound messages. Throws on
+   * failure so the outbound queue can retry.
+   */
+  send(target: string, message: OutboundMessage): Promise<void>;
+  /**
+   * The `send` target for one of this channel's session keys, for keys whose
+   * last ":" segment isn't the chat (e.g. Slack threads). Undefined = use it.
+   */
+  deliveryTarget?(sessionKey: string): string | undefined;
 }
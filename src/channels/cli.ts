@@ -0,0 +1,229 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import readline from "node:readline";
+import type {
+  Channel,
+  ChannelCapabilities,
+  CommandHandler,
+  FileAttachment,
+  InboundMessage,
+  MessageHandler,
+  OutboundMessage,
+  StreamCallbacks,
+  ToolApprovalRequest,
+} from "./base.js";
+import type { CliConfig } from "../config.js";
+
+/**
+ * Terminal chat for local development: no platform token needed. Each line
+ * typed is a message from `config.user` in the session "cli:<user>"; tool
+ * progress and the reply stream back to the terminal, and returned images and
+ * files are written to `config.imageDir` with their paths printed. Tool approvals are
+ * answered with y/n. Ctrl-D (or /exit) shuts the process down.
+ */
+
+const APPROVE_REPLY = /^\s*(yes|y|approve)\s*$/i;
+const DENY_REPLY = /^\s*(no|n|deny)\s*$/i;
+
+interface PendingApproval {
+  resolve: (approved: boolean) => void;
+}
+
+export class CliChannel implements Channel {
+  readonly name: string;
+  readonly capabilities: ChannelCapabilities = {
+    images: true,
+    files: true,
+    maxMessageLength: Number.POSITIVE_INFINITY,
+    markdown: "plain",
+  };
+  private config: CliConfig;
+  private rl?: readline.Interface;
+  private handler?: MessageHandler;
+  private commandHandler?: CommandHandler;
+  private pendingApprovals: PendingApproval[] = [];
+  private stopping = false;
+  /** A streamed reply is mid-line on stdout. */
+  private midLine = false;
+
+  constructor(config: CliConfig) {
+    this.config = config;
+    this.name = config.name ?? "cli";
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  onCommand(handler: CommandHandler): void {
+    this.commandHandler = handler;
+  }
+
+  async start(): Promise<void> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: "you> " });
+    this.rl = rl;
+    rl.on("line", (line) => {
+      this.handleLine(line).catch((err) => {
+        this.print(`⚠️ ${err instanceof Error ? err.message : String(err)}`);
+      });
+    });
+    rl.on("close", () => {
+      if (this.stopping) return;
+      // Ctrl-D: let index.ts run its graceful shutdown
+      process.kill(process.pid, "SIGINT");
+    });
+    console.log(`[cli] Chatting as ${this.config.user} (session ${this.sessionKey}). Ctrl-D or /exit to quit.`);
+    rl.prompt();
+  }
+
+  async stop(): Promise<void> {
+    this.stopping = true;
+    for (const approval of this.pendingApprovals) approval.resolve(false);
+    this.rl?.close();
+  }
+
+  /** Proactive delivery (scheduler, heartbeat, subagent announce). */
+  async send(_channelId: string, message: OutboundMessage): Promise<void> {
+    this.print(`📨 ${message.text}`);
+    const attachments = [...(message.images ?? []), ...(message.files ?? [])];
+    if (attachments.length) await this.saveAttachments(attachments);
+  }
+
+  private get sessionKey(): string {
+    return `${this.name}:${this.config.user}`;
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    const text = line.trim();
+    if (!text) {
+      this.rl?.prompt();
+      return;
+    }
+
+    // y/n answers a pending tool approval, oldest first
+    const approval = this.pendingApprovals[0];
+    if (approval && (APPROVE_REPLY.test(text) || DENY_REPLY.test(text))) {
+      approval.resolve(APPROVE_REPLY.test(text));
+      return;
+    }
+
+    if (text === "/exit" || text === "/quit") {
+      this.rl?.close();
+      return;
+    }
+
+    const user = this.config.user;
+    if (text.startsWith("/") && this.commandHandler) {
+      const spaceIdx = text.indexOf(" ");
+      const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
+      const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
+      const reply = await this.commandHandler(command, args, this.sessionKey, user, user, false, user);
+      if (reply !== null) {
+        this.print(reply);
+        return;
+      }
+    }
+
+    if (!this.handler) return;
+    const inbound: InboundMessage = {
+      text,
+      sessionKey: this.sessionKey,
+      channelId: user,
+      userId: user,
+      userName: user,
+      isGroup: false,
+    };
+
+    // Stream text as it arrives; reprint the final reply only if it differs
+    // (citations, commands, error text)
+    let streamed = "";
+    const stream: StreamCallbacks = {
+      onThinking: () => this.print("… thinking"),
+      onToolStart: (toolName, meta) => this.print(`⚙️  ${toolName}${meta ? ` ${meta}` : ""}`),
+      onToolEnd: (toolName, info) =>
+        this.print(
+          info.error
+            ? `✗ ${toolName} failed after ${info.durationMs}ms: ${info.error.slice(0, 200)}`
+            : `✓ ${toolName} (${info.durationMs}ms)`,
+        ),
+      onTextDelta: (delta, text) => {
+        if (text === delta) {
+          // New assistant message: start a fresh "bot>" line
+          if (this.midLine) {
+            process.stdout.write("\n");
+          } else {
+            readline.clearLine(process.stdout, 0);
+            readline.cursorTo(process.stdout, 0);
+          }
+          process.stdout.write("bot> ");
+        }
+        process.stdout.write(delta);
+        this.midLine = true;
+        streamed = text;
+      },
+      onApprovalRequest: (request) => this.requestApproval(request),
+    };
+
+    const response = await this.handler(inbound, stream);
+    if (this.midLine) {
+      process.stdout.write("\n");
+      this.midLine = false;
+    }
+    if (response?.text && response.text !== streamed) {
+      this.print(`bot> ${response.text}`);
+    } else {
+      this.rl?.prompt();
+    }
+    if (response?.images?.length) await this.saveAttachments(response.images);
+  }
+
+  private async requestApproval(request: ToolApprovalRequest): Promise<boolean> {
+    this.print(`🔐 ${request.toolName} needs your approval: ${request.summary}\n   Approve? (y/n)`);
+    const verdict = await new Promise<boolean | "expired">((resolve) => {
+      const entry: PendingApproval = {
+        resolve: (approved) => settle(approved),
+      };
+      const onAbort = () => settle("expired");
+      const settle = (result: boolean | "expired") => {
+        request.signal.removeEventListener("abort", onAbort);
+        this.pendingApprovals = this.pendingApprovals.filter((p) => p !== entry);
+        resolve(result);
+      };
+      request.signal.addEventListener("abort", onAbort, { once: true });
+      this.pendingApprovals.push(entry);
+    });
+    this.print(
+      verdict === "expired"
+        ? `⌛ Approval expired: ${request.toolName} was not run.`
+        : `${verdict ? "✅ Approved" : "⛔ Denied"}: ${request.toolName}`,
+    );
+    return verdict === true;
+  }
+
+  private async saveAttachments(attachments: FileAttachment[]): Promise<void> {
+    await fs.mkdir(this.config.imageDir, { recursive: true });
+    for (const attachment of attachments) {
+      const safeName = path.basename(attachment.name).replace(/[^a-zA-Z0-9._-]/g, "_");
+      const filePath = path.join(this.config.imageDir, `${Date.now()}-${safeName}`);
+      await fs.writeFile(filePath, attachment.data);
+      this.print(`${attachment.mimeType?.startsWith("image/") ? "🖼️ " : "📎"} ${filePath}`);
+    }
+  }
+
+  /** Print above the input line and redraw the prompt. */
+  private print(text: string): void {
+    if (!this.rl) {
+      console.log(text);
+      return;
+    }
+    if (this.midLine) {
+      process.stdout.write("\n");
+      this.midLine = false;
+    } else {
+      readline.clearLine(process.stdout, 0);
+      readline.cursorTo(process.stdout, 0);
+    }
+    console.log(text);
+    this.rl.prompt(true);
+  }
+}
@@ -3,17 +3,71 @@ import {
   GatewayIntentBits,
   Events,
   AttachmentBuilder,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ComponentType,
+  MessageFlags,
   type Message,
   Partials,
+  SlashCommandBuilder,
+  type ButtonInteraction,
+  type ChatInputCommandInteraction,
+  type TextBasedChannel,
+  type ThreadChannel,
 } from "discord.js";
+import { UndeliverableError } from "./base.js";
 import type {
   Channel,
+  ChannelCapabilities,
   CommandHandler,
   ImageAttachment,
   InboundMessage,
   MessageHandler,
+  OutboundMessage,
+  ReceivedFile,
   StreamCallbacks,
+  ToolApprovalRequest,
 } from "./base.js";
+import type { DiscordConfig } from "../config.js";
+import { fetchFile } from "./inbox.js";
+import type { Inbox } from "./inbox.js";
+import { DraftStreamer } from "./draft.js";
+import { formatMarkdown, renderMessage } from "./format.js";
+
+/** Min gap between edits of a streaming reply (Discord allows ~5 edits / 5s per channel). */
+const DRAFT_EDIT_INTERVAL_MS = 1200;
+
+/**
+ * Chat commands registered as Discord application commands, so they show up
+ * in the slash-command picker. They go to the same CommandHandler as typed
+ * "/commands"; arguments are one optional text option. `private` commands
+ * answer ephemerally (only the invoker sees link codes, roles and spend).
+ */
+const APPLICATION_COMMANDS: Array<{ name: string; description: string; args?: string; private?: boolean }> = [
+  { name: "stop", description: "Cancel the current agent task" },
+  { name: "reset", description: "Clear conversation history and start fresh" },
+  { name: "status", description: "Check if the agent is busy and which model it's using" },
+  { name: "model", description: "List models or switch this session's model", args: "provider/id" },
+  { name: "think", description: "Set this session's thinking level", args: "off, low, medium or high" },
+  { name: "queue", description: "How messages sent mid-run are handled", args: "queue, collect or steer" },
+  { name: "usage", description: "Show token usage and cost", args: "session, or today|month (owner)", private: true },
+  { name: "whoami", description: "Show your user ID and role", private: true },
+  {
+    name: "link",
+    description: "Link your accounts on other platforms",
+    args: "code, status, session on|off or remove",
+    private: true,
+  },
+  { name: "pair", description: "Review pairing requests (owner)", args: "approve|deny <code>", private: true },
+  { name: "role", description: "Grant or revoke a role (owner)", args: "<channel:userId> <role>", private: true },
+  { name: "help", description: "Show the available commands" },
+];
+
+/** custom_id prefix of the Stop button on status messages; the session key follows. */
+const STOP_BUTTON_PREFIX = "stop:";
+
+type ReplyPayload = string | { content: string; files?: AttachmentBuilder[]; components?: ActionRowBuilder<ButtonBuilder>[] };
 
 const TOOL_EMOJI: Record<string, string> = {
   read: "\u{1F4C4}",
@@ -35,14 +89,19 @@ function toolEmoji(name: string): string {
 }
 
 export class DiscordChannel implements Channel {
-  readonly name = "discord";
+  readonly name: string;
+  readonly capabilities: ChannelCapabilities = { images: true, files: true, maxMessageLength: 2000, markdown: "markdown" };
+  private config: DiscordConfig;
   private client: Client;
-  private token: string;
   private handler?: MessageHandler;
   private commandHandler?: CommandHandler;
+  /** Where non-image attachments are saved; without it they're ignored. */
+  private inbox?: Inbox;
 
-  constructor(token: string) {
-    this.token = token;
+  constructor(config: DiscordConfig, options: { inbox?: Inbox } = {}) {
+    this.config = config;
+    this.inbox = options.inbox;
+    this.name = config.name ?? "discord";
     this.client = new Client({
       intents: [
         GatewayIntentBits.Guilds,
@@ -71,12 +130,17 @@ export class DiscordChannel implements Channel {
       if (!this.handler) return;
 
       const isGroup = message.guild !== null;
-      const sessionKey = isGroup
-        ? `discord:channel:${message.channelId}`
-        : `discord:dm:${message.author.id}`;
+      const threadSession = this.taskThreadSession(message.channel);
+      const sessionKey = threadSession ?? this.sessionKeyFor(message.channelId, isGroup, message.author.id);
 
-      // In group chats, only respond when mentioned
-      if (isGroup && !message.mentions.has(this.client.user!)) return;
+      // In group chats, only respond when mentioned (follow-ups in a task thread don't need it)
+      if (isGroup && !threadSession && !message.mentions.has(this.client.user!)) return;
+
+      // Access control
+      if (!this.isAllowed(message.author.id)) {
+        console.log(`[discord] Blocked message from ${message.author.id} (not in allowFrom)`);
+        return;
+      }
 
       // Strip bot mention from message text
       let text = message.content;
@@ -86,13 +150,14 @@ export class DiscordChannel implements Channel {
           .trim();
       }
 
-      // Download image attachments (jpg, png, gif, webp)
-      const imageAttachments = await downloadImageAttachments(message);
+      // Images (jpg, png, gif, webp) go to the model; other files go to the inbox
+      const hasImages = [...message.attachments.values()].some((a) => isImageAttachment(a.contentType));
+      const hasFiles = Boolean(this.inbox) && [...message.attachments.values()].some((a) => !isImageAttachment(a.contentType));
 
-      // Allow image-only messages (no text required if images are present)
-      if (!text && imageAttachments.length === 0) return;
-      if (!text && imageAttachments.length > 0) {
-        text = "(see attached image)";
+      // Allow attachment-only messages (no text required if images or files are present)
+      if (!text && !hasImages && !hasFiles) return;
+      if (!text) {
+        text = hasImages ? "(see attached image)" : "(see attached file)";
       }
 
       // Handle /commands before dispatching to agent
@@ -101,7 +166,15 @@ export class DiscordChannel implements Channel {
         const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
         const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
         try {
-          const reply = await this.commandHandler(command, args, sessionKey, message.channelId);
+          const reply = await this.commandHandler(
+            command,
+            args,
+            sessionKey,
+            message.channelId,
+            message.author.id,
+            isGroup,
+            message.author.displayName ?? message.author.username,
+          );
           if (reply !== null) {
             await message.reply(reply).catch(() => {});
             return;
@@ -121,9 +194,20 @@ export class DiscordChannel implements Channel {
         userId: message.author.id,
         userName: message.author.displayName ?? message.author.username,
         isGroup,
-        images: imageAttachments.length > 0 ? imageAttachments : undefined,
+        // Downloaded only once ChannelManager has admitted the sender
+        loadAttachments:
+          hasImages || hasFiles
+            ? async () => ({
+                images: await downloadImageAttachments(message),
+                files: await this.receiveFiles(message, sessionKey),
+              })
+            : undefined,
       };
 
+      // Replies go under the user's message, or into the task thread once there is one
+      let thread: ThreadChannel | null = null;
+      const post = (payload: ReplyPayload): Promise<Message> => (thread ? thread.send(payload) : message.reply(payload));
+
       try {
         // Typing indicator
         const channel = message.channel;
@@ -138,7 +222,7 @@ export class DiscordChannel implements Channel {
         const typingInterval = canType
           ? setInterval(() => {
               (
-                channel as { sendTyping: () => Promise<void> }
+                (thread ?? channel) as { sendTyping: () => Promise<void> }
               )
                 .sendTyping()
                 .catch(() => {});
@@ -160,19 +244,60 @@ export class DiscordChannel implements Channel {
           return `${header}\n${body}`.slice(0, 2000);
         };
 
+        // Stop button (custom_id is capped at 100 chars — very long account names go without it)
+        const stopId = `${STOP_BUTTON_PREFIX}${sessionKey}`;
+        const stopComponents =
+          stopId.length <= 100
+            ? [
+                new ActionRowBuilder<ButtonBuilder>().addComponents(
+                  new ButtonBuilder().setCustomId(stopId).setLabel("Stop").setStyle(ButtonStyle.Secondary),
+                ),
+              ]
+            : [];
         const updateStatus = async () => {
-          const content = renderStatusContent();
+          const payload = { content: renderStatusContent(), components: stopComponents };
           try {
             if (!statusMsg) {
-              statusMsg = await message.reply(content);
+              statusMsg = await post(payload);
             } else {
-              await statusMsg.edit(content);
+              await statusMsg.edit(payload);
             }
           } catch {
             // ignore edit failures
           }
         };
 
+        // Long tasks: once tools run, carry on in a thread under the user's message
+        let threadable =
+          Boolean(this.config.taskThreads) && isGroup && !message.channel.isThread();
+        const openTaskThread = async () => {
+          if (!threadable) return;
+          threadable = false;
+          try {
+            thread = await message.startThread({ name: threadName(text), autoArchiveDuration: 1440 });
+            // The status moves with the task; text streamed so far stays in the channel
+            const earlierStatus = statusMsg as Message | null;
+            statusMsg = null;
+            draftMsg = null;
+            await earlierStatus?.delete().catch(() => {});
+          } catch (err) {
+            console.warn("[discord] Failed to open task thread:", err instanceof Error ? err.message : err);
+          }
+        };
+
+        // Streamed reply: one message edited in place as text arrives,
+        // then replaced by the final (post-processed) response
+        let draftMsg: Message | null = null;
+        const draft = new DraftStreamer(async (text) => {
+          const formatted = formatMarkdown(text, "markdown");
+          const content = formatted.length > 2000 ? `${formatted.slice(0, 1999)}…` : formatted;
+          if (!draftMsg) {
+            draftMsg = await post(content);
+          } else {
+            await draftMsg.edit(content);
+          }
+        }, DRAFT_EDIT_INTERVAL_MS);
+
         const streamCallbacks: StreamCallbacks = {
           onThinking: async () => {
             if (steps.length === 0) {
@@ -181,6 +306,7 @@ export class DiscordChannel implements Channel {
             }
           },
           onToolStart: async (toolName: string, meta?: string) => {
+            await openTaskThread();
             stepNum++;
             // Replace "Thinking..." with first step
             if (steps.length === 1 && steps[0].includes("Thinking")) {
@@ -217,10 +343,20 @@ export class DiscordChannel implements Channel {
             }
             await updateStatus();
           },
+          onTextDelta: (_delta, text) => {
+            draft.update(text);
+          },
+          onApprovalRequest: (request) => this.requestApproval(post, request),
         };
 
-        const response = await this.handler(inbound, streamCallbacks);
-        if (typingInterval) clearInterval(typingInterval);
+        let response: Awaited<ReturnType<MessageHandler>>;
+        try {
+          response = await this.handler(inbound, streamCallbacks);
+        } finally {
+          if (typingInterval) clearInterval(typingInterval);
+          await draft.stop();
+        }
+        const draftReply = draftMsg as Message | null;
 
         // Finalize the execution log — keep it as context
         const finalStatusMsg = statusMsg as Message | null;
@@ -228,7 +364,7 @@ export class DiscordChannel implements Channel {
           const elapsed = ((Date.now() - startedAt) / 1000).toFixed(1);
           const header = `\u{2705} **Done** (${elapsed}s, ${stepNum} step${stepNum !== 1 ? "s" : ""})`;
           const finalContent = `${header}\n${steps.join("\n")}`.slice(0, 2000);
-          await finalStatusMsg.edit(finalContent).catch(() => {});
+          await finalStatusMsg.edit({ content: finalContent, components: [] }).catch(() => {});
         } else if (finalStatusMsg) {
           await finalStatusMsg.delete().catch(() => {});
         }
@@ -241,19 +377,23 @@ export class DiscordChannel implements Channel {
               }),
           );
 
-          const chunks = splitMessage(response.text, 2000);
+          const chunks = renderMessage(response.text, this.capabilities);
           for (let i = 0; i < chunks.length; i++) {
             const isLast = i === chunks.length - 1;
-            await message.reply({
-              content: chunks[i],
-              files: isLast ? files : [],
-            });
+            const payload = { content: chunks[i], files: isLast ? files : [] };
+            if (i === 0 && draftReply) {
+              await draftReply.edit(payload);
+            } else {
+              await post(payload);
+            }
           }
+        } else if (draftReply) {
+          await draftReply.delete().catch(() => {});
         }
       } catch (err) {
         console.error("[discord] Error handling message:", err);
         try {
-          await message.reply(
+          await post(
             "Sorry, something went wrong processing your message.",
           );
         } catch {
@@ -262,33 +402,139 @@ export class DiscordChannel implements Channel {
       }
     });
 
+    // Slash commands and Stop buttons
+    this.client.on(Events.InteractionCreate, async (interaction) => {
+      try {
+        if (interaction.isChatInputCommand()) {
+          await this.handleApplicationCommand(interaction);
+        } else if (interaction.isButton() && interaction.customId.startsWith(STOP_BUTTON_PREFIX)) {
+          await this.handleStopButton(interaction);
+        }
+      } catch (err) {
+        console.error("[discord] Interaction error:", err);
+      }
+    });
+
     this.client.on(Events.ClientReady, (c) => {
       console.log(`[discord] Logged in as ${c.user.tag}`);
+      const commands = APPLICATION_COMMANDS.map(({ name, description, args }) => {
+        const builder = new SlashCommandBuilder().setName(name).setDescription(description);
+        if (args) builder.addStringOption((option) => option.setName("args").setDescription(args));
+        return builder.toJSON();
+      });
+      c.application.commands
+        .set(commands)
+        .then(() => console.log(`[discord] Registered ${commands.length} application commands`))
+        .catch((err) => console.warn("[discord] Failed to register application commands:", err));
     });
 
-    await this.client.login(this.token);
+    await this.client.login(this.config.token);
+  }
+
+  /** Save non-image attachments to the session inbox. */
+  private async receiveFiles(message: Message, sessionKey: string): Promise<ReceivedFile[]> {
+    if (!this.inbox) return [];
+    const candidates = [...message.attachments.values()]
+      .filter((a) => !isImageAttachment(a.contentType))
+      .map((a) => ({
+        name: a.name,
+        mimeType: a.contentType ?? undefined,
+        size: a.size,
+        download: (maxBytes: number) => fetchFile(a.url, maxBytes),
+      }));
+    return candidates.length > 0 ? this.inbox.receive(sessionKey, candidates) : [];
+  }
+
+  private sessionKeyFor(channelId: string, isGroup: boolean, userId: string): string {
+    return isGroup ? this.channelSessionKey(channelId) : `${this.name}:dm:${userId}`;
+  }
+
+  private channelSessionKey(channelId: string): string {
+    return `${this.name}:channel:${channelId}`;
   }
 
   /**
-   * Send a message to a specific channel (used by the scheduler for cron delivery).
+   * A task thread continues the session of the channel it was opened in.
+   * The bot owns the threads it opens, so this is read off the thread itself
+   * and still holds after a restart.
    */
-  async sendToChannel(
-    channelId: string,
-    text: string,
-    images?: Array<{ data: Buffer; name: string }>,
-  ): Promise<void> {
+  private taskThreadSession(channel: TextBasedChannel | null): string | undefined {
+    if (!channel?.isThread() || !channel.parentId) return undefined;
+    if (channel.ownerId !== this.client.user?.id) return undefined;
+    return this.channelSessionKey(channel.parentId);
+  }
+
+  private isAllowed(userId: string): boolean {
+    const allowFrom = this.config.allowFrom;
+    return !allowFrom || allowFrom.length === 0 || allowFrom.includes(userId);
+  }
+
+  /** A slash command from the picker: answered through the same CommandHandler as typed commands. */
+  private async handleApplicationCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    if (!this.commandHandler) return;
+    if (!this.isAllowed(interaction.user.id)) {
+      console.log(`[discord] Blocked /${interaction.commandName} from ${interaction.user.id} (not in allowFrom)`);
+      await interaction.reply({ content: "You can't use this bot.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+    const isGroup = interaction.guildId !== null;
+    const sessionKey =
+      this.taskThreadSession(interaction.channel) ??
+      this.sessionKeyFor(interaction.channelId, isGroup, interaction.user.id);
+    const ephemeral = APPLICATION_COMMANDS.some((c) => c.name === interaction.commandName && c.private);
+    const flags = ephemeral ? MessageFlags.Ephemeral : undefined;
+    await interaction.deferReply({ flags });
+    try {
+      const reply = await this.commandHandler(
+        interaction.commandName,
+        interaction.options.getString("args")?.trim() ?? "",
+        sessionKey,
+        interaction.channelId,
+        interaction.user.id,
+        isGroup,
+        interaction.user.displayName ?? interaction.user.username,
+      );
+      const [first, ...rest] = renderMessage(reply ?? `Unknown command: /${interaction.commandName}`, this.capabilities);
+      await interaction.editReply(first);
+      for (const chunk of rest) await interaction.followUp({ content: chunk, flags });
+    } catch (err) {
+      console.error("[discord] Command error:", err);
+      await interaction.editReply("Error processing command.").catch(() => {});
+    }
+  }
+
+  /** Stop button on a status message: the same as sending /stop in that chat. */
+  private async handleStopButton(interaction: ButtonInteraction): Promise<void> {
+    if (!this.commandHandler || !this.isAllowed(interaction.user.id)) {
+      await interaction.reply({ content: "You can't use this bot.", flags: MessageFlags.Ephemeral }).catch(() => {});
+      return;
+    }
+    const sessionKey = interaction.customId.slice(STOP_BUTTON_PREFIX.length);
+    const reply = await this.commandHandler(
+      "stop",
+      "",
+      sessionKey,
+      interaction.channelId,
+      interaction.user.id,
+      interaction.guildId !== null,
+      interaction.user.displayName ?? interaction.user.username,
+    );
+    await interaction.reply({ content: reply ?? "Nothing to stop.", flags: MessageFlags.Ephemeral }).catch(() => {});
+  }
+
+  /** Send a message to a channel (scheduler, heartbeat and subagent deliveries). */
+  async send(channelId: string, message: OutboundMessage): Promise<void> {
     const channel = await this.client.channels.fetch(channelId);
     if (!channel || !("send" in channel) || typeof channel.send !== "function") {
-      console.error(`[discord] Cannot send to channel ${channelId}: not a text channel`);
-      return;
+      throw new UndeliverableError(`Cannot send to channel ${channelId}: not a text channel`);
     }
-    const files = (images ?? []).map(
-      (img, i) =>
-        new AttachmentBuilder(img.data, {
-          name: img.name || `image-${i}.png`,
+    const files = [...(message.images ?? []), ...(message.files ?? [])].map(
+      (attachment, i) =>
+        new AttachmentBuilder(attachment.data, {
+          name: attachment.name || `attachment-${i}`,
         }),
     );
-    const chunks = splitMessage(text, 2000);
+    const chunks = renderMessage(message.text, this.capabilities);
     for (let i = 0; i < chunks.length; i++) {
       const isLast = i === chunks.length - 1;
       await (channel as { send: (opts: unknown) => Promise<unknown> }).send({
@@ -298,11 +544,67 @@ export class DiscordChannel implements Channel {
     }
   }
 
+  /**
+   * Post Approve / Deny buttons under the user's message and wait for the
+   * requesting user to press one. Clicks from anyone else are refused.
+   */
+  private async requestApproval(post: (payload: ReplyPayload) => Promise<Message>, request: ToolApprovalRequest): Promise<boolean> {
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder().setCustomId("approve").setLabel("Approve").setStyle(ButtonStyle.Success),
+      new ButtonBuilder().setCustomId("deny").setLabel("Deny").setStyle(ButtonStyle.Danger),
+    );
+    const prompt = await post({
+      content: formatApprovalPrompt(request),
+      components: [row],
+    });
+
+    return new Promise<boolean>((resolve) => {
+      const collector = prompt.createMessageComponentCollector({ componentType: ComponentType.Button });
+      const onAbort = () => collector.stop("expired");
+      request.signal.addEventListener("abort", onAbort, { once: true });
+
+      collector.on("collect", async (interaction) => {
+        if (interaction.user.id !== request.userId) {
+          await interaction
+            .reply({ content: "Only the person who started this task can answer.", flags: MessageFlags.Ephemeral })
+            .catch(() => {});
+          return;
+        }
+        const approved = interaction.customId === "approve";
+        const verdict = approved ? "\u{2705} Approved" : "\u{26D4} Denied";
+        await interaction
+          .update({ content: `${verdict}: **${request.toolName}** \`${request.summary.slice(0, 200)}\``, components: [] })
+          .catch(() => {});
+        collector.stop(approved ? "approved" : "denied");
+      });
+
+      collector.on("end", (_collected, reason) => {
+        request.signal.removeEventListener("abort", onAbort);
+        if (reason === "expired") {
+          prompt
+            .edit({ content: `\u{231B} Approval expired: **${request.toolName}** was not run.`, components: [] })
+            .catch(() => {});
+        }
+        resolve(reason === "approved");
+      });
+    });
+  }
+
   async stop(): Promise<void> {
     this.client.destroy();
   }
 }
 
+function formatApprovalPrompt(request: ToolApprovalRequest): string {
+  const summary = request.summary.replace(/```/g, "`\u200b``");
+  return `\u{1F510} **${request.toolName}** needs your approval:\n\`\`\`\n${summary}\n\`\`\``.slice(0, 2000);
+}
+
+function threadName(text: string): string {
+  const name = text.replace(/\s+/g, " ").trim();
+  return (name.length > 90 ? `${name.slice(0, 89)}…` : name) || "Task";
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   return `${(ms / 1000).toFixed(1)}s`;
@@ -348,6 +650,10 @@ const IMAGE_CONTENT_TYPES = new Set([
 ]);
 const MAX_IMAGE_DOWNLOAD_BYTES = 20 * 1024 * 1024; // 20MB download limit
 
+function isImageAttachment(contentType: string | null): boolean {
+  return IMAGE_CONTENT_TYPES.has(contentType?.split(";")[0]?.trim().toLowerCase() ?? "");
+}
+
 async function downloadImageAttachments(
   message: Message,
 ): Promise<ImageAttachment[]> {
@@ -376,30 +682,3 @@ async function downloadImageAttachments(
 
   return images;
 }
-
-function splitMessage(text: string, maxLength: number): string[] {
-  if (text.length <= maxLength) return [text];
-
-  const chunks: string[] = [];
-  let remaining = text;
-
-  while (remaining.length > 0) {
-    if (remaining.length <= maxLength) {
-      chunks.push(remaining);
-      break;
-    }
-
-    let splitIdx = remaining.lastIndexOf("\n", maxLength);
-    if (splitIdx === -1 || splitIdx < maxLength / 2) {
-      splitIdx = remaining.lastIndexOf(" ", maxLength);
-    }
-    if (splitIdx === -1 || splitIdx < maxLength / 2) {
-      splitIdx = maxLength;
-    }
-
-    chunks.push(remaining.slice(0, splitIdx));
-    remaining = remaining.slice(splitIdx).trimStart();
-  }
-
-  return chunks;
-}
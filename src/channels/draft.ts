@@ -0,0 +1,58 @@
+/**
+ * Throttled "draft" message updates for streaming replies.
+ *
+ * Platforms that support editing (Discord message edit, Slack chat.update)
+ * show partial assistant text by repeatedly editing one message. Edits are
+ * rate-limited, so updates are coalesced: at most one push per `intervalMs`,
+ * always with the latest text, and never two pushes in flight at once.
+ */
+export class DraftStreamer {
+  private latest?: string;
+  private pushed?: string;
+  private lastPushAt = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private inflight: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    private push: (text: string) => Promise<void>,
+    private intervalMs: number,
+  ) {}
+
+  /** Queue the latest full draft text; pushed on the next throttle tick. */
+  update(text: string): void {
+    if (this.stopped) return;
+    this.latest = text;
+    if (this.timer) return;
+    const wait = Math.max(0, this.lastPushAt + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.inflight = this.inflight.then(() => this.pushLatest());
+    }, wait);
+  }
+
+  /** True once at least one draft has been pushed to the platform. */
+  get started(): boolean {
+    return this.pushed !== undefined;
+  }
+
+  /** Stop streaming: drop pending updates and wait for an in-flight push to settle. */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.inflight;
+  }
+
+  private async pushLatest(): Promise<void> {
+    if (this.stopped || this.latest === undefined || this.latest === this.pushed) return;
+    const text = this.latest;
+    this.lastPushAt = Date.now();
+    try {
+      await this.push(text);
+      this.pushed = text;
+    } catch (err) {
+      console.warn(`[draft] Failed to update draft: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
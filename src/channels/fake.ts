@@ -0,0 +1,127 @@
+import type {
+  Channel,
+  ChannelCapabilities,
+  CommandHandler,
+  FileAttachment,
+  ImageAttachment,
+  InboundMessage,
+  MessageHandler,
+  OutboundMessage,
+  StreamCallbacks,
+} from "./base.js";
+
+/**
+ * In-process channel for scripts and offline runs: `receive()` plays a user
+ * message through the same handlers a real platform would, and everything the
+ * bot emits (replies, tool progress, proactive sends) lands in `transcript`.
+ */
+
+export type FakeTranscriptEntry =
+  | { type: "inbound"; sessionKey: string; text: string }
+  | { type: "reply"; sessionKey: string; text: string; images?: ImageAttachment[] }
+  | { type: "command"; sessionKey: string; command: string; reply: string | null }
+  | { type: "thinking"; sessionKey: string }
+  | { type: "tool_start"; sessionKey: string; toolName: string; meta?: string }
+  | { type: "tool_end"; sessionKey: string; toolName: string; durationMs: number; error?: string; preview?: string }
+  | { type: "text_complete"; sessionKey: string; text: string }
+  | { type: "approval"; sessionKey: string; toolName: string; summary: string; approved: boolean }
+  | { type: "sent"; channelId: string; text: string; images?: ImageAttachment[]; files?: FileAttachment[] };
+
+export interface FakeReceiveOptions {
+  channelId?: string;
+  userId?: string;
+  userName?: string;
+  isGroup?: boolean;
+  images?: ImageAttachment[];
+  /** Answer to tool approval requests during this turn; omit to deny "ask" calls as unattended turns do. */
+  approve?: boolean;
+}
+
+export class FakeChannel implements Channel {
+  readonly name: string;
+  readonly capabilities: ChannelCapabilities = {
+    images: true,
+    files: true,
+    maxMessageLength: Number.POSITIVE_INFINITY,
+    markdown: "markdown",
+  };
+  readonly transcript: FakeTranscriptEntry[] = [];
+  private handler?: MessageHandler;
+  private commandHandler?: CommandHandler;
+
+  constructor(name = "fake") {
+    this.name = name;
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  onCommand(handler: CommandHandler): void {
+    this.commandHandler = handler;
+  }
+
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  /** Simulate an inbound user message and return the bot's reply text (null if none). */
+  async receive(text: string, opts: FakeReceiveOptions = {}): Promise<string | null> {
+    const channelId = opts.channelId ?? "user";
+    const userId = opts.userId ?? channelId;
+    const sessionKey = `${this.name}:${opts.isGroup ? "group" : "dm"}:${channelId}`;
+    this.transcript.push({ type: "inbound", sessionKey, text });
+
+    if (text.startsWith("/") && this.commandHandler) {
+      const spaceIdx = text.indexOf(" ");
+      const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
+      const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
+      const reply = await this.commandHandler(command, args, sessionKey, channelId, userId, opts.isGroup ?? false, opts.userName);
+      this.transcript.push({ type: "command", sessionKey, command, reply });
+      if (reply !== null) return reply;
+    }
+
+    if (!this.handler) throw new Error(`[${this.name}] No message handler registered`);
+
+    const inbound: InboundMessage = {
+      text,
+      sessionKey,
+      channelId,
+      userId,
+      userName: opts.userName ?? "FakeUser",
+      isGroup: opts.isGroup ?? false,
+      images: opts.images,
+    };
+    const stream: StreamCallbacks = {
+      onThinking: () => {
+        this.transcript.push({ type: "thinking", sessionKey });
+      },
+      onToolStart: (toolName, meta) => {
+        this.transcript.push({ type: "tool_start", sessionKey, toolName, meta });
+      },
+      onToolEnd: (toolName, info) => {
+        this.transcript.push({ type: "tool_end", sessionKey, toolName, ...info });
+      },
+      onTextComplete: (text) => {
+        this.transcript.push({ type: "text_complete", sessionKey, text });
+      },
+    };
+    const { approve } = opts;
+    if (approve !== undefined) {
+      stream.onApprovalRequest = async ({ toolName, summary }) => {
+        this.transcript.push({ type: "approval", sessionKey, toolName, summary, approved: approve });
+        return approve;
+      };
+    }
+
+    const response = await this.handler(inbound, stream);
+    if (!response?.text) return null;
+    this.transcript.push({ type: "reply", sessionKey, text: response.text, images: response.images });
+    return response.text;
+  }
+
+  /** Proactive delivery (scheduler, heartbeat, subagent announce). */
+  async send(channelId: string, message: OutboundMessage): Promise<void> {
+    this.transcript.push({ type: "sent", channelId, text: message.text, images: message.images, files: message.files });
+  }
+}
@@ -0,0 +1,253 @@
+import type { ChannelCapabilities, MarkdownFlavor } from "./base.js";
+
+/**
+ * Platform-aware rendering of the agent's (GitHub-flavored) markdown.
+ *
+ * `formatMarkdown` rewrites a reply into a channel's dialect:
+ *   - "markdown" (Discord): as is, except tables and headings below ###
+ *   - "slack": mrkdwn — `*bold*`, `_italic_`, `~strike~`, `<url|text>` links
+ *   - "whatsapp": `*bold*`, `_italic_`, `~strike~`, links as "text (url)"
+ *   - "plain": emphasis markers and code fences dropped, links as "text (url)"
+ * Tables become column-aligned text and headings become bold lines. Code
+ * blocks and inline code are never rewritten.
+ *
+ * `splitMarkdown` cuts a long message into chunks at paragraph boundaries,
+ * falling back to line and then word breaks. A code block that has to be cut
+ * is closed at the end of one chunk and re-opened (same fence and language)
+ * at the start of the next, so every chunk renders on its own.
+ */
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/** Format for the channel, then split to its message length limit. */
+export function renderMessage(text: string, capabilities: ChannelCapabilities): string[] {
+  return splitMarkdown(formatMarkdown(text, capabilities.markdown), capabilities.maxMessageLength);
+}
+
+export function formatMarkdown(text: string, flavor: MarkdownFlavor): string {
+  const lines = text.split("\n");
+  const out: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Code block: copied verbatim up to its closing fence
+    const fence = line.match(FENCE)?.[1];
+    if (fence) {
+      let end = i + 1;
+      while (end < lines.length && !isFenceClose(lines[end], fence)) end++;
+      const body = lines.slice(i + 1, end);
+      if (flavor === "plain") {
+        out.push(...body);
+      } else if (flavor === "slack") {
+        out.push(line.replace(/^(\s*(`{3,}|~{3,})).*$/, "$1"), ...body.map(escapeSlack));
+        if (end < lines.length) out.push(lines[end]);
+      } else {
+        // WhatsApp (like Slack) prints a language tag literally
+        out.push(flavor === "markdown" ? line : line.replace(/^(\s*(`{3,}|~{3,})).*$/, "$1"), ...body);
+        if (end < lines.length) out.push(lines[end]);
+      }
+      i = end;
+      continue;
+    }
+
+    // Table: header row, divider, body rows
+    if (line.includes("|") && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      let end = i + 2;
+      while (end < lines.length && lines[end].includes("|") && lines[end].trim()) end++;
+      const rows = [lines[i], ...lines.slice(i + 2, end)].map(parseTableRow);
+      const aligned = alignTable(rows, flavor);
+      out.push(...(flavor === "plain" ? aligned : ["```", ...aligned, "```"]));
+      i = end - 1;
+      continue;
+    }
+
+    out.push(formatLine(line, flavor));
+  }
+  return out.join("\n");
+}
+
+/** Split into chunks of at most `maxLength` chars without breaking code blocks. */
+export function splitMarkdown(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text];
+
+  // Fence opener in effect after each line (undefined outside code blocks)
+  const openAfter: Array<string | undefined> = [];
+  const lines = text.split("\n");
+  let open: string | undefined;
+  for (const line of lines) {
+    const fence = line.match(FENCE)?.[1];
+    if (open) {
+      if (fence && isFenceClose(line, open.match(FENCE)![1])) open = undefined;
+    } else if (fence) {
+      open = line.trim();
+    }
+    openAfter.push(open);
+  }
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = -1; // joined length of `current` ("\n" separators included)
+  let currentOpen: string | undefined;
+  /** Lines of `current` that are real content (not just a re-opened fence). */
+  let contentLines = 0;
+
+  const closer = (opener: string) => opener.match(FENCE)![1];
+  const flush = () => {
+    if (contentLines === 0) return;
+    const chunk = currentOpen ? [...current, closer(currentOpen)] : current;
+    const joined = chunk.join("\n").replace(/^\n+/, "").trimEnd();
+    if (joined) chunks.push(joined);
+    current = currentOpen ? [currentOpen] : [];
+    currentLength = currentOpen ? currentOpen.length : -1;
+    contentLines = 0;
+  };
+  const push = (line: string, openAfterLine: string | undefined) => {
+    if (contentLines === 0 && !currentOpen && !line.trim()) return; // no leading blank lines
+    current.push(line);
+    currentLength += line.length + 1;
+    currentOpen = openAfterLine;
+    contentLines++;
+  };
+  /** Room the closing fence takes if the chunk ends inside a code block. */
+  const reserve = (openAfterLine: string | undefined) => (openAfterLine ? closer(openAfterLine).length + 1 : 0);
+
+  // Paragraphs (split at blank lines outside code blocks) are kept whole when they fit
+  let start = 0;
+  while (start < lines.length) {
+    let end = start;
+    while (end < lines.length - 1 && !(lines[end].trim() === "" && !openAfter[end])) end++;
+    const block = lines.slice(start, end + 1);
+    const blockLength = block.join("\n").length;
+    const blockOpen = openAfter[end];
+
+    const fitsHere = currentLength + 1 + blockLength + reserve(blockOpen) <= maxLength;
+    const fitsAlone = blockLength + reserve(blockOpen) <= maxLength;
+    if (fitsHere || fitsAlone) {
+      if (!fitsHere) flush();
+      block.forEach((line, j) => push(line, openAfter[start + j]));
+    } else {
+      // Paragraph larger than a chunk: fill up line by line, words for over-long lines
+      for (let j = start; j <= end; j++) {
+        const line = lines[j];
+        // Start a new chunk only if the line fits there; an over-long one is wrapped from here
+        const freshLength = (currentOpen ? currentOpen.length + 1 : 0) + line.length + reserve(openAfter[j]);
+        if (currentLength + 1 + line.length + reserve(openAfter[j]) > maxLength && freshLength <= maxLength) flush();
+        const room = maxLength - (currentLength + 1) - reserve(openAfter[j]);
+        if (line.length <= room) {
+          push(line, openAfter[j]);
+          continue;
+        }
+        let rest = line;
+        while (rest.length > 0) {
+          const space = maxLength - (currentLength + 1) - reserve(openAfter[j]);
+          if (space <= 0 && contentLines > 0) {
+            flush();
+            continue;
+          }
+          if (rest.length <= space) {
+            push(rest, openAfter[j]);
+            break;
+          }
+          let cut = rest.lastIndexOf(" ", space);
+          if (cut < space / 2) cut = Math.max(space, 1);
+          push(rest.slice(0, cut), openAfter[j]);
+          flush();
+          rest = rest.slice(cut).trimStart();
+        }
+      }
+    }
+    start = end + 1;
+  }
+  flush();
+  return chunks;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+function isFenceClose(line: string, fence: string): boolean {
+  const match = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+  return Boolean(match && match[1][0] === fence[0] && match[1].length >= fence.length);
+}
+
+/** Rewrite one prose line; inline code spans are left untouched. */
+function formatLine(line: string, flavor: MarkdownFlavor): string {
+  const heading = line.match(/^\s*(#{1,6})\s+(.+?)\s*#*\s*$/);
+  if (heading) {
+    const title = stripEmphasis(heading[2]);
+    if (flavor === "markdown") return heading[1].length <= 3 ? line : `**${title}**`;
+    if (flavor === "plain") return formatInline(title, flavor);
+    return `*${formatInline(title, flavor)}*`;
+  }
+  if (flavor === "markdown") return line;
+
+  // "* item" / "- item" bullets, before "*" can be mistaken for emphasis
+  const bullet = line.match(/^(\s*)[*+-]\s+(.*)$/);
+  if (bullet && !/^\s*([*-])\s*\1\s*\1[\s*-]*$/.test(line)) {
+    const marker = flavor === "whatsapp" ? "-" : "•";
+    return `${bullet[1]}${marker} ${formatInline(bullet[2], flavor)}`;
+  }
+  return formatInline(line, flavor);
+}
+
+function formatInline(text: string, flavor: MarkdownFlavor): string {
+  // Odd-indexed parts are inline code spans
+  return text
+    .split(/(`[^`\n]+`)/)
+    .map((part, i) => (i % 2 === 1 ? (flavor === "slack" ? escapeSlack(part) : part) : formatProse(part, flavor)))
+    .join("");
+}
+
+function formatProse(text: string, flavor: MarkdownFlavor): string {
+  let out = text;
+  if (flavor === "slack") out = escapeSlack(out);
+
+  // Links first, so their text gets the same emphasis handling as the rest
+  out = out.replace(/\[([^\]\n]+)\]\(([^)\s]+)\)/g, (_m, label: string, url: string) => {
+    if (flavor === "slack") return `<${url}|${label}>`;
+    return label === url ? url : `${label} (${url})`;
+  });
+
+  if (flavor === "plain") return stripEmphasis(out);
+
+  // Bold+italic and bold → placeholder, italic → _x_, then bold back as *x*
+  out = out.replace(/\*\*\*(?=\S)(.+?)(?<=\S)\*\*\*|___(?=\S)(.+?)(?<=\S)___/g, (_m, a?: string, b?: string) => `\u0001_${a ?? b}_\u0001`);
+  out = out.replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*|__(?=\S)(.+?)(?<=\S)__/g, (_m, a?: string, b?: string) => `\u0001${a ?? b}\u0001`);
+  out = out.replace(/(^|[^*\w])\*(?=\S)([^*\n]+?)(?<=\S)\*(?![*\w])/g, "$1_$2_");
+  out = out.replace(/\u0001/g, "*");
+  return out.replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "~$1~");
+}
+
+function stripEmphasis(text: string): string {
+  return text
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*|__(?=\S)(.+?)(?<=\S)__/g, (_m, a?: string, b?: string) => a ?? b ?? "")
+    .replace(/(^|[^*\w])\*(?=\S)([^*\n]+?)(?<=\S)\*(?![*\w])/g, "$1$2")
+    .replace(/(^|[^_\w])_(?=\S)([^_\n]+?)(?<=\S)_(?![_\w])/g, "$1$2")
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "$1");
+}
+
+function parseTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/** Columns padded to equal width, with a rule under the header. */
+function alignTable(rows: string[][], flavor: MarkdownFlavor): string[] {
+  const cells = rows.map((row) => row.map((cell) => stripEmphasis(cell).replace(/`/g, "")));
+  const columns = Math.max(...cells.map((row) => row.length));
+  const widths = Array.from({ length: columns }, (_, c) => Math.max(...cells.map((row) => (row[c] ?? "").length)));
+  const render = (row: string[]) => widths.map((w, c) => (row[c] ?? "").padEnd(w)).join("  ").trimEnd();
+  const [header, ...body] = cells;
+  const rule = widths.map((w) => "-".repeat(w)).join("  ");
+  const lines = [render(header), rule, ...body.map(render)];
+  return flavor === "slack" ? lines.map(escapeSlack) : lines;
+}
+
+/** Slack treats "&", "<" and ">" as control characters everywhere, code included. */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
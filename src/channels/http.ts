@@ -0,0 +1,477 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { UndeliverableError } from "./base.js";
+import type {
+  Channel,
+  ChannelCapabilities,
+  CommandHandler,
+  ImageAttachment,
+  MessageHandler,
+  OutboundMessage,
+  StreamCallbacks,
+} from "./base.js";
+import type { HttpConfig } from "../config.js";
+import {
+  chatCompletionChunk,
+  chatCompletionResponse,
+  modelList,
+  newCompletionId,
+  parseChatCompletionRequest,
+} from "./openai-compat.js";
+import type { ChatToolActivity } from "./openai-compat.js";
+
+/**
+ * Local HTTP API for scripts and other apps.
+ *
+ *   POST /v1/sessions/:key/messages  { text, userName?, images?: [{ data, mimeType, name? }], stream? }
+ *   GET  /v1/sessions
+ *   POST /v1/sessions/:key/abort
+ *   POST /v1/chat/completions        OpenAI-compatible (see openai-compat.ts)
+ *   GET  /v1/models
+ *
+ * Every request needs `Authorization: Bearer <token>`; the token decides the
+ * user ID the request runs as. `:key` becomes the session key
+ * "<name>:<userId>:<key>", so each key is its own conversation and a token
+ * only ever reaches (and lists) its own user's sessions. Messages return `{ message }` (null
+ * when the turn produced no reply, e.g. it was merged into another), or — with
+ * `Accept: text/event-stream` or `"stream": true` — an SSE stream of the
+ * turn's events (`thinking`, `tool_start`, `tool_end`, `text_delta`,
+ * `text_complete`) ending in `message` or `error`. Images travel as base64.
+ */
+
+const SESSION_KEY_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+/** SSE comment interval so proxies don't drop idle streams during long tool calls. */
+const SSE_KEEPALIVE_MS = 15_000;
+
+interface HttpSessionInfo {
+  key: string;
+  sessionKey: string;
+  userId: string;
+  createdAt: string;
+  lastMessageAt: string;
+  messages: number;
+  /** Turns submitted and not yet answered. */
+  pending: number;
+}
+
+interface ImagePayload {
+  data: string;
+  mimeType: string;
+  name?: string;
+}
+
+interface MessageBody {
+  text?: unknown;
+  userName?: unknown;
+  images?: unknown;
+  stream?: unknown;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export class HttpChannel implements Channel {
+  readonly name: string;
+  /** Replies carry images inline (base64); there is no way to push anything unprompted. */
+  readonly capabilities: ChannelCapabilities = {
+    images: true,
+    files: false,
+    maxMessageLength: Number.POSITIVE_INFINITY,
+    markdown: "markdown",
+  };
+  private config: HttpConfig;
+  private server?: http.Server;
+  private handler?: MessageHandler;
+  private commandHandler?: CommandHandler;
+  /** By session key, so the same `:key` of two users stays apart. */
+  private sessions = new Map<string, HttpSessionInfo>();
+
+  constructor(config: HttpConfig) {
+    this.config = config;
+    this.name = config.name ?? "http";
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  onCommand(handler: CommandHandler): void {
+    this.commandHandler = handler;
+  }
+
+  /** HTTP clients only get replies to their own requests. */
+  async send(target: string): Promise<void> {
+    throw new UndeliverableError(`${this.name} can't push messages (to ${target}); HTTP clients only get replies`);
+  }
+
+  /** Port the server is listening on (resolved when configured as 0). */
+  get port(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === "object" ? (address as AddressInfo).port : undefined;
+  }
+
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.route(req, res).catch((err) => this.sendError(res, err));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    console.log(`[http] Listening on http://${this.config.host}:${this.port}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  private async route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const userId = this.authenticate(req);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+
+    if (url.pathname === "/v1/sessions") {
+      if (method !== "GET") throw new HttpError(405, "Method not allowed");
+      const own = [...this.sessions.values()].filter((session) => session.userId === userId);
+      this.sendJson(res, 200, { sessions: own });
+      return;
+    }
+    if (url.pathname === "/v1/models") {
+      if (method !== "GET") throw new HttpError(405, "Method not allowed");
+      this.sendJson(res, 200, modelList());
+      return;
+    }
+    if (url.pathname === "/v1/chat/completions") {
+      if (method !== "POST") throw new HttpError(405, "Method not allowed");
+      await this.handleChatCompletion(req, res, userId);
+      return;
+    }
+
+    const match = url.pathname.match(/^\/v1\/sessions\/([^/]+)\/(messages|abort)$/);
+    if (!match) throw new HttpError(404, "Not found");
+    if (method !== "POST") throw new HttpError(405, "Method not allowed");
+    const key = match[1];
+    if (!SESSION_KEY_PATTERN.test(key)) {
+      throw new HttpError(400, "Session key must be 1-128 characters of A-Z, a-z, 0-9, '.', '_' or '-'");
+    }
+
+    if (match[2] === "abort") {
+      await this.handleAbort(res, key, userId);
+    } else {
+      await this.handleMessage(req, res, key, userId);
+    }
+  }
+
+  /** Resolve the bearer token to its user ID, or throw 401. */
+  private authenticate(req: http.IncomingMessage): string {
+    const header = req.headers.authorization ?? "";
+    const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    const presented = digest(token);
+    const entry = token
+      ? this.config.tokens.find((t) => timingSafeEqual(digest(t.token), presented))
+      : undefined;
+    if (!entry) throw new HttpError(401, "Missing or invalid bearer token");
+    return entry.userId;
+  }
+
+  private async handleAbort(res: http.ServerResponse, key: string, userId: string): Promise<void> {
+    if (!this.commandHandler) throw new HttpError(503, "Commands are not available");
+    const sessionKey = this.sessionKey(userId, key);
+    const reply = await this.commandHandler("stop", "", sessionKey, key, userId, false);
+    this.sendJson(res, 200, { aborted: (this.sessions.get(sessionKey)?.pending ?? 0) > 0, reply });
+  }
+
+  private async handleMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    key: string,
+    userId: string,
+  ): Promise<void> {
+    const body = (await readJsonBody(req)) as MessageBody;
+    if (typeof body.text !== "string" || !body.text.trim()) {
+      throw new HttpError(400, '"text" must be a non-empty string');
+    }
+    const turn = {
+      text: body.text,
+      images: parseImages(body.images),
+      userName: typeof body.userName === "string" && body.userName.trim() ? body.userName.trim() : undefined,
+    };
+    const streaming = body.stream === true || (req.headers.accept ?? "").includes("text/event-stream");
+
+    if (!streaming) {
+      const response = await this.runTurn(key, userId, turn, {});
+      this.sendJson(res, 200, { message: response ? serializeOutbound(response) : null });
+      return;
+    }
+
+    const sse = openEventStream(res);
+    const send = (event: string, data: unknown) => sse.send(data, event);
+    try {
+      const response = await this.runTurn(key, userId, turn, {
+        onThinking: () => send("thinking", {}),
+        onToolStart: (toolName, meta) => send("tool_start", { toolName, meta }),
+        onToolEnd: (toolName, info) => send("tool_end", { toolName, ...info }),
+        onTextDelta: (delta, text) => send("text_delta", { delta, text }),
+        onTextComplete: (text) => send("text_complete", { text }),
+      });
+      send("message", { message: response ? serializeOutbound(response) : null });
+    } catch (err) {
+      console.error(`[http] Error processing message for ${this.sessionKey(userId, key)}:`, err);
+      send("error", { message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      sse.end();
+    }
+  }
+
+  private async handleChatCompletion(req: http.IncomingMessage, res: http.ServerResponse, userId: string): Promise<void> {
+    const turn = parseChatCompletionRequest((await readJsonBody(req)) as Record<string, unknown>);
+    if ("error" in turn) throw new HttpError(400, turn.error);
+    // `user` / X-Session-Key only pick a session within the token's own namespace (see sessionKey)
+    const header = req.headers["x-session-key"];
+    const key = toSessionKeySegment(turn.user ?? (typeof header === "string" && header.trim() ? header : userId));
+    const ids = newCompletionId();
+
+    const tools: ChatToolActivity[] = [];
+    const recordToolStart = (name: string, meta?: string) => {
+      tools.push({ name, meta });
+    };
+    const recordToolEnd = (name: string, info: { durationMs: number; error?: string }) => {
+      const started = [...tools].reverse().find((t) => t.name === name && t.durationMs === undefined);
+      if (started) Object.assign(started, { durationMs: info.durationMs, error: info.error });
+      return started;
+    };
+
+    if (!turn.stream) {
+      const stream: StreamCallbacks = turn.toolActivity
+        ? { onToolStart: recordToolStart, onToolEnd: (name, info) => void recordToolEnd(name, info) }
+        : {};
+      const response = await this.runTurn(key, userId, turn, stream);
+      this.sendJson(res, 200, chatCompletionResponse(ids, turn.model, response?.text ?? "", turn.toolActivity ? tools : undefined));
+      return;
+    }
+
+    // Stream each assistant message's text as it's generated; messages are
+    // separated by a blank line, and the final text's tail (e.g. citations
+    // added after generation) is sent before the closing chunk.
+    const sse = openEventStream(res);
+    const content = (text: string) => sse.send(chatCompletionChunk(ids, turn.model, { content: text }));
+    let streamed = false;
+    let current = "";
+    sse.send(chatCompletionChunk(ids, turn.model, { role: "assistant", content: "" }));
+    try {
+      const stream: StreamCallbacks = {
+        onTextDelta: (delta, text) => {
+          if (text === delta && current) content("\n\n");
+          current = text;
+          streamed = true;
+          content(delta);
+        },
+      };
+      if (turn.toolActivity) {
+        stream.onToolStart = (name, meta) => {
+          recordToolStart(name, meta);
+          sse.send(chatCompletionChunk(ids, turn.model, {}, null, { phase: "start", name, meta }));
+        };
+        stream.onToolEnd = (name, info) => {
+          const tool = recordToolEnd(name, info) ?? { name };
+          sse.send(chatCompletionChunk(ids, turn.model, {}, null, { phase: "end", ...tool, ...info }));
+        };
+      }
+      const response = await this.runTurn(key, userId, turn, stream);
+      const text = response?.text ?? "";
+      if (!streamed) {
+        if (text) content(text);
+      } else if (text.startsWith(current) && text.length > current.length) {
+        content(text.slice(current.length));
+      }
+      sse.send(chatCompletionChunk(ids, turn.model, {}, "stop"));
+    } catch (err) {
+      console.error(`[http] Error processing chat completion for ${this.sessionKey(userId, key)}:`, err);
+      sse.send({ error: { message: err instanceof Error ? err.message : String(err) } });
+    } finally {
+      sse.send("[DONE]");
+      sse.end();
+    }
+  }
+
+  /** Run one message (or /command) in a session and return the reply. */
+  private async runTurn(
+    key: string,
+    userId: string,
+    turn: { text: string; images?: ImageAttachment[]; userName?: string },
+    stream: StreamCallbacks,
+  ): Promise<OutboundMessage | null> {
+    if (!this.handler) throw new Error("No message handler registered");
+    const sessionKey = this.sessionKey(userId, key);
+    const session = this.trackSession(sessionKey, key, userId);
+    session.pending++;
+    try {
+      const reply = turn.text.startsWith("/") ? await this.runCommand(turn.text, sessionKey, key, userId, turn.userName) : null;
+      if (reply !== null) return { text: reply };
+      return await this.handler(
+        {
+          text: turn.text,
+          sessionKey,
+          channelId: key,
+          userId,
+          userName: turn.userName ?? userId,
+          isGroup: false,
+          images: turn.images,
+        },
+        stream,
+      );
+    } finally {
+      session.pending--;
+    }
+  }
+
+  private async runCommand(
+    text: string,
+    sessionKey: string,
+    key: string,
+    userId: string,
+    userName?: string,
+  ): Promise<string | null> {
+    if (!this.commandHandler) return null;
+    const spaceIdx = text.indexOf(" ");
+    const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
+    const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
+    return this.commandHandler(command, args, sessionKey, key, userId, false, userName);
+  }
+
+  private trackSession(sessionKey: string, key: string, userId: string): HttpSessionInfo {
+    const now = new Date().toISOString();
+    let session = this.sessions.get(sessionKey);
+    if (!session) {
+      session = { key, sessionKey, userId, createdAt: now, lastMessageAt: now, messages: 0, pending: 0 };
+      this.sessions.set(sessionKey, session);
+    }
+    session.lastMessageAt = now;
+    session.messages++;
+    return session;
+  }
+
+  /**
+   * Sessions are namespaced by the token's user — one user can't reach another's.
+   * Token user IDs are held to the key alphabet when the config loads, so none collide.
+   */
+  private sessionKey(userId: string, key: string): string {
+    return `${this.name}:${userId}:${key}`;
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: http.ServerResponse, err: unknown): void {
+    const status = err instanceof HttpError ? err.status : 500;
+    const message = err instanceof HttpError ? err.message : "Internal server error";
+    if (status === 500) console.error("[http] Request failed:", err);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    this.sendJson(res, status, { error: { message } });
+  }
+}
+
+/**
+ * Start an SSE response. `send` writes one event: objects as JSON, strings
+ * as-is (e.g. the OpenAI "[DONE]" sentinel).
+ */
+function openEventStream(res: http.ServerResponse): {
+  send: (data: unknown, event?: string) => void;
+  end: () => void;
+} {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const writable = () => !res.writableEnded && !res.destroyed;
+  const keepalive = setInterval(() => {
+    if (writable()) res.write(": keepalive\n\n");
+  }, SSE_KEEPALIVE_MS);
+  keepalive.unref();
+
+  return {
+    send: (data, event) => {
+      if (!writable()) return;
+      const payload = typeof data === "string" ? data : JSON.stringify(data);
+      res.write(`${event ? `event: ${event}\n` : ""}data: ${payload}\n\n`);
+    },
+    end: () => {
+      clearInterval(keepalive);
+      if (writable()) res.end();
+    },
+  };
+}
+
+/** Map a free-form session name (e.g. an OpenAI `user` value) onto the key alphabet. */
+function toSessionKeySegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, "_").slice(0, 128);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    const body: unknown = JSON.parse(Buffer.concat(chunks).toString("utf-8") || "{}");
+    if (!body || typeof body !== "object" || Array.isArray(body)) throw new Error("not an object");
+    return body;
+  } catch {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+}
+
+function parseImages(value: unknown): ImageAttachment[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new HttpError(400, '"images" must be an array');
+  return value.map((image: Partial<ImagePayload>, i): ImageAttachment => {
+    if (typeof image?.data !== "string" || typeof image.mimeType !== "string" || !image.mimeType.startsWith("image/")) {
+      throw new HttpError(400, `images[${i}] needs base64 "data" and an image/* "mimeType"`);
+    }
+    return {
+      data: Buffer.from(image.data, "base64"),
+      mimeType: image.mimeType,
+      name: typeof image.name === "string" && image.name ? image.name : `image-${i + 1}`,
+    };
+  });
+}
+
+function serializeOutbound(message: OutboundMessage): { text: string; images?: ImagePayload[] } {
+  return {
+    text: message.text,
+    images: message.images?.map((img) => ({
+      name: img.name,
+      mimeType: img.mimeType,
+      data: img.data.toString("base64"),
+    })),
+  };
+}
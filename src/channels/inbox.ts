@@ -0,0 +1,203 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ReceivedFile } from "./base.js";
+import { extractPdfText } from "../media/pdf.js";
+
+/**
+ * Per-session inbox for files users send (PDFs, spreadsheets, archives, …).
+ *
+ * Adapters describe each non-image attachment as an `InboxCandidate` and call
+ * `receive`: files within the size and type limits are downloaded into
+ * `<codeDir>/inbox/<session>/`, where the agent's coding tools can open them,
+ * and every candidate comes back as a `ReceivedFile` for
+ * `InboundMessage.files` — refused ones with the reason. PDFs also get a
+ * `.txt` copy of their text next to them. Adapters call it from
+ * `InboundMessage.loadAttachments`, so nothing is fetched or written for
+ * senders the access check refuses.
+ */
+
+export interface AttachmentsConfig {
+  /** Largest file accepted (bytes). */
+  maxBytes: number;
+  /** Accepted types: extensions ("pdf"), MIME types ("application/zip") or families ("text/*"); "*" = any. */
+  allowedTypes: string[];
+}
+
+export const DEFAULT_ALLOWED_ATTACHMENT_TYPES = [
+  "text/*",
+  "pdf",
+  "csv",
+  "tsv",
+  "json",
+  "xml",
+  "yaml",
+  "yml",
+  "md",
+  "txt",
+  "log",
+  "zip",
+  "docx",
+  "xlsx",
+  "pptx",
+];
+
+/**
+ * A file an adapter can fetch; `size` (when the platform reports it) is checked
+ * before downloading. `download` should stop once `maxBytes` is passed (throw
+ * FileTooLargeError), as `fetchFile` does.
+ */
+export interface InboxCandidate {
+  name: string;
+  mimeType?: string;
+  size?: number;
+  download: (maxBytes: number) => Promise<Buffer>;
+}
+
+/** Thrown by `fetchFile` / `readBody` when a download passes its byte limit. */
+export class FileTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`larger than ${formatBytes(maxBytes)}`);
+    this.name = "FileTooLargeError";
+  }
+}
+
+const MAX_PDF_PAGES = 100;
+
+export class Inbox {
+  constructor(
+    private codeDir: string,
+    /** Live config section — hot reload applies. */
+    private config: AttachmentsConfig,
+  ) {}
+
+  /** Download and save the accepted candidates; refused or failed ones carry an `error`. */
+  async receive(sessionKey: string, candidates: InboxCandidate[]): Promise<ReceivedFile[]> {
+    const received: ReceivedFile[] = [];
+    for (const candidate of candidates) {
+      const mimeType = candidate.mimeType?.split(";")[0].trim().toLowerCase() || "application/octet-stream";
+      const file: ReceivedFile = { name: candidate.name, mimeType, size: candidate.size };
+      file.error = this.refusal(candidate.name, mimeType, candidate.size);
+      if (!file.error) {
+        try {
+          const data = await candidate.download(this.config.maxBytes);
+          file.size = data.length;
+          file.error = this.refusal(candidate.name, mimeType, data.length);
+          if (!file.error) await this.save(sessionKey, file, data);
+        } catch (err) {
+          file.error =
+            err instanceof FileTooLargeError
+              ? err.message
+              : `download failed (${err instanceof Error ? err.message : String(err)})`;
+        }
+      }
+      if (file.error) console.log(`[inbox] Not saving ${candidate.name} for ${sessionKey}: ${file.error}`);
+      received.push(file);
+    }
+    return received;
+  }
+
+  private refusal(name: string, mimeType: string, size?: number): string | undefined {
+    if (size !== undefined && size > this.config.maxBytes) {
+      return `larger than ${formatBytes(this.config.maxBytes)}`;
+    }
+    const ext = path.extname(name).slice(1).toLowerCase();
+    const family = `${mimeType.split("/")[0]}/*`;
+    const allowed = this.config.allowedTypes.some((type) => {
+      const t = type.toLowerCase().replace(/^\./, "");
+      return t === "*" || t === ext || t === mimeType || t === family;
+    });
+    return allowed ? undefined : `file type not accepted (${ext || mimeType})`;
+  }
+
+  private async save(sessionKey: string, file: ReceivedFile, data: Buffer): Promise<void> {
+    const dir = path.join(this.codeDir, "inbox", safeName(sessionKey));
+    const filePath = path.join(dir, `${Date.now()}-${safeName(path.basename(file.name))}`);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(filePath, data);
+    file.path = this.relative(filePath);
+
+    if (file.mimeType === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")) {
+      try {
+        const { text } = await extractPdfText(data, MAX_PDF_PAGES);
+        if (text.trim()) {
+          await fs.writeFile(`${filePath}.txt`, text);
+          file.textPath = this.relative(`${filePath}.txt`);
+        }
+      } catch (err) {
+        console.warn(`[inbox] Failed to extract text from ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  /** Path as the agent's tools see it (their working directory is codeDir). */
+  private relative(filePath: string): string {
+    return path.relative(this.codeDir, filePath).split(path.sep).join("/");
+  }
+}
+
+/** Prompt lines telling the agent where the user's files were saved. */
+export function describeReceivedFiles(files: ReceivedFile[]): string {
+  const lines = files.map((file) => {
+    if (!file.path) return `- ${file.name}: not received — ${file.error ?? "unknown error"}`;
+    const details = [file.mimeType, file.size !== undefined ? formatBytes(file.size) : undefined].filter(Boolean).join(", ");
+    const text = file.textPath ? `; extracted text: ${file.textPath}` : "";
+    return `- ${file.path} (${details}${text})`;
+  });
+  return [
+    "[Files attached by the user, saved under your working directory — open them with your file tools:",
+    ...lines,
+    "]",
+  ].join("\n");
+}
+
+/** Download a URL into memory for `InboxCandidate.download`; throws on HTTP errors and past `maxBytes`. */
+export async function fetchFile(url: string, maxBytes: number, headers?: Record<string, string>): Promise<Buffer> {
+  const res = await fetch(url, { headers, signal: AbortSignal.timeout(60_000) });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return readBody(res, maxBytes);
+}
+
+/** Read a response body into memory, cancelling the download once it passes `maxBytes`. */
+export async function readBody(res: Response, maxBytes: number): Promise<Buffer> {
+  if (Number(res.headers.get("content-length")) > maxBytes) {
+    await res.body?.cancel().catch(() => {});
+    throw new FileTooLargeError(maxBytes);
+  }
+  if (!res.body) return Buffer.alloc(0);
+  const reader = res.body.getReader();
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new FileTooLargeError(maxBytes);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks, total);
+}
+
+/** Read a Node stream into memory; stops it (leaving the loop destroys it) once it passes `maxBytes`. */
+export async function readStream(stream: AsyncIterable<Uint8Array>, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of stream) {
+    total += chunk.byteLength;
+    if (total > maxBytes) throw new FileTooLargeError(maxBytes);
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks, total);
+}
+
+function safeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -1,32 +1,121 @@
-import type { Channel, MessageHandler, CommandHandler } from "./base.js";
+import { UndeliverableError } from "./base.js";
+import type { Channel, MessageHandler, CommandHandler, OutboundMessage } from "./base.js";
+import { OutboundQueue, fitToCapabilities } from "./outbound.js";
+import { roleAllowsCommand } from "../security/access.js";
+import type { AccessConfig, AccessControl } from "../security/access.js";
+import type { IdentityStore } from "../security/identity.js";
 
 /**
  * Manages multiple chat channels and routes messages/commands through them.
  * Each channel independently receives messages and forwards them to the shared handlers.
+ * When access control is set, every message and command is checked against the
+ * sender's role before dispatch. With an identity store, messages carry the
+ * sender's canonical user ID, and DMs of linked accounts that share a session
+ * are routed to it. A message's attachments are fetched (`loadAttachments`)
+ * only after all that, so refused senders cost no downloads or transcription.
+ *
+ * Proactive messages go out through `deliver()`, backed by a persistent
+ * outbound queue that retries failed sends (also across restarts).
  */
 export class ChannelManager {
   private channels: Channel[] = [];
   private messageHandler?: MessageHandler;
   private commandHandler?: CommandHandler;
+  /** Names the command handler answers; anything else is ordinary text. */
+  private knownCommands = new Set<string>();
+  private access?: { control: AccessControl; config: AccessConfig };
+  private identities?: IdentityStore;
+  private outbound: OutboundQueue;
+
+  /** `agentDir` persists undelivered messages to `<agentDir>/outbound.json`. */
+  constructor(opts: { agentDir?: string } = {}) {
+    this.outbound = new OutboundQueue((channel, target, message) => this.sendNow(channel, target, message), opts.agentDir);
+  }
 
   add(channel: Channel): void {
     this.channels.push(channel);
   }
 
+  /** Gate dispatch on user roles. Call before onMessage / onCommand. */
+  setAccessControl(control: AccessControl, config: AccessConfig): void {
+    this.access = { control, config };
+  }
+
+  /** Resolve canonical user IDs and shared sessions. Call before onMessage / onCommand. */
+  setIdentities(identities: IdentityStore): void {
+    this.identities = identities;
+  }
+
   onMessage(handler: MessageHandler): void {
     this.messageHandler = handler;
     for (const ch of this.channels) {
-      ch.onMessage(handler);
+      ch.onMessage(this.guardMessages(ch, handler));
     }
   }
 
-  onCommand(handler: CommandHandler): void {
+  /** `commands` lists what `handler` answers, so other "/…" text from restricted roles still reaches the agent. */
+  onCommand(handler: CommandHandler, commands: readonly string[] = []): void {
     this.commandHandler = handler;
+    this.knownCommands = new Set(commands);
     for (const ch of this.channels) {
-      ch.onCommand?.(handler);
+      ch.onCommand?.(this.guardCommands(ch, handler));
     }
   }
 
+  /** Admit the sender and tag the message with their role, or answer with a refusal / pairing code. */
+  private guardMessages(ch: Channel, handler: MessageHandler): MessageHandler {
+    return async (msg, stream) => {
+      let routed = msg;
+      if (this.access) {
+        const admitted = await this.access.control.admit({
+          channel: ch.name,
+          userId: msg.userId,
+          userName: msg.userName,
+          channelId: msg.channelId,
+        });
+        if (!admitted.role) {
+          console.log(`[access] Refused message from ${ch.name}:${msg.userId} (${msg.userName})`);
+          return admitted.reply ? { text: admitted.reply } : null;
+        }
+        routed = { ...routed, role: admitted.role };
+      }
+      if (this.identities) {
+        routed = { ...routed, identity: this.identities.canonicalId(ch.name, msg.userId) };
+        const shared = msg.isGroup ? undefined : await this.identities.routeDm(ch.name, msg.userId, msg.sessionKey);
+        if (shared) routed = { ...routed, sessionKey: shared, originChannel: ch.name };
+      }
+      if (routed.loadAttachments) {
+        const { loadAttachments, ...rest } = routed;
+        const loaded = await loadAttachments();
+        if (loaded.reply !== undefined) return { text: loaded.reply };
+        routed = {
+          ...rest,
+          text: loaded.text ?? rest.text,
+          images: loaded.images?.length ? loaded.images : undefined,
+          files: loaded.files?.length ? loaded.files : undefined,
+        };
+      }
+      return handler(routed, stream);
+    };
+  }
+
+  /**
+   * Commands need a role that allows them; unknown users get the same answer as
+   * for messages. Text that only looks like a command (e.g. "/tmp/x fails")
+   * falls through to the agent.
+   */
+  private guardCommands(ch: Channel, handler: CommandHandler): CommandHandler {
+    return async (command, args, sessionKey, channelId, userId, isGroup, userName) => {
+      if (!this.access) return handler(command, args, sessionKey, channelId, userId, isGroup, userName);
+      const admitted = await this.access.control.admit({ channel: ch.name, userId, userName: userName ?? userId, channelId });
+      if (!admitted.role) return admitted.reply;
+      if (!roleAllowsCommand(this.access.config, admitted.role, command)) {
+        return this.knownCommands.has(command) ? `⛔ \`/${command}\` isn't available to you.` : null;
+      }
+      return handler(command, args, sessionKey, channelId, userId, isGroup, userName);
+    };
+  }
+
   async startAll(): Promise<void> {
     const results = await Promise.allSettled(
       this.channels.map(async (ch) => {
@@ -40,9 +129,12 @@ export class ChannelManager {
         console.error(`[channels] Channel failed to start:`, r.reason);
       }
     }
+    // Don't hold up startup on messages left over from the last run
+    this.outbound.start().catch((err) => console.error("[outbound] Failed to start:", err));
   }
 
   async stopAll(): Promise<void> {
+    this.outbound.stop();
     await Promise.allSettled(
       this.channels.map(async (ch) => {
         try {
@@ -55,7 +147,23 @@ export class ChannelManager {
     );
   }
 
-  /** Get a channel by name (for scheduler delivery, etc.). */
+  /**
+   * Queue a proactive message for a chat (`target` = the chat's `channelId`)
+   * and try to send it. Failed sends are retried with backoff; only an unknown
+   * channel throws.
+   */
+  async deliver(channelName: string, target: string, message: OutboundMessage, source: string): Promise<void> {
+    if (!this.get(channelName)) throw new UndeliverableError(`No channel named "${channelName}"`);
+    await this.outbound.enqueue(channelName, target, message, source);
+  }
+
+  private async sendNow(channelName: string, target: string, message: OutboundMessage): Promise<void> {
+    const channel = this.get(channelName);
+    if (!channel) throw new UndeliverableError(`No channel named "${channelName}"`);
+    await channel.send(target, fitToCapabilities(message, channel.capabilities));
+  }
+
+  /** Get a channel by name. */
   get(name: string): Channel | undefined {
     return this.channels.find((ch) => ch.name === name);
   }
@@ -0,0 +1,626 @@
+import { randomUUID } from "node:crypto";
+import { UndeliverableError } from "./base.js";
+import type {
+  Channel,
+  ChannelCapabilities,
+  CommandHandler,
+  FileAttachment,
+  ImageAttachment,
+  InboundMessage,
+  MessageHandler,
+  OutboundMessage,
+  ReceivedFile,
+  StreamCallbacks,
+  ToolApprovalRequest,
+} from "./base.js";
+import type { MatrixConfig } from "../config.js";
+import { readBody, type Inbox } from "./inbox.js";
+import { DraftStreamer } from "./draft.js";
+import { formatMarkdown, renderMessage } from "./format.js";
+
+/**
+ * Matrix adapter over the client-server API (fetch, no SDK), logged in with
+ * an access token. Works with any spec-compliant homeserver — Synapse,
+ * Conduit, Dendrite. Encrypted rooms are not supported.
+ *
+ * Rooms with two members are treated as DMs; in larger rooms the bot answers
+ * when mentioned, and keeps answering inside threads it has replied in.
+ * Threaded messages get their own session and replies stay in the thread.
+ * Images go to the model; other files (m.file, m.audio, m.video) are saved to
+ * the session inbox.
+ * Invites are accepted from allowlisted users (everyone when no allowlist).
+ *
+ * Room IDs contain ":", so session keys carry them URI-encoded
+ * ("matrix:room:!abc%3Aexample.org") and `send` decodes them.
+ */
+
+/** Min gap between edits of a streaming reply or the progress message. */
+const DRAFT_EDIT_INTERVAL_MS = 1500;
+/** Keep well under the 64 KiB event size limit. */
+const MAX_MESSAGE_CHARS = 16_000;
+const SYNC_TIMEOUT_MS = 30_000;
+const SYNC_RETRY_MS = 5_000;
+const TYPING_TIMEOUT_MS = 30_000;
+const MAX_IMAGE_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+/** Message types whose file goes to the session inbox. */
+const FILE_MSGTYPES = new Set(["m.file", "m.audio", "m.video"]);
+
+const APPROVE_REPLY = /^\s*(yes|y|approve)\s*[.!]?\s*$/i;
+const DENY_REPLY = /^\s*(no|n|deny)\s*[.!]?\s*$/i;
+
+interface MatrixEvent {
+  type: string;
+  event_id: string;
+  sender: string;
+  state_key?: string;
+  content: Record<string, unknown>;
+}
+
+interface MessageContent {
+  msgtype?: string;
+  body?: string;
+  url?: string;
+  /** Original file name, when `body` is a caption. */
+  filename?: string;
+  info?: { mimetype?: string; size?: number };
+  "m.mentions"?: { user_ids?: string[] };
+  "m.relates_to"?: {
+    rel_type?: string;
+    event_id?: string;
+    "m.in_reply_to"?: { event_id?: string };
+  };
+}
+
+interface SyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, { timeline?: { events?: MatrixEvent[] } }>;
+    invite?: Record<string, { invite_state?: { events?: MatrixEvent[] } }>;
+  };
+}
+
+/** Where a reply goes: the room, and the thread root when the message was threaded. */
+interface ReplyTarget {
+  roomId: string;
+  threadRoot?: string;
+  /** Event being answered (quoted as the reply / thread fallback). */
+  inReplyTo?: string;
+}
+
+interface PendingApproval {
+  userId: string;
+  resolve: (approved: boolean) => void;
+}
+
+export class MatrixChannel implements Channel {
+  readonly name: string;
+  readonly capabilities: ChannelCapabilities = {
+    images: true,
+    files: true,
+    maxMessageLength: MAX_MESSAGE_CHARS,
+    markdown: "plain",
+  };
+  private config: MatrixConfig;
+  private baseUrl: string;
+  private handler?: MessageHandler;
+  private commandHandler?: CommandHandler;
+  private userId = "";
+  /** Display name clients put in the body when mentioning the bot. */
+  private displayName = "";
+  private syncing?: AbortController;
+  private syncLoop?: Promise<void>;
+  /** Joined member counts per room (2 = DM), refreshed on membership changes. */
+  private memberCounts = new Map<string, number>();
+  /** Thread roots the bot has replied in — no mention needed to continue there. */
+  private activeThreads = new Set<string>();
+  /** Tool approval prompts awaiting a YES / NO reply, oldest first, per room. */
+  private pendingApprovals = new Map<string, PendingApproval[]>();
+  /** Where non-image files are saved; without it they're ignored. */
+  private inbox?: Inbox;
+
+  constructor(config: MatrixConfig, options: { inbox?: Inbox } = {}) {
+    this.config = config;
+    this.inbox = options.inbox;
+    this.name = config.name ?? "matrix";
+    this.baseUrl = config.homeserverUrl.replace(/\/+$/, "");
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  onCommand(handler: CommandHandler): void {
+    this.commandHandler = handler;
+  }
+
+  async start(): Promise<void> {
+    const whoami = await this.api<{ user_id: string }>("GET", "/_matrix/client/v3/account/whoami");
+    this.userId = whoami.user_id;
+    this.displayName = await this.api<{ displayname?: string }>(
+      "GET",
+      `/_matrix/client/v3/profile/${encodeURIComponent(this.userId)}/displayname`,
+    )
+      .then((p) => p.displayname ?? "")
+      .catch(() => "");
+    if (!this.displayName) this.displayName = this.userId.replace(/^@/, "").replace(/:.*$/, "");
+
+    // Initial sync only establishes the position — don't answer old messages,
+    // but do handle invites that arrived while offline
+    const initial = await this.api<SyncResponse>(
+      "GET",
+      `/_matrix/client/v3/sync?timeout=0&filter=${encodeURIComponent(JSON.stringify({ room: { timeline: { limit: 0 } } }))}`,
+    );
+    await this.handleInvites(initial);
+    console.log(`[matrix] Logged in as ${this.userId} on ${this.baseUrl}`);
+
+    this.syncing = new AbortController();
+    this.syncLoop = this.sync(initial.next_batch, this.syncing.signal);
+  }
+
+  async stop(): Promise<void> {
+    this.syncing?.abort();
+    await this.syncLoop;
+    for (const queue of this.pendingApprovals.values()) {
+      for (const approval of queue) approval.resolve(false);
+    }
+  }
+
+  /** Send a message to a room (scheduler, heartbeat and subagent deliveries). */
+  async send(channelId: string, message: OutboundMessage): Promise<void> {
+    await this.sendReply({ roomId: decodeURIComponent(channelId) }, message.text, message.images, message.files);
+  }
+
+  private async sync(since: string, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        const res = await this.api<SyncResponse>(
+          "GET",
+          `/_matrix/client/v3/sync?timeout=${SYNC_TIMEOUT_MS}&since=${encodeURIComponent(since)}`,
+          undefined,
+          signal,
+        );
+        since = res.next_batch;
+        await this.handleInvites(res);
+        for (const [roomId, room] of Object.entries(res.rooms?.join ?? {})) {
+          for (const event of room.timeline?.events ?? []) {
+            if (event.type === "m.room.member") this.memberCounts.delete(roomId);
+            if (event.type !== "m.room.message" || event.sender === this.userId) continue;
+            // Turns run concurrently; the agent queues per session
+            this.handleMessage(roomId, event).catch((err) => {
+              console.error("[matrix] Error handling message:", err);
+            });
+          }
+        }
+      } catch (err) {
+        if (signal.aborted) return;
+        console.warn(`[matrix] Sync failed: ${err instanceof Error ? err.message : String(err)} — retrying in ${SYNC_RETRY_MS}ms`);
+        await new Promise((r) => setTimeout(r, SYNC_RETRY_MS));
+      }
+    }
+  }
+
+  /** Join rooms allowlisted users invite us to; reject the rest. */
+  private async handleInvites(res: SyncResponse): Promise<void> {
+    for (const [roomId, room] of Object.entries(res.rooms?.invite ?? {})) {
+      const invite = room.invite_state?.events?.find(
+        (e) => e.type === "m.room.member" && e.state_key === this.userId && e.content.membership === "invite",
+      );
+      const inviter = invite?.sender ?? "unknown";
+      const path = `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}`;
+      try {
+        if (this.isAllowed(inviter)) {
+          await this.api("POST", `${path}/join`, {});
+          console.log(`[matrix] Joined ${roomId} (invited by ${inviter})`);
+        } else {
+          await this.api("POST", `${path}/leave`, {});
+          console.log(`[matrix] Rejected invite to ${roomId} from ${inviter} (not in allowFrom)`);
+        }
+      } catch (err) {
+        console.warn(`[matrix] Failed to answer invite to ${roomId}:`, err);
+      }
+    }
+  }
+
+  private async handleMessage(roomId: string, event: MatrixEvent): Promise<void> {
+    if (!this.handler) return;
+    const content = event.content as MessageContent;
+    const relation = content["m.relates_to"];
+    if (relation?.rel_type === "m.replace") return; // skip edits
+    const msgtype = content.msgtype ?? "";
+    if (msgtype !== "m.text" && msgtype !== "m.image" && !FILE_MSGTYPES.has(msgtype)) return;
+
+    const sender = event.sender;
+    const threadRoot = relation?.rel_type === "m.thread" ? relation.event_id : undefined;
+    const isGroup = (await this.memberCount(roomId)) > 2;
+
+    // In group rooms, only respond when mentioned (or in a thread we're part of). The
+    // display name only counts as a leading "Name:" — it may well be a common word.
+    const body = content.msgtype === "m.text" ? content.body ?? "" : "";
+    const mentioned =
+      content["m.mentions"]?.user_ids?.includes(this.userId) ||
+      body.includes(this.userId) ||
+      new RegExp(`^@?${escapeRegExp(this.displayName)}:`, "i").test(body);
+    const inActiveThread = threadRoot !== undefined && this.activeThreads.has(threadRoot);
+    const pending = this.pendingApprovals.get(roomId)?.find((p) => p.userId === sender);
+    if (isGroup && !mentioned && !inActiveThread && !pending) return;
+
+    // Access control
+    if (!this.isAllowed(sender)) {
+      console.log(`[matrix] Blocked message from ${sender} (not in allowFrom)`);
+      return;
+    }
+
+    // A YES / NO from the requesting user answers the oldest open tool approval
+    if (pending && (APPROVE_REPLY.test(body) || DENY_REPLY.test(body))) {
+      pending.resolve(APPROVE_REPLY.test(body));
+      return;
+    }
+
+    // Strip the bot mention (full user ID, or a leading "Name:" pill)
+    let text = body
+      .replace(new RegExp(escapeRegExp(this.userId), "g"), "")
+      .replace(new RegExp(`^@?${escapeRegExp(this.displayName)}:?\\s*`, "i"), "")
+      .trim();
+
+    const encodedRoom = encodeURIComponent(roomId);
+    const sessionKey = threadRoot
+      ? `${this.name}:thread:${encodeURIComponent(threadRoot)}:${encodedRoom}`
+      : `${this.name}:room:${encodedRoom}`;
+
+    const hasImage = content.msgtype === "m.image" && Boolean(content.url);
+    const hasFile = FILE_MSGTYPES.has(msgtype) && Boolean(this.inbox && content.url);
+    if (!text && !hasImage && !hasFile) return;
+    if (!text) text = hasImage ? "(see attached image)" : "(see attached file)";
+    const target: ReplyTarget = { roomId, threadRoot, inReplyTo: event.event_id };
+    const userName = sender.replace(/^@/, "").replace(/:.*$/, "");
+
+    // Handle /commands before dispatching to agent
+    if (text.startsWith("/") && this.commandHandler) {
+      const spaceIdx = text.indexOf(" ");
+      const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
+      const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
+      try {
+        const reply = await this.commandHandler(command, args, sessionKey, encodedRoom, sender, isGroup, userName);
+        if (reply !== null) {
+          await this.sendReply(target, reply);
+          return;
+        }
+      } catch (err) {
+        console.error("[matrix] Command error:", err);
+        await this.sendReply(target, "Error processing command.").catch(() => {});
+        return;
+      }
+    }
+
+    const inbound: InboundMessage = {
+      text,
+      sessionKey,
+      channelId: encodedRoom,
+      userId: sender,
+      userName,
+      isGroup,
+      // Downloaded only once ChannelManager has admitted the sender
+      loadAttachments:
+        hasImage || hasFile
+          ? async () => {
+              const image = hasImage ? await this.downloadImage(content) : undefined;
+              return { images: image ? [image] : undefined, files: hasFile ? await this.receiveFile(content, sessionKey) : undefined };
+            }
+          : undefined,
+    };
+
+    await this.setTyping(roomId, true);
+    if (threadRoot) this.activeThreads.add(threadRoot);
+
+    // Progress: one notice listing tool steps, edited in place
+    const steps: string[] = [];
+    let statusEventId: string | undefined;
+    const status = new DraftStreamer(async (text) => {
+      if (!statusEventId) {
+        statusEventId = await this.sendMessage(target, { msgtype: "m.notice", body: text });
+      } else {
+        await this.editMessage(roomId, statusEventId, { msgtype: "m.notice", body: text });
+      }
+    }, DRAFT_EDIT_INTERVAL_MS);
+    const renderStatus = () => `⚙️ Working…\n${steps.join("\n")}`;
+
+    // Streamed reply: one message edited in place as text arrives
+    let draftEventId: string | undefined;
+    const draft = new DraftStreamer(async (text) => {
+      const formatted = formatMarkdown(text, "plain");
+      const body = formatted.length > MAX_MESSAGE_CHARS ? `${formatted.slice(0, MAX_MESSAGE_CHARS - 1)}…` : formatted;
+      if (!draftEventId) {
+        draftEventId = await this.sendMessage(target, { msgtype: "m.text", body });
+      } else {
+        await this.editMessage(roomId, draftEventId, { msgtype: "m.text", body });
+      }
+    }, DRAFT_EDIT_INTERVAL_MS);
+
+    const stream: StreamCallbacks = {
+      onToolStart: (toolName, meta) => {
+        steps.push(`⏳ ${toolName}${meta ? ` ${meta}` : ""}`);
+        status.update(renderStatus());
+      },
+      onToolEnd: (toolName, info) => {
+        const idx = steps.findIndex((s) => s.startsWith(`⏳ ${toolName}`));
+        if (idx !== -1) {
+          const mark = info.error ? "❌" : "✅";
+          steps[idx] = `${mark}${steps[idx].slice(1)} (${(info.durationMs / 1000).toFixed(1)}s)`;
+        }
+        status.update(renderStatus());
+      },
+      onTextDelta: (_delta, text) => {
+        draft.update(text);
+      },
+      onApprovalRequest: (request) => this.requestApproval(target, request),
+    };
+
+    try {
+      let response: Awaited<ReturnType<MessageHandler>>;
+      try {
+        response = await this.handler(inbound, stream);
+      } finally {
+        await this.setTyping(roomId, false);
+        await Promise.all([draft.stop(), status.stop()]);
+      }
+
+      if (statusEventId && steps.length > 0) {
+        const done = `✅ Done (${steps.length} step${steps.length !== 1 ? "s" : ""})\n${steps.join("\n")}`;
+        await this.editMessage(roomId, statusEventId, { msgtype: "m.notice", body: done }).catch(() => {});
+      }
+
+      if (response?.text) {
+        const chunks = renderMessage(response.text, this.capabilities);
+        if (draftEventId) {
+          await this.editMessage(roomId, draftEventId, { msgtype: "m.text", body: chunks.shift() ?? "" });
+        }
+        for (const chunk of chunks) await this.sendMessage(target, { msgtype: "m.text", body: chunk });
+        await this.sendReply(target, "", response.images);
+      } else if (draftEventId) {
+        await this.api("PUT", this.roomPath(roomId, `redact/${encodeURIComponent(draftEventId)}/${randomUUID()}`), {}).catch(() => {});
+      }
+    } catch (err) {
+      console.error("[matrix] Error processing message:", err);
+      await this.sendReply(target, "Sorry, something went wrong.").catch(() => {});
+    }
+  }
+
+  /**
+   * Matrix has no standard buttons for bots: ask for a "YES" / "NO" reply
+   * and wait for the requesting user to send one.
+   */
+  private async requestApproval(target: ReplyTarget, request: ToolApprovalRequest): Promise<boolean> {
+    const { roomId } = target;
+    await this.sendMessage(target, {
+      msgtype: "m.text",
+      body: `🔐 ${request.toolName} needs your approval:\n${request.summary}\nReply YES to run it or NO to skip.`,
+    });
+
+    const verdict = await new Promise<boolean | "expired">((resolve) => {
+      const entry: PendingApproval = {
+        userId: request.userId,
+        resolve: (approved) => settle(approved),
+      };
+      const onAbort = () => settle("expired");
+      const settle = (result: boolean | "expired") => {
+        request.signal.removeEventListener("abort", onAbort);
+        const queue = this.pendingApprovals.get(roomId) ?? [];
+        const remaining = queue.filter((p) => p !== entry);
+        if (remaining.length > 0) this.pendingApprovals.set(roomId, remaining);
+        else this.pendingApprovals.delete(roomId);
+        resolve(result);
+      };
+      request.signal.addEventListener("abort", onAbort, { once: true });
+      this.pendingApprovals.set(roomId, [...(this.pendingApprovals.get(roomId) ?? []), entry]);
+    });
+
+    if (verdict === "expired") {
+      await this.sendMessage(target, {
+        msgtype: "m.notice",
+        body: `⌛ Approval expired: ${request.toolName} was not run.`,
+      }).catch(() => {});
+    }
+    return verdict === true;
+  }
+
+  /** Send text in chunks, then any images as m.image events. */
+  private async sendReply(
+    target: ReplyTarget,
+    text: string,
+    images?: Array<{ data: Buffer; name: string; mimeType?: string }>,
+    files?: FileAttachment[],
+  ): Promise<void> {
+    if (text) {
+      for (const chunk of renderMessage(text, this.capabilities)) {
+        await this.sendMessage(target, { msgtype: "m.text", body: chunk });
+      }
+    }
+    for (const [i, image] of (images ?? []).entries()) {
+      const name = image.name || `image-${i}.png`;
+      const mimeType = image.mimeType ?? guessImageType(name);
+      const uploaded = await this.api<{ content_uri: string }>(
+        "POST",
+        `/_matrix/media/v3/upload?filename=${encodeURIComponent(name)}`,
+        image.data,
+        undefined,
+        mimeType,
+      );
+      await this.sendMessage(target, {
+        msgtype: "m.image",
+        body: name,
+        url: uploaded.content_uri,
+        info: { mimetype: mimeType, size: image.data.length },
+      });
+    }
+    for (const [i, file] of (files ?? []).entries()) {
+      const name = file.name || `file-${i}`;
+      const mimeType = file.mimeType ?? "application/octet-stream";
+      const uploaded = await this.api<{ content_uri: string }>(
+        "POST",
+        `/_matrix/media/v3/upload?filename=${encodeURIComponent(name)}`,
+        file.data,
+        undefined,
+        mimeType,
+      );
+      await this.sendMessage(target, {
+        msgtype: "m.file",
+        body: name,
+        filename: name,
+        url: uploaded.content_uri,
+        info: { mimetype: mimeType, size: file.data.length },
+      });
+    }
+  }
+
+  /** Send an m.room.message, threaded when the target is; returns the event ID. */
+  private async sendMessage(target: ReplyTarget, content: Record<string, unknown>): Promise<string> {
+    const relates = target.threadRoot
+      ? {
+          "m.relates_to": {
+            rel_type: "m.thread",
+            event_id: target.threadRoot,
+            is_falling_back: true,
+            "m.in_reply_to": { event_id: target.inReplyTo ?? target.threadRoot },
+          },
+        }
+      : {};
+    const res = await this.api<{ event_id: string }>(
+      "PUT",
+      this.roomPath(target.roomId, `send/m.room.message/${randomUUID()}`),
+      { ...content, ...relates },
+    );
+    return res.event_id;
+  }
+
+  /** Replace a message's content (m.replace edit). */
+  private async editMessage(roomId: string, eventId: string, content: { msgtype: string; body: string }): Promise<void> {
+    await this.api("PUT", this.roomPath(roomId, `send/m.room.message/${randomUUID()}`), {
+      msgtype: content.msgtype,
+      body: `* ${content.body}`,
+      "m.new_content": content,
+      "m.relates_to": { rel_type: "m.replace", event_id: eventId },
+    });
+  }
+
+  private async setTyping(roomId: string, typing: boolean): Promise<void> {
+    await this.api("PUT", this.roomPath(roomId, `typing/${encodeURIComponent(this.userId)}`), {
+      typing,
+      timeout: TYPING_TIMEOUT_MS,
+    }).catch(() => {});
+  }
+
+  private async memberCount(roomId: string): Promise<number> {
+    const cached = this.memberCounts.get(roomId);
+    if (cached !== undefined) return cached;
+    try {
+      const res = await this.api<{ joined: Record<string, unknown> }>("GET", this.roomPath(roomId, "joined_members"));
+      const count = Object.keys(res.joined ?? {}).length;
+      this.memberCounts.set(roomId, count);
+      return count;
+    } catch {
+      return 2;
+    }
+  }
+
+  private async downloadImage(content: MessageContent): Promise<ImageAttachment | undefined> {
+    if (!content.url || (content.info?.size ?? 0) > MAX_IMAGE_DOWNLOAD_BYTES) return undefined;
+    try {
+      const data = await this.downloadMedia(content.url, MAX_IMAGE_DOWNLOAD_BYTES);
+      return {
+        data,
+        name: content.body || "image.png",
+        mimeType: content.info?.mimetype ?? "image/png",
+      };
+    } catch {
+      // Skip failed downloads silently
+      return undefined;
+    }
+  }
+
+  /** An m.file / m.audio / m.video attachment, saved to the session inbox. */
+  private async receiveFile(content: MessageContent, sessionKey: string): Promise<ReceivedFile[]> {
+    const url = content.url;
+    if (!this.inbox || !url) return [];
+    return this.inbox.receive(sessionKey, [
+      {
+        name: content.filename || content.body || "file",
+        mimeType: content.info?.mimetype,
+        size: content.info?.size,
+        download: (maxBytes) => this.downloadMedia(url, maxBytes),
+      },
+    ]);
+  }
+
+  /** Fetch an mxc:// URL from the homeserver's media repository, up to `maxBytes`. */
+  private async downloadMedia(mxcUrl: string, maxBytes: number): Promise<Buffer> {
+    const match = mxcUrl.match(/^mxc:\/\/([^/]+)\/(.+)$/);
+    if (!match) throw new Error(`Not an mxc:// URL: ${mxcUrl}`);
+    const [, server, mediaId] = match;
+    const mediaPath = `${encodeURIComponent(server)}/${encodeURIComponent(mediaId)}`;
+    // Authenticated media (v1.11+), then the legacy endpoint for older servers
+    let res = await this.fetchRaw("GET", `/_matrix/client/v1/media/download/${mediaPath}`);
+    if (res.status === 404 || res.status === 400) {
+      res = await this.fetchRaw("GET", `/_matrix/media/v3/download/${mediaPath}`);
+    }
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return readBody(res, maxBytes);
+  }
+
+  private isAllowed(userId: string): boolean {
+    const allowFrom = this.config.allowFrom;
+    return !allowFrom || allowFrom.length === 0 || allowFrom.includes(userId);
+  }
+
+  private roomPath(roomId: string, rest: string): string {
+    return `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/${rest}`;
+  }
+
+  private fetchRaw(method: string, path: string, body?: BodyInit, signal?: AbortSignal, contentType?: string): Promise<Response> {
+    return fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.accessToken}`,
+        ...(contentType ? { "Content-Type": contentType } : {}),
+      },
+      body,
+      signal: signal ?? AbortSignal.timeout(60_000),
+    });
+  }
+
+  /** Call a client-server API endpoint; waits out one 429 `retry_after_ms` before giving up. */
+  private async api<T = unknown>(
+    method: string,
+    path: string,
+    body?: Record<string, unknown> | Buffer,
+    signal?: AbortSignal,
+    contentType = "application/json",
+  ): Promise<T> {
+    const payload = Buffer.isBuffer(body) ? new Uint8Array(body) : body ? JSON.stringify(body) : undefined;
+    for (let attempt = 0; ; attempt++) {
+      const res = await this.fetchRaw(method, path, payload, signal, payload ? contentType : undefined);
+      const data = (await res.json().catch(() => ({}))) as T & { errcode?: string; error?: string; retry_after_ms?: number };
+      if (res.ok) return data;
+      if (res.status === 429 && attempt === 0) {
+        await new Promise((r) => setTimeout(r, data.retry_after_ms ?? 1000));
+        continue;
+      }
+      const message = `Matrix ${method} ${path.split("?")[0]} failed: ${res.status} ${data.errcode ?? ""} ${data.error ?? ""}`.trim();
+      // Not (or no longer) in the room: retrying won't help
+      if (data.errcode === "M_FORBIDDEN") throw new UndeliverableError(message);
+      throw new Error(message);
+    }
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function guessImageType(name: string): string {
+  const ext = name.split(".").pop()?.toLowerCase();
+  if (ext === "jpg" || ext === "jpeg") return "image/jpeg";
+  if (ext === "gif") return "image/gif";
+  if (ext === "webp") return "image/webp";
+  return "image/png";
+}
@@ -0,0 +1,140 @@
+import { randomUUID } from "node:crypto";
+import type { ImageAttachment } from "./base.js";
+
+/**
+ * OpenAI `/v1/chat/completions` wire format for the HTTP channel, so clients
+ * that only speak that protocol can use the whole agent as a "model".
+ *
+ * The agent keeps its own history per session, so only the last user message
+ * of `messages` is sent as the turn; earlier messages (and system prompts)
+ * are ignored. The session comes from `user`, else the `X-Session-Key`
+ * header, else the token's user ID — always within the token's own sessions.
+ *
+ * Tool activity is opt-in (`"tool_activity": true`) and travels in a
+ * `nano_openclaw` extension field that standard clients ignore.
+ */
+
+export const AGENT_MODEL_ID = "nano-openclaw";
+
+export interface ChatToolActivity {
+  name: string;
+  meta?: string;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface ChatCompletionTurn {
+  text: string;
+  images?: ImageAttachment[];
+  /** Session key hint from `user` (unsanitized); the channel falls back to header / token. */
+  user?: string;
+  model: string;
+  stream: boolean;
+  toolActivity: boolean;
+}
+
+interface ChatMessage {
+  role?: unknown;
+  content?: unknown;
+}
+
+interface ContentPart {
+  type?: unknown;
+  text?: unknown;
+  image_url?: { url?: unknown } | unknown;
+}
+
+/** Validate a chat completion request and pick out the turn to run. */
+export function parseChatCompletionRequest(body: Record<string, unknown>): ChatCompletionTurn | { error: string } {
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return { error: '"messages" must be a non-empty array' };
+  }
+  const messages = body.messages as ChatMessage[];
+  const last = [...messages].reverse().find((m) => m?.role === "user");
+  if (!last) return { error: "No user message in \"messages\"" };
+
+  let text: string;
+  const images: ImageAttachment[] = [];
+  if (typeof last.content === "string") {
+    text = last.content;
+  } else if (Array.isArray(last.content)) {
+    const texts: string[] = [];
+    for (const [i, part] of (last.content as ContentPart[]).entries()) {
+      if (part?.type === "text" && typeof part.text === "string") {
+        texts.push(part.text);
+      } else if (part?.type === "image_url") {
+        const url = (part.image_url as { url?: unknown } | undefined)?.url;
+        const image = typeof url === "string" ? decodeDataUrl(url, `image-${images.length + 1}`) : undefined;
+        if (!image) return { error: `content[${i}]: only base64 data: URLs are supported for images` };
+        images.push(image);
+      }
+    }
+    text = texts.join("\n");
+  } else {
+    return { error: "The last user message has no content" };
+  }
+  if (!text.trim() && images.length === 0) return { error: "The last user message is empty" };
+
+  return {
+    text,
+    images: images.length > 0 ? images : undefined,
+    user: typeof body.user === "string" && body.user.trim() ? body.user.trim() : undefined,
+    model: typeof body.model === "string" && body.model ? body.model : AGENT_MODEL_ID,
+    stream: body.stream === true,
+    toolActivity: body.tool_activity === true,
+  };
+}
+
+function decodeDataUrl(url: string, name: string): ImageAttachment | undefined {
+  const match = url.match(/^data:(image\/[\w.+-]+);base64,(.*)$/s);
+  if (!match) return undefined;
+  return { data: Buffer.from(match[2], "base64"), mimeType: match[1], name };
+}
+
+/** Response id + timestamp shared by every chunk of one completion. */
+export function newCompletionId(): { id: string; created: number } {
+  return { id: `chatcmpl-${randomUUID()}`, created: Math.floor(Date.now() / 1000) };
+}
+
+export function chatCompletionResponse(
+  ids: { id: string; created: number },
+  model: string,
+  text: string,
+  tools?: ChatToolActivity[],
+): Record<string, unknown> {
+  return {
+    id: ids.id,
+    object: "chat.completion",
+    created: ids.created,
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" }],
+    // Token counts live in the agent's usage ledger (/usage), not per request
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    ...(tools ? { nano_openclaw: { tools } } : {}),
+  };
+}
+
+export function chatCompletionChunk(
+  ids: { id: string; created: number },
+  model: string,
+  delta: { role?: "assistant"; content?: string },
+  finishReason: "stop" | null = null,
+  tool?: ChatToolActivity & { phase: "start" | "end" },
+): Record<string, unknown> {
+  return {
+    id: ids.id,
+    object: "chat.completion.chunk",
+    created: ids.created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+    ...(tool ? { nano_openclaw: { tool } } : {}),
+  };
+}
+
+/** `GET /v1/models` — the agent is the only model. */
+export function modelList(): Record<string, unknown> {
+  return {
+    object: "list",
+    data: [{ id: AGENT_MODEL_ID, object: "model", created: 0, owned_by: "nano-openclaw" }],
+  };
+}
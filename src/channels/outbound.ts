@@ -0,0 +1,229 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { UndeliverableError } from "./base.js";
+import type { ChannelCapabilities, OutboundMessage } from "./base.js";
+
+/**
+ * Persistent queue for proactive deliveries (scheduler, heartbeat, subagent
+ * results, webhook replies).
+ *
+ * Each message is written to `<agentDir>/outbound.json` before the first
+ * attempt and removed once delivered, so a platform outage or a restart
+ * doesn't lose it. Failed sends are retried with exponential backoff; after
+ * MAX_ATTEMPTS, or when the channel reports the chat as undeliverable, the
+ * message is dropped. Messages to the same chat go out in order: a later one
+ * waits while an earlier one is backing off.
+ */
+
+interface StoredAttachment {
+  name: string;
+  mimeType?: string;
+  /** Base64. */
+  data: string;
+}
+
+interface OutboundEntry {
+  id: string;
+  channel: string;
+  target: string;
+  text: string;
+  images?: Array<StoredAttachment & { mimeType: string }>;
+  files?: StoredAttachment[];
+  /** What produced the message, for logs ("cron", "heartbeat", "subagent", …). */
+  source: string;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: string;
+  lastError?: string;
+}
+
+/** Sends one message now; throws to have it retried. */
+export type OutboundSender = (channel: string, target: string, message: OutboundMessage) => Promise<void>;
+
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 30 * 60 * 1000; // 30 min
+
+export class OutboundQueue {
+  private entries: OutboundEntry[] = [];
+  private storePath?: string;
+  private sender: OutboundSender;
+  private started = false;
+  private draining?: Promise<void>;
+  private drainAgain = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  /** Writes are chained so two saves never share the tmp file. */
+  private saving: Promise<void> = Promise.resolve();
+
+  /** Without `agentDir` the queue still retries, but only in memory. */
+  constructor(sender: OutboundSender, agentDir?: string) {
+    this.sender = sender;
+    this.storePath = agentDir ? path.join(agentDir, "outbound.json") : undefined;
+  }
+
+  /** Load messages left over from the last run and start sending. */
+  async start(): Promise<void> {
+    if (this.storePath) {
+      try {
+        const saved = JSON.parse(await fs.readFile(this.storePath, "utf-8")) as OutboundEntry[];
+        // Keep anything enqueued before start (e.g. an early heartbeat) behind the older messages
+        this.entries = [...saved, ...this.entries];
+      } catch {
+        // No queue file yet
+      }
+    }
+    if (this.entries.length > 0) {
+      console.log(`[outbound] ${this.entries.length} pending deliver${this.entries.length === 1 ? "y" : "ies"}`);
+      await this.persist();
+    }
+    this.started = true;
+    await this.drain();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Queue a message and try to send it; resolves after the first attempt. */
+  async enqueue(channel: string, target: string, message: OutboundMessage, source: string): Promise<void> {
+    this.entries.push({
+      id: randomUUID(),
+      channel,
+      target,
+      text: message.text,
+      images: message.images?.map((img) => ({ name: img.name, mimeType: img.mimeType, data: img.data.toString("base64") })),
+      files: message.files?.map((f) => ({ name: f.name, mimeType: f.mimeType, data: f.data.toString("base64") })),
+      source,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: new Date().toISOString(),
+    });
+    // Before start() the saved queue isn't loaded yet — writing now would overwrite it
+    if (!this.started) return;
+    await this.persist();
+    await this.drain();
+  }
+
+  get pending(): number {
+    return this.entries.length;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      // A pass is running; make it go once more so the new entry isn't missed
+      this.drainAgain = true;
+      return this.draining;
+    }
+    this.draining = (async () => {
+      do {
+        this.drainAgain = false;
+        await this.sendDue();
+      } while (this.drainAgain && this.started);
+    })();
+    try {
+      await this.draining;
+    } finally {
+      this.draining = undefined;
+    }
+    this.schedule();
+  }
+
+  private async sendDue(): Promise<void> {
+    const now = Date.now();
+    /** Chats with an earlier message still waiting — later ones hold back. */
+    const blocked = new Set<string>();
+    for (const entry of [...this.entries]) {
+      if (!this.started) return;
+      const chat = `${entry.channel}\u0000${entry.target}`;
+      if (blocked.has(chat)) continue;
+      if (entry.nextAttemptAt > now) {
+        blocked.add(chat);
+        continue;
+      }
+      try {
+        await this.sender(entry.channel, entry.target, toMessage(entry));
+        this.remove(entry);
+        if (entry.attempts > 0) {
+          console.log(`[outbound] Delivered ${entry.source} message to ${entry.channel}:${entry.target} after ${entry.attempts + 1} attempts`);
+        }
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        entry.attempts++;
+        entry.lastError = error;
+        if (err instanceof UndeliverableError || entry.attempts >= MAX_ATTEMPTS) {
+          this.remove(entry);
+          console.error(
+            `[outbound] Dropped ${entry.source} message to ${entry.channel}:${entry.target} after ${entry.attempts} attempt(s): ${error}`,
+          );
+        } else {
+          const delay = Math.min(RETRY_BASE_MS * 2 ** (entry.attempts - 1), RETRY_MAX_MS);
+          entry.nextAttemptAt = Date.now() + delay;
+          blocked.add(chat);
+          console.warn(
+            `[outbound] ${entry.source} message to ${entry.channel}:${entry.target} failed (attempt ${entry.attempts}/${MAX_ATTEMPTS}), retrying in ${Math.round(delay / 1000)}s: ${error}`,
+          );
+        }
+      }
+      await this.persist();
+    }
+  }
+
+  /** Wake up when the next retry is due. */
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.started || this.entries.length === 0) return;
+    const next = Math.min(...this.entries.map((e) => e.nextAttemptAt));
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain().catch((err) => console.error("[outbound] Drain failed:", err));
+    }, Math.max(0, next - Date.now()));
+  }
+
+  private remove(entry: OutboundEntry): void {
+    this.entries = this.entries.filter((e) => e !== entry);
+  }
+
+  private persist(): Promise<void> {
+    const storePath = this.storePath;
+    if (!storePath) return Promise.resolve();
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(storePath), { recursive: true });
+        const tmp = storePath + ".tmp";
+        await fs.writeFile(tmp, JSON.stringify(this.entries, null, 2));
+        await fs.rename(tmp, storePath);
+      } catch (err) {
+        console.error(`[outbound] Failed to persist: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    });
+    return this.saving;
+  }
+}
+
+function toMessage(entry: OutboundEntry): OutboundMessage {
+  return {
+    text: entry.text,
+    images: entry.images?.map((img) => ({ name: img.name, mimeType: img.mimeType, data: Buffer.from(img.data, "base64") })),
+    files: entry.files?.map((f) => ({ name: f.name, mimeType: f.mimeType, data: Buffer.from(f.data, "base64") })),
+  };
+}
+
+/** Drop attachments a channel can't send, noting them in the text instead. */
+export function fitToCapabilities(message: OutboundMessage, capabilities: ChannelCapabilities): OutboundMessage {
+  const notes: string[] = [];
+  let { images, files } = message;
+  if (images?.length && !capabilities.images) {
+    notes.push(`(${images.length} image${images.length === 1 ? "" : "s"} can't be shown here)`);
+    images = undefined;
+  }
+  if (files?.length && !capabilities.files) {
+    notes.push(`(attachments not supported here: ${files.map((f) => f.name).join(", ")})`);
+    files = undefined;
+  }
+  if (notes.length === 0) return message;
+  return { text: [message.text, ...notes].filter(Boolean).join("\n\n"), images, files };
+}
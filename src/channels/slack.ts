@@ -1,22 +1,97 @@
+import { randomUUID } from "node:crypto";
 import { App } from "@slack/bolt";
+import type { BlockAction, ButtonAction } from "@slack/bolt";
 import type {
   Channel,
+  ChannelCapabilities,
   CommandHandler,
+  FileAttachment,
+  ImageAttachment,
   InboundMessage,
   MessageHandler,
+  OutboundMessage,
+  ReceivedFile,
   StreamCallbacks,
+  ToolApprovalRequest,
 } from "./base.js";
 import type { SlackConfig } from "../config.js";
+import { fetchFile } from "./inbox.js";
+import type { Inbox } from "./inbox.js";
+import { DraftStreamer } from "./draft.js";
+import { formatMarkdown, renderMessage } from "./format.js";
+
+/**
+ * Slack adapter over Socket Mode (Bolt).
+ *
+ * DMs are answered directly. In channels the bot answers when mentioned
+ * (`app_mention`) and keeps answering inside threads it has replied in; a
+ * mention outside a thread starts one under the message. Every thread is its
+ * own session and replies stay in it.
+ *
+ * Threaded chats are addressed as "<channelId>:<thread_ts>" (the inbound
+ * `channelId`), so deliveries to them — scheduled jobs, subagent results —
+ * land back in the thread.
+ */
+
+/** Min gap between chat.update calls for a streaming reply (Tier 3: ~50/min). */
+const DRAFT_EDIT_INTERVAL_MS = 1500;
+
+/** action_id of the Approve / Deny buttons on tool approval prompts. */
+const APPROVAL_ACTION_ID = /^tool_approval:(approve|deny)$/;
+
+const IMAGE_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/gif", "image/webp"]);
+const MAX_IMAGE_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+/** The fields of `message` / `app_mention` events the adapter reads. */
+interface SlackMessageEvent {
+  subtype?: string;
+  bot_id?: string;
+  user?: string;
+  channel: string;
+  channel_type?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+  files?: SlackFile[];
+}
+
+interface SlackFile {
+  name?: string;
+  mimetype?: string;
+  size?: number;
+  url_private_download?: string;
+}
+
+/** Where a reply goes: the channel, and the thread when there is one. */
+interface ReplyTarget {
+  channel: string;
+  threadTs?: string;
+}
+
+interface PendingApproval {
+  userId: string;
+  resolve: (approved: boolean) => void;
+}
 
 export class SlackChannel implements Channel {
-  readonly name = "slack";
+  readonly name: string;
+  readonly capabilities: ChannelCapabilities = { images: true, files: true, maxMessageLength: 3000, markdown: "slack" };
   private config: SlackConfig;
   private app: App;
   private handler?: MessageHandler;
   private commandHandler?: CommandHandler;
+  /** Open tool approval prompts, keyed by the id carried in the button value. */
+  private pendingApprovals = new Map<string, PendingApproval>();
+  private botUserId = "";
+  /** "<channelId>:<thread_ts>" of channel threads the bot has replied in — no mention needed there. */
+  private activeThreads = new Set<string>();
+  /** Where non-image files are saved; without it they're ignored. */
+  private inbox?: Inbox;
 
-  constructor(config: SlackConfig) {
+  constructor(config: SlackConfig, options: { inbox?: Inbox } = {}) {
     this.config = config;
+    this.inbox = options.inbox;
+    this.name = config.name ?? "slack";
     this.app = new App({
       token: config.botToken,
       appToken: config.appToken,
@@ -33,124 +108,340 @@ export class SlackChannel implements Channel {
   }
 
   async start(): Promise<void> {
-    // Handle regular messages
-    this.app.message(async ({ message, say, client }) => {
-      const msg = message as { subtype?: string; bot_id?: string; user: string; channel: string; channel_type?: string; text?: string };
-      if (msg.subtype) return; // skip edits, deletes, etc.
-      if (msg.bot_id) return; // skip bot messages
-      if (!this.handler) return;
-
-      const userId = msg.user;
-      const channelId = msg.channel;
-      const text = msg.text || "";
-
-      // Access control
-      if (this.config.allowFrom && this.config.allowFrom.length > 0) {
-        if (!this.config.allowFrom.includes(userId)) {
-          console.log(`[slack] Blocked message from ${userId} (not in allowFrom)`);
-          return;
+    const auth = await this.app.client.auth.test();
+    this.botUserId = auth.user_id ?? "";
+
+    // DMs, and channel messages inside threads the bot is part of
+    this.app.message(async ({ message }) => {
+      const msg = message as SlackMessageEvent;
+      const inChannel = msg.channel_type === "channel" || msg.channel_type === "group";
+      if (inChannel) {
+        // Mentions arrive again as app_mention — answer those there
+        if (this.mentionsBot(msg.text)) return;
+        if (!msg.thread_ts || !this.activeThreads.has(`${msg.channel}:${msg.thread_ts}`)) return;
+      }
+      await this.handleMessage(msg, inChannel);
+    });
+
+    // @mentions in channels
+    this.app.event("app_mention", async ({ event }) => {
+      await this.handleMessage(event as SlackMessageEvent, true);
+    });
+
+    // Approve / Deny clicks on tool approval prompts
+    this.app.action<BlockAction<ButtonAction>>({ action_id: APPROVAL_ACTION_ID }, async ({ ack, body, action, client }) => {
+      await ack();
+      const pending = this.pendingApprovals.get(action.value ?? "");
+      if (!pending) return;
+      const channelId = body.channel?.id;
+      if (body.user.id !== pending.userId) {
+        if (channelId) {
+          await client.chat
+            .postEphemeral({ channel: channelId, user: body.user.id, text: "Only the person who started this task can answer." })
+            .catch(() => {});
         }
+        return;
       }
+      pending.resolve(action.action_id.endsWith(":approve"));
+    });
 
-      const isGroup = msg.channel_type === "channel" || msg.channel_type === "group";
-      const sessionKey = `slack:${channelId}`;
+    await this.app.start();
+    console.log("[slack] Connected via Socket Mode");
+  }
+
+  private async handleMessage(msg: SlackMessageEvent, isGroup: boolean): Promise<void> {
+    // Skip edits, deletes, joins etc. — but not messages with files
+    if (msg.subtype && msg.subtype !== "file_share") return;
+    if (msg.bot_id || !msg.user) return;
+    if (!this.handler) return;
+
+    const userId = msg.user;
+    const channelId = msg.channel;
+
+    // Access control
+    if (this.config.allowFrom && this.config.allowFrom.length > 0) {
+      if (!this.config.allowFrom.includes(userId)) {
+        console.log(`[slack] Blocked message from ${userId} (not in allowFrom)`);
+        return;
+      }
+    }
+
+    // Channel mentions get a thread under the message; DMs only thread when the user does
+    const threadTs = msg.thread_ts ?? (isGroup ? msg.ts : undefined);
+    const target: ReplyTarget = { channel: channelId, threadTs };
+    const chatId = threadTs ? `${channelId}:${threadTs}` : channelId;
+    const sessionKey = threadTs ? `${this.name}:thread:${chatId}` : `${this.name}:${channelId}`;
+
+    let text = (msg.text || "").replace(new RegExp(`<@${this.botUserId}>`, "g"), "").trim();
+    const shared = msg.files ?? [];
+    const hasImages = shared.some((file) => IMAGE_MIME_TYPES.has(file.mimetype?.toLowerCase() ?? ""));
+    const hasFiles = Boolean(this.inbox) && shared.some((file) => !IMAGE_MIME_TYPES.has(file.mimetype?.toLowerCase() ?? ""));
+    if (!text && !hasImages && !hasFiles) return;
+    if (!text) text = hasImages ? "(see attached image)" : "(see attached file)";
+
+    // Resolve display name
+    let userName = userId;
+    try {
+      const info = await this.app.client.users.info({ user: userId });
+      userName = info.user?.real_name || info.user?.name || userId;
+    } catch { /* fallback to userId */ }
 
-      // Resolve display name
-      let userName = userId;
+    // Handle /commands (text starting with /)
+    if (text.startsWith("/") && this.commandHandler) {
+      const spaceIdx = text.indexOf(" ");
+      const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
+      const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
       try {
-        const info = await client.users.info({ user: userId });
-        userName = info.user?.real_name || info.user?.name || userId;
-      } catch { /* fallback to userId */ }
-
-      // Handle /commands (text starting with /)
-      if (text.startsWith("/") && this.commandHandler) {
-        const spaceIdx = text.indexOf(" ");
-        const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
-        const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
-        try {
-          const reply = await this.commandHandler(command, args, sessionKey, channelId);
-          if (reply !== null) {
-            await say(reply);
-            return;
-          }
-        } catch (err) {
-          console.error("[slack] Command error:", err);
-          await say("Error processing command.");
+        const reply = await this.commandHandler(command, args, sessionKey, chatId, userId, isGroup, userName);
+        if (reply !== null) {
+          await this.post(target, formatMarkdown(reply, "slack"));
           return;
         }
+      } catch (err) {
+        console.error("[slack] Command error:", err);
+        await this.post(target, "Error processing command.").catch(() => {});
+        return;
+      }
+    }
+
+    const inbound: InboundMessage = {
+      text,
+      sessionKey,
+      channelId: chatId,
+      userId,
+      userName,
+      isGroup,
+      // Downloaded only once ChannelManager has admitted the sender
+      loadAttachments:
+        hasImages || hasFiles
+          ? async () => ({ images: await this.downloadImages(shared), files: await this.receiveFiles(shared, sessionKey) })
+          : undefined,
+    };
+    if (threadTs && isGroup) this.activeThreads.add(chatId);
+
+    // Step-by-step execution log, edited in place
+    const steps: string[] = [];
+    const runningStepIdx = new Map<string, number>();
+    const startedAt = Date.now();
+    let statusTs: string | undefined;
+    const renderStatus = (header: string) => `${header}\n${steps.join("\n")}`.slice(0, this.capabilities.maxMessageLength);
+    const status = new DraftStreamer(async (content) => {
+      if (!statusTs) {
+        statusTs = await this.post(target, content);
+      } else {
+        await this.app.client.chat.update({ channel: channelId, ts: statusTs, text: content });
       }
+    }, DRAFT_EDIT_INTERVAL_MS);
+    const working = () => renderStatus(`:gear: *Working…* (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`);
 
-      if (!text) return;
+    // Streamed reply: post once, then chat.update as text arrives
+    let draftTs: string | undefined;
+    const draft = new DraftStreamer(async (text) => {
+      const formatted = formatMarkdown(text, "slack");
+      const max = this.capabilities.maxMessageLength;
+      const content = formatted.length > max ? `${formatted.slice(0, max - 1)}…` : formatted;
+      if (!draftTs) {
+        draftTs = await this.post(target, content);
+      } else {
+        await this.app.client.chat.update({ channel: channelId, ts: draftTs, text: content });
+      }
+    }, DRAFT_EDIT_INTERVAL_MS);
 
-      const inbound: InboundMessage = {
-        text,
-        sessionKey,
-        channelId,
-        userId,
-        userName,
-        isGroup,
-      };
+    const stream: StreamCallbacks = {
+      onThinking: () => {
+        if (steps.length === 0) {
+          steps.push(":thought_balloon: Thinking…");
+          status.update(working());
+        }
+      },
+      onToolStart: (toolName, meta) => {
+        // Replace "Thinking…" with the first step
+        if (steps.length === 1 && runningStepIdx.size === 0 && steps[0].includes("Thinking")) steps.pop();
+        steps.push(`${steps.length + 1}. :hourglass_flowing_sand: *${toolName}*${meta ? ` \`${meta}\`` : ""}`);
+        runningStepIdx.set(toolName, steps.length - 1);
+        status.update(working());
+      },
+      onToolEnd: (toolName, info) => {
+        const idx = runningStepIdx.get(toolName);
+        if (idx !== undefined) {
+          const duration = info.durationMs < 1000 ? `${info.durationMs}ms` : `${(info.durationMs / 1000).toFixed(1)}s`;
+          steps[idx] = info.error
+            ? `${idx + 1}. :x: *${toolName}* failed: ${info.error.slice(0, 120)} (${duration})`
+            : `${idx + 1}. :white_check_mark: *${toolName}*${info.preview ? ` — ${info.preview}` : ""} (${duration})`;
+          runningStepIdx.delete(toolName);
+        }
+        status.update(working());
+      },
+      onTextDelta: (_delta, text) => {
+        draft.update(text);
+      },
+      onApprovalRequest: (request) => this.requestApproval(target, request),
+    };
 
-      const noopStream: StreamCallbacks = {};
+    try {
+      let response: Awaited<ReturnType<MessageHandler>>;
       try {
-        const response = await this.handler(inbound, noopStream);
-        if (response?.text) {
-          // Split long messages (Slack limit is 40,000 chars but best to chunk at ~3000)
-          const chunks = splitText(response.text, 3000);
-          for (const chunk of chunks) {
-            await say(chunk);
+        response = await this.handler(inbound, stream);
+      } finally {
+        await Promise.all([draft.stop(), status.stop()]);
+      }
+
+      // Finalize the execution log — keep it as context
+      const toolSteps = steps.length - (steps[0]?.includes("Thinking") ? 1 : 0);
+      if (statusTs && toolSteps > 0) {
+        const elapsed = ((Date.now() - startedAt) / 1000).toFixed(1);
+        const done = renderStatus(`:white_check_mark: *Done* (${elapsed}s, ${toolSteps} step${toolSteps !== 1 ? "s" : ""})`);
+        await this.app.client.chat.update({ channel: channelId, ts: statusTs, text: done }).catch(() => {});
+      } else if (statusTs) {
+        await this.app.client.chat.delete({ channel: channelId, ts: statusTs }).catch(() => {});
+      }
+
+      if (response?.text) {
+        const chunks = renderMessage(response.text, this.capabilities);
+        for (let i = 0; i < chunks.length; i++) {
+          if (i === 0 && draftTs) {
+            await this.app.client.chat.update({ channel: channelId, ts: draftTs, text: chunks[i] });
+          } else {
+            await this.post(target, chunks[i]);
           }
         }
-      } catch (err) {
-        console.error("[slack] Error processing message:", err);
-        try {
-          await say("Sorry, something went wrong.");
-        } catch { /* ignore */ }
+      } else if (draftTs) {
+        await this.app.client.chat.delete({ channel: channelId, ts: draftTs }).catch(() => {});
       }
+      if (response?.images?.length) {
+        await this.upload(target, response.images).catch((err) => {
+          console.error("[slack] Failed to upload images:", err);
+        });
+      }
+    } catch (err) {
+      console.error("[slack] Error processing message:", err);
+      await this.post(target, "Sorry, something went wrong.").catch(() => {});
+    }
+  }
+
+  /**
+   * Post an interactive Approve / Deny prompt and wait for the requesting
+   * user to click. The prompt is replaced by the verdict once answered.
+   */
+  private async requestApproval(target: ReplyTarget, request: ToolApprovalRequest): Promise<boolean> {
+    const id = randomUUID();
+    const question = `:closed_lock_with_key: *${request.toolName}* needs your approval:\n\`\`\`${request.summary}\`\`\``;
+    const posted = await this.app.client.chat.postMessage({
+      channel: target.channel,
+      thread_ts: target.threadTs,
+      text: question,
+      blocks: [
+        { type: "section", text: { type: "mrkdwn", text: question } },
+        {
+          type: "actions",
+          elements: [
+            { type: "button", action_id: "tool_approval:approve", value: id, style: "primary", text: { type: "plain_text", text: "Approve" } },
+            { type: "button", action_id: "tool_approval:deny", value: id, style: "danger", text: { type: "plain_text", text: "Deny" } },
+          ],
+        },
+      ],
     });
 
-    await this.app.start();
-    console.log("[slack] Connected via Socket Mode");
+    const verdict = await new Promise<boolean | "expired">((resolve) => {
+      const onAbort = () => resolve("expired");
+      request.signal.addEventListener("abort", onAbort, { once: true });
+      this.pendingApprovals.set(id, {
+        userId: request.userId,
+        resolve: (approved) => {
+          request.signal.removeEventListener("abort", onAbort);
+          resolve(approved);
+        },
+      });
+    });
+    this.pendingApprovals.delete(id);
+
+    if (posted.ts) {
+      const text =
+        verdict === "expired"
+          ? `:hourglass: Approval expired: *${request.toolName}* was not run.`
+          : `${verdict ? ":white_check_mark: Approved" : ":no_entry: Denied"}: *${request.toolName}* \`${request.summary.slice(0, 200)}\``;
+      await this.app.client.chat.update({ channel: target.channel, ts: posted.ts, text, blocks: [] }).catch(() => {});
+    }
+    return verdict === true;
   }
 
-  /** Send a message to a specific channel (used by scheduler for cron delivery). */
-  async sendToChannel(channelId: string, text: string): Promise<void> {
-    try {
-      const chunks = splitText(text, 3000);
-      for (const chunk of chunks) {
-        await this.app.client.chat.postMessage({
-          channel: channelId,
-          text: chunk,
-        });
+  /** Send a message to a channel or thread (scheduler, heartbeat and subagent deliveries). */
+  async send(channelId: string, message: OutboundMessage): Promise<void> {
+    const [channel, threadTs] = channelId.split(":");
+    const target: ReplyTarget = { channel, threadTs };
+    if (message.text) {
+      for (const chunk of renderMessage(message.text, this.capabilities)) {
+        await this.post(target, chunk);
       }
-    } catch (err) {
-      console.error(`[slack] Failed to send to ${channelId}:`, err);
     }
+    await this.upload(target, [...(message.images ?? []), ...(message.files ?? [])]);
   }
 
-  async stop(): Promise<void> {
-    await this.app.stop();
+  /** "slack:thread:<channel>:<ts>" → "<channel>:<ts>", the thread's `send` target. */
+  deliveryTarget(sessionKey: string): string | undefined {
+    const prefix = `${this.name}:thread:`;
+    return sessionKey.startsWith(prefix) ? sessionKey.slice(prefix.length) : undefined;
   }
-}
 
-function splitText(text: string, maxLength: number): string[] {
-  if (text.length <= maxLength) return [text];
-  const chunks: string[] = [];
-  let remaining = text;
-  while (remaining.length > 0) {
-    if (remaining.length <= maxLength) {
-      chunks.push(remaining);
-      break;
-    }
-    let splitIdx = remaining.lastIndexOf("\n", maxLength);
-    if (splitIdx === -1 || splitIdx < maxLength / 2) {
-      splitIdx = remaining.lastIndexOf(" ", maxLength);
-    }
-    if (splitIdx === -1 || splitIdx < maxLength / 2) {
-      splitIdx = maxLength;
+  /** Post one message (in the thread, if any); returns its ts. */
+  private async post(target: ReplyTarget, text: string): Promise<string | undefined> {
+    const posted = await this.app.client.chat.postMessage({ channel: target.channel, thread_ts: target.threadTs, text });
+    return posted.ts;
+  }
+
+  /** Upload attachments in one files.uploadV2 call (needs the files:write scope). */
+  private async upload(target: ReplyTarget, attachments: FileAttachment[]): Promise<void> {
+    if (attachments.length === 0) return;
+    await this.app.client.files.uploadV2({
+      channel_id: target.channel,
+      thread_ts: target.threadTs,
+      file_uploads: attachments.map((a, i) => ({ file: a.data, filename: a.name || `attachment-${i}` })),
+    });
+  }
+
+  /** Fetch image files shared with a message (needs the files:read scope). */
+  private async downloadImages(files: SlackFile[]): Promise<ImageAttachment[]> {
+    const images: ImageAttachment[] = [];
+    for (const file of files) {
+      const mimeType = file.mimetype?.toLowerCase();
+      if (!mimeType || !IMAGE_MIME_TYPES.has(mimeType) || !file.url_private_download) continue;
+      if ((file.size ?? 0) > MAX_IMAGE_DOWNLOAD_BYTES) continue;
+      try {
+        const res = await fetch(file.url_private_download, {
+          headers: { Authorization: `Bearer ${this.config.botToken}` },
+          signal: AbortSignal.timeout(15_000),
+        });
+        if (!res.ok) continue;
+        const data = Buffer.from(await res.arrayBuffer());
+        if (data.length > MAX_IMAGE_DOWNLOAD_BYTES) continue;
+        images.push({ data, name: file.name ?? `image-${images.length}.png`, mimeType });
+      } catch {
+        // Skip failed downloads silently
+      }
     }
-    chunks.push(remaining.slice(0, splitIdx));
-    remaining = remaining.slice(splitIdx).trimStart();
+    return images;
+  }
+
+  /** Save non-image files to the session inbox (needs the files:read scope). */
+  private async receiveFiles(files: SlackFile[], sessionKey: string): Promise<ReceivedFile[]> {
+    if (!this.inbox) return [];
+    const candidates = files
+      .filter((file) => !IMAGE_MIME_TYPES.has(file.mimetype?.toLowerCase() ?? "") && file.url_private_download)
+      .map((file) => ({
+        name: file.name ?? "file",
+        mimeType: file.mimetype,
+        size: file.size,
+        download: (maxBytes: number) =>
+          fetchFile(file.url_private_download!, maxBytes, { Authorization: `Bearer ${this.config.botToken}` }),
+      }));
+    return candidates.length > 0 ? this.inbox.receive(sessionKey, candidates) : [];
+  }
+
+  private mentionsBot(text?: string): boolean {
+    return Boolean(this.botUserId && text?.includes(`<@${this.botUserId}>`));
+  }
+
+  async stop(): Promise<void> {
+    await this.app.stop();
   }
-  return chunks;
 }
@@ -0,0 +1,435 @@
+import { randomUUID } from "node:crypto";
+import { UndeliverableError } from "./base.js";
+import type {
+  Channel,
+  ChannelCapabilities,
+  CommandHandler,
+  FileAttachment,
+  ImageAttachment,
+  InboundMessage,
+  MessageHandler,
+  OutboundMessage,
+  ReceivedFile,
+  StreamCallbacks,
+  ToolApprovalRequest,
+} from "./base.js";
+import type { TelegramConfig } from "../config.js";
+import { renderMessage } from "./format.js";
+import { fetchFile } from "./inbox.js";
+import type { Inbox } from "./inbox.js";
+
+/**
+ * Telegram Bot API adapter using long polling (`getUpdates`), so no public
+ * webhook is needed. Talks to the HTTP API directly with fetch.
+ *
+ * DMs always reach the agent; in groups the bot answers only when @mentioned
+ * or when someone replies to one of its messages. Photos (and images sent as
+ * files) are downloaded into ImageAttachments; other documents go to the
+ * session inbox.
+ */
+
+const API_BASE = "https://api.telegram.org";
+/** Telegram's message length limit. */
+const MAX_MESSAGE_CHARS = 4096;
+/** Long-poll wait per getUpdates call (seconds). */
+const POLL_TIMEOUT_S = 30;
+const POLL_RETRY_MS = 5_000;
+/** "typing…" lasts ~5s; refresh before it lapses. */
+const TYPING_INTERVAL_MS = 4_500;
+const MAX_IMAGE_DOWNLOAD_BYTES = 20 * 1024 * 1024; // Bot API download limit
+const APPROVAL_CALLBACK = /^tool_approval:(approve|deny):(.+)$/;
+
+interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+}
+
+interface TelegramMessage {
+  message_id: number;
+  from?: TelegramUser;
+  chat: { id: number; type: "private" | "group" | "supergroup" | "channel"; title?: string };
+  text?: string;
+  caption?: string;
+  entities?: Array<{ type: string; offset: number; length: number }>;
+  caption_entities?: Array<{ type: string; offset: number; length: number }>;
+  photo?: Array<{ file_id: string; file_size?: number; width: number; height: number }>;
+  document?: { file_id: string; file_name?: string; mime_type?: string; file_size?: number };
+  reply_to_message?: TelegramMessage;
+}
+
+interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  data?: string;
+  message?: TelegramMessage;
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+interface PendingApproval {
+  userId: string;
+  resolve: (approved: boolean) => void;
+}
+
+export class TelegramChannel implements Channel {
+  readonly name: string;
+  readonly capabilities: ChannelCapabilities = {
+    images: true,
+    files: true,
+    maxMessageLength: MAX_MESSAGE_CHARS,
+    markdown: "plain",
+  };
+  private config: TelegramConfig;
+  private handler?: MessageHandler;
+  private commandHandler?: CommandHandler;
+  private bot?: TelegramUser;
+  private offset = 0;
+  private polling?: AbortController;
+  private pollLoop?: Promise<void>;
+  /** Open tool approval prompts, keyed by the id carried in the button data. */
+  private pendingApprovals = new Map<string, PendingApproval>();
+  /** Where non-image documents are saved; without it they're ignored. */
+  private inbox?: Inbox;
+
+  constructor(config: TelegramConfig, options: { inbox?: Inbox } = {}) {
+    this.config = config;
+    this.inbox = options.inbox;
+    this.name = config.name ?? "telegram";
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.handler = handler;
+  }
+
+  onCommand(handler: CommandHandler): void {
+    this.commandHandler = handler;
+  }
+
+  async start(): Promise<void> {
+    this.bot = await this.api<TelegramUser>("getMe");
+    // getUpdates is refused while a webhook is set
+    await this.api("deleteWebhook");
+    console.log(`[telegram] Logged in as @${this.bot.username}`);
+
+    this.polling = new AbortController();
+    this.pollLoop = this.poll(this.polling.signal);
+  }
+
+  async stop(): Promise<void> {
+    this.polling?.abort();
+    await this.pollLoop;
+    for (const pending of this.pendingApprovals.values()) pending.resolve(false);
+  }
+
+  /** Send a message to a chat (scheduler, heartbeat and subagent deliveries). */
+  async send(chatId: string, message: OutboundMessage): Promise<void> {
+    await this.sendReply(chatId, message.text, message.images, undefined, message.files);
+  }
+
+  private async poll(signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        const updates = await this.api<TelegramUpdate[]>(
+          "getUpdates",
+          { offset: this.offset, timeout: POLL_TIMEOUT_S, allowed_updates: ["message", "callback_query"] },
+          signal,
+        );
+        for (const update of updates) {
+          this.offset = update.update_id + 1;
+          // Turns run concurrently; the agent queues per session
+          if (update.message) {
+            this.handleMessage(update.message).catch((err) => {
+              console.error("[telegram] Error handling message:", err);
+            });
+          } else if (update.callback_query) {
+            this.handleCallback(update.callback_query).catch(() => {});
+          }
+        }
+      } catch (err) {
+        if (signal.aborted) return;
+        console.warn(`[telegram] Polling failed: ${err instanceof Error ? err.message : String(err)} — retrying in ${POLL_RETRY_MS}ms`);
+        await new Promise((r) => setTimeout(r, POLL_RETRY_MS));
+      }
+    }
+  }
+
+  private async handleMessage(message: TelegramMessage): Promise<void> {
+    const from = message.from;
+    if (!from || from.is_bot || !this.handler || !this.bot) return;
+    if (message.chat.type === "channel") return;
+
+    const isGroup = message.chat.type !== "private";
+    const chatId = String(message.chat.id);
+    const userId = String(from.id);
+    const raw = message.text ?? message.caption ?? "";
+    const entities = message.entities ?? message.caption_entities ?? [];
+
+    // In groups, only respond when mentioned or replied to
+    const botUsername = this.bot.username ?? "";
+    const mentioned = entities.some(
+      (e) =>
+        (e.type === "mention" || e.type === "bot_command") &&
+        raw.slice(e.offset, e.offset + e.length).toLowerCase().includes(`@${botUsername.toLowerCase()}`),
+    );
+    const repliedToBot = message.reply_to_message?.from?.id === this.bot.id;
+    const isCommand = raw.startsWith("/") && !/^\/\S*@/.test(raw);
+    if (isGroup && !mentioned && !repliedToBot && !isCommand) return;
+
+    // Access control
+    if (this.config.allowFrom && this.config.allowFrom.length > 0) {
+      const allowed = this.config.allowFrom.some(
+        (entry) => entry === userId || (from.username && entry.replace(/^@/, "").toLowerCase() === from.username.toLowerCase()),
+      );
+      if (!allowed) {
+        console.log(`[telegram] Blocked message from ${userId} (not in allowFrom)`);
+        return;
+      }
+    }
+
+    // Strip the bot mention ("/cmd@bot" → "/cmd", "@bot hi" → "hi")
+    let text = raw.replace(new RegExp(`@${escapeRegExp(botUsername)}\\b`, "gi"), "").trim();
+
+    const sessionKey = isGroup ? `${this.name}:group:${chatId}` : `${this.name}:dm:${userId}`;
+    const hasImages = Boolean(message.photo?.length || message.document?.mime_type?.startsWith("image/"));
+    const hasFiles = Boolean(this.inbox && message.document && !message.document.mime_type?.startsWith("image/"));
+    if (!text && !hasImages && !hasFiles) return;
+    if (!text) text = hasImages ? "(see attached image)" : "(see attached file)";
+    const replyTo = isGroup ? message.message_id : undefined;
+    const userName = [from.first_name, from.last_name].filter(Boolean).join(" ") || from.username || userId;
+
+    // Handle /commands before dispatching to agent
+    if (text.startsWith("/") && this.commandHandler) {
+      const spaceIdx = text.indexOf(" ");
+      const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
+      const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
+      try {
+        const reply = await this.commandHandler(command, args, sessionKey, chatId, userId, isGroup, userName);
+        if (reply !== null) {
+          await this.sendReply(chatId, reply, undefined, replyTo);
+          return;
+        }
+      } catch (err) {
+        console.error("[telegram] Command error:", err);
+        await this.sendReply(chatId, "Error processing command.", undefined, replyTo).catch(() => {});
+        return;
+      }
+    }
+
+    const inbound: InboundMessage = {
+      text,
+      sessionKey,
+      channelId: chatId,
+      userId,
+      userName,
+      isGroup,
+      // Downloaded only once ChannelManager has admitted the sender
+      loadAttachments:
+        hasImages || hasFiles
+          ? async () => ({ images: await this.downloadImages(message), files: await this.receiveFiles(message, sessionKey) })
+          : undefined,
+    };
+
+    const sendTyping = () => this.api("sendChatAction", { chat_id: chatId, action: "typing" }).catch(() => {});
+    void sendTyping();
+    const typingInterval = setInterval(sendTyping, TYPING_INTERVAL_MS);
+    const stream: StreamCallbacks = {
+      onApprovalRequest: (request) => this.requestApproval(chatId, request, replyTo),
+    };
+
+    try {
+      let response: Awaited<ReturnType<MessageHandler>>;
+      try {
+        response = await this.handler(inbound, stream);
+      } finally {
+        clearInterval(typingInterval);
+      }
+      if (response?.text) {
+        await this.sendReply(chatId, response.text, response.images, replyTo);
+      }
+    } catch (err) {
+      console.error("[telegram] Error processing message:", err);
+      await this.sendReply(chatId, "Sorry, something went wrong.", undefined, replyTo).catch(() => {});
+    }
+  }
+
+  private async handleCallback(query: TelegramCallbackQuery): Promise<void> {
+    const match = query.data?.match(APPROVAL_CALLBACK);
+    const pending = match ? this.pendingApprovals.get(match[2]) : undefined;
+    if (!match || !pending) {
+      await this.api("answerCallbackQuery", { callback_query_id: query.id });
+      return;
+    }
+    if (String(query.from.id) !== pending.userId) {
+      await this.api("answerCallbackQuery", {
+        callback_query_id: query.id,
+        text: "Only the person who started this task can answer.",
+        show_alert: true,
+      });
+      return;
+    }
+    await this.api("answerCallbackQuery", { callback_query_id: query.id });
+    pending.resolve(match[1] === "approve");
+  }
+
+  /**
+   * Post Approve / Deny inline buttons and wait for the requesting user to
+   * press one. The prompt is replaced by the verdict once answered.
+   */
+  private async requestApproval(chatId: string, request: ToolApprovalRequest, replyTo?: number): Promise<boolean> {
+    const id = randomUUID().slice(0, 16);
+    const prompt = await this.api<TelegramMessage>("sendMessage", {
+      chat_id: chatId,
+      text: `🔐 ${request.toolName} needs your approval:\n\n${request.summary}`.slice(0, MAX_MESSAGE_CHARS),
+      reply_parameters: replyTo ? { message_id: replyTo, allow_sending_without_reply: true } : undefined,
+      reply_markup: {
+        inline_keyboard: [
+          [
+            { text: "Approve", callback_data: `tool_approval:approve:${id}` },
+            { text: "Deny", callback_data: `tool_approval:deny:${id}` },
+          ],
+        ],
+      },
+    });
+
+    const verdict = await new Promise<boolean | "expired">((resolve) => {
+      const onAbort = () => resolve("expired");
+      request.signal.addEventListener("abort", onAbort, { once: true });
+      this.pendingApprovals.set(id, {
+        userId: request.userId,
+        resolve: (approved) => {
+          request.signal.removeEventListener("abort", onAbort);
+          resolve(approved);
+        },
+      });
+    });
+    this.pendingApprovals.delete(id);
+
+    const text =
+      verdict === "expired"
+        ? `⌛ Approval expired: ${request.toolName} was not run.`
+        : `${verdict ? "✅ Approved" : "⛔ Denied"}: ${request.toolName} ${request.summary.slice(0, 200)}`;
+    await this.api("editMessageText", { chat_id: chatId, message_id: prompt.message_id, text }).catch(() => {});
+    return verdict === true;
+  }
+
+  /** Send text in ≤4096-char chunks, then any images as photos and files as documents. */
+  private async sendReply(
+    chatId: string,
+    text: string,
+    images?: Array<{ data: Buffer; name: string }>,
+    replyTo?: number,
+    files?: FileAttachment[],
+  ): Promise<void> {
+    const chunks = text ? renderMessage(text, this.capabilities) : [];
+    for (let i = 0; i < chunks.length; i++) {
+      await this.api("sendMessage", {
+        chat_id: chatId,
+        text: chunks[i],
+        reply_parameters: i === 0 && replyTo ? { message_id: replyTo, allow_sending_without_reply: true } : undefined,
+      });
+    }
+    for (const [i, image] of (images ?? []).entries()) {
+      const form = new FormData();
+      form.append("chat_id", chatId);
+      form.append("photo", new Blob([new Uint8Array(image.data)]), image.name || `image-${i}.png`);
+      await this.api("sendPhoto", form);
+    }
+    for (const [i, file] of (files ?? []).entries()) {
+      const form = new FormData();
+      form.append("chat_id", chatId);
+      form.append("document", new Blob([new Uint8Array(file.data)]), file.name || `file-${i}`);
+      await this.api("sendDocument", form);
+    }
+  }
+
+  /** Largest photo size plus image documents, within the Bot API download limit. */
+  private async downloadImages(message: TelegramMessage): Promise<ImageAttachment[]> {
+    const files: Array<{ fileId: string; name: string; mimeType: string }> = [];
+    const photo = message.photo?.reduce((best, p) => (p.width * p.height > best.width * best.height ? p : best));
+    if (photo && (photo.file_size ?? 0) <= MAX_IMAGE_DOWNLOAD_BYTES) {
+      files.push({ fileId: photo.file_id, name: `photo-${message.message_id}.jpg`, mimeType: "image/jpeg" });
+    }
+    const doc = message.document;
+    if (doc?.mime_type?.startsWith("image/") && (doc.file_size ?? 0) <= MAX_IMAGE_DOWNLOAD_BYTES) {
+      files.push({ fileId: doc.file_id, name: doc.file_name ?? `image-${message.message_id}`, mimeType: doc.mime_type });
+    }
+
+    const images: ImageAttachment[] = [];
+    for (const file of files) {
+      try {
+        const { file_path } = await this.api<{ file_path?: string }>("getFile", { file_id: file.fileId });
+        if (!file_path) continue;
+        const res = await fetch(`${API_BASE}/file/bot${this.config.token}/${file_path}`, {
+          signal: AbortSignal.timeout(15_000),
+        });
+        if (!res.ok) continue;
+        images.push({ data: Buffer.from(await res.arrayBuffer()), name: file.name, mimeType: file.mimeType });
+      } catch {
+        // Skip failed downloads silently
+      }
+    }
+    return images;
+  }
+
+  /** Non-image documents, saved to the session inbox. */
+  private async receiveFiles(message: TelegramMessage, sessionKey: string): Promise<ReceivedFile[]> {
+    const doc = message.document;
+    if (!this.inbox || !doc || doc.mime_type?.startsWith("image/")) return [];
+    return this.inbox.receive(sessionKey, [
+      {
+        name: doc.file_name ?? `file-${message.message_id}`,
+        mimeType: doc.mime_type,
+        size: doc.file_size,
+        download: async (maxBytes) => {
+          const { file_path } = await this.api<{ file_path?: string }>("getFile", { file_id: doc.file_id });
+          if (!file_path) throw new Error("no file path (files over 20 MB can't be downloaded by bots)");
+          return fetchFile(`${API_BASE}/file/bot${this.config.token}/${file_path}`, maxBytes);
+        },
+      },
+    ]);
+  }
+
+  /** Call a Bot API method; waits out one 429 `retry_after` before giving up. */
+  private async api<T = unknown>(
+    method: string,
+    params?: Record<string, unknown> | FormData,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const isForm = params instanceof FormData;
+      const res = await fetch(`${API_BASE}/bot${this.config.token}/${method}`, {
+        method: "POST",
+        headers: isForm ? undefined : { "Content-Type": "application/json" },
+        body: isForm ? params : JSON.stringify(params ?? {}),
+        signal: signal ?? AbortSignal.timeout(60_000),
+      });
+      const data = (await res.json()) as {
+        ok: boolean;
+        result?: T;
+        description?: string;
+        parameters?: { retry_after?: number };
+      };
+      if (data.ok) return data.result as T;
+      const retryAfter = data.parameters?.retry_after;
+      if (res.status === 429 && retryAfter && attempt === 0) {
+        await new Promise((r) => setTimeout(r, retryAfter * 1000));
+        continue;
+      }
+      const message = `Telegram ${method} failed: ${res.status} ${data.description ?? ""}`.trim();
+      // Blocked by the user / chat gone: retrying won't help
+      if (res.status === 403 || /chat not found/i.test(data.description ?? "")) throw new UndeliverableError(message);
+      throw new Error(message);
+    }
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -9,24 +9,58 @@ import {
 } from "@whiskeysockets/baileys";
 import type {
   Channel,
+  ChannelCapabilities,
   CommandHandler,
-  ImageAttachment,
+  LoadedAttachments,
   InboundMessage,
   MessageHandler,
+  OutboundMessage,
+  ReceivedFile,
   StreamCallbacks,
+  ToolApprovalRequest,
 } from "./base.js";
 import type { WhatsAppConfig } from "../config.js";
+import { readStream, type Inbox } from "./inbox.js";
+import type { SpeechToText } from "../media/transcribe.js";
+import { renderMessage } from "./format.js";
 import fs from "node:fs/promises";
 
+/** Keep "composing…" showing while a turn runs (WhatsApp clears it after ~25s). */
+const PRESENCE_REFRESH_MS = 10_000;
+const MAX_QUOTE_CHARS = 500;
+
+const APPROVE_REPLY = /^\s*(yes|y|approve)\s*[.!]?\s*$/i;
+const DENY_REPLY = /^\s*(no|n|deny)\s*[.!]?\s*$/i;
+
+interface PendingApproval {
+  userId: string;
+  resolve: (approved: boolean) => void;
+}
+
+export interface WhatsAppChannelOptions {
+  /** Transcribes voice notes; without it they're answered with a notice. */
+  speechToText?: SpeechToText;
+  /** Where received documents are saved; without it they're ignored. */
+  inbox?: Inbox;
+}
+
 export class WhatsAppChannel implements Channel {
-  readonly name = "whatsapp";
+  readonly name: string;
+  readonly capabilities: ChannelCapabilities = { images: true, files: true, maxMessageLength: 65536, markdown: "whatsapp" };
   private config: WhatsAppConfig;
   private sock?: WASocket;
   private handler?: MessageHandler;
   private commandHandler?: CommandHandler;
+  /** Tool approval prompts awaiting a YES / NO reply, oldest first, per chat JID. */
+  private pendingApprovals = new Map<string, PendingApproval[]>();
+  private speechToText?: SpeechToText;
+  private inbox?: Inbox;
 
-  constructor(config: WhatsAppConfig) {
+  constructor(config: WhatsAppConfig, options: WhatsAppChannelOptions = {}) {
     this.config = config;
+    this.name = config.name ?? "whatsapp";
+    this.speechToText = options.speechToText;
+    this.inbox = options.inbox;
   }
 
   onMessage(handler: MessageHandler): void {
@@ -107,40 +141,34 @@ export class WhatsAppChannel implements Channel {
     }
 
     const isGroup = jid.endsWith("@g.us");
-    const sessionKey = `whatsapp:${jid}`;
+    const sessionKey = `${this.name}:${jid}`;
     const senderId = msg.key.participant || jid;
 
+    const content = msg.message;
+    const documentMsg = content.documentMessage ?? content.documentWithCaptionMessage?.message?.documentMessage;
+    const audioMsg = content.audioMessage;
+    const imageMsg = content.imageMessage;
+
     // Extract text from various message types
     let text =
-      msg.message.conversation ||
-      msg.message.extendedTextMessage?.text ||
-      msg.message.imageMessage?.caption ||
+      content.conversation ||
+      content.extendedTextMessage?.text ||
+      imageMsg?.caption ||
+      documentMsg?.caption ||
       "";
 
-    // Download image attachments
-    const images: ImageAttachment[] = [];
-    const imageMsg = msg.message.imageMessage;
-    if (imageMsg) {
-      try {
-        const stream = await (await import("@whiskeysockets/baileys")).downloadMediaMessage(
-          msg,
-          "buffer",
-          {},
-        );
-        if (Buffer.isBuffer(stream)) {
-          images.push({
-            data: stream,
-            name: "image.jpg",
-            mimeType: imageMsg.mimetype || "image/jpeg",
-          });
-        }
-      } catch (err) {
-        console.warn("[whatsapp] Failed to download image:", err);
-      }
+    // A YES / NO from the requesting user answers the oldest open tool approval
+    const pending = this.pendingApprovals.get(jid);
+    const approval = pending?.find((p) => p.userId === senderId.replace(/@.*$/, ""));
+    if (approval && (APPROVE_REPLY.test(text) || DENY_REPLY.test(text))) {
+      approval.resolve(APPROVE_REPLY.test(text));
+      return;
     }
 
-    if (!text && images.length === 0) return;
-    if (!text && images.length > 0) text = "(see attached image)";
+    if (!text && !imageMsg && !audioMsg && !documentMsg) return;
+    if (!text && !audioMsg) text = imageMsg ? "(see attached image)" : "(see attached file)";
+    const userId = senderId.replace(/@.*$/, "");
+    const userName = msg.pushName || userId;
 
     // Handle /commands
     if (text.startsWith("/") && this.commandHandler) {
@@ -148,9 +176,9 @@ export class WhatsAppChannel implements Channel {
       const command = spaceIdx === -1 ? text.slice(1) : text.slice(1, spaceIdx);
       const args = spaceIdx === -1 ? "" : text.slice(spaceIdx + 1).trim();
       try {
-        const reply = await this.commandHandler(command, args, sessionKey, jid);
+        const reply = await this.commandHandler(command, args, sessionKey, jid, userId, isGroup, userName);
         if (reply !== null) {
-          await this.sock.sendMessage(jid, { text: reply });
+          await this.send(jid, { text: reply });
           return;
         }
       } catch (err) {
@@ -160,21 +188,45 @@ export class WhatsAppChannel implements Channel {
       }
     }
 
+    // What the user swiped to reply to
+    const quote = this.quotedContext(content);
+    const withQuote = (body: string) => (quote ? `${quote}\n${body}` : body);
+
     const inbound: InboundMessage = {
-      text,
+      text: withQuote(text),
       sessionKey,
       channelId: jid,
-      userId: senderId.replace(/@.*$/, ""),
-      userName: msg.pushName || senderId.replace(/@.*$/, ""),
+      userId,
+      userName,
       isGroup,
-      images: images.length > 0 ? images : undefined,
+      // Media is downloaded only once ChannelManager has admitted the sender
+      loadAttachments:
+        imageMsg || audioMsg || documentMsg
+          ? async () => {
+              const loaded = await this.loadMedia(msg, { imageMsg, audioMsg, documentMsg }, sessionKey);
+              return loaded.text !== undefined ? { ...loaded, text: withQuote(loaded.text) } : loaded;
+            }
+          : undefined,
+    };
+
+    const stream: StreamCallbacks = {
+      onApprovalRequest: (request) => this.requestApproval(jid, request),
     };
 
-    const noopStream: StreamCallbacks = {};
+    // "composing…" until the reply is sent
+    const composing = () => this.sock?.sendPresenceUpdate("composing", jid).catch(() => {});
+    await composing();
+    const presenceInterval = setInterval(composing, PRESENCE_REFRESH_MS);
     try {
-      const response = await this.handler(inbound, noopStream);
-      if (response?.text) {
-        await this.sock.sendMessage(jid, { text: response.text });
+      let response: Awaited<ReturnType<MessageHandler>>;
+      try {
+        response = await this.handler(inbound, stream);
+      } finally {
+        clearInterval(presenceInterval);
+        await this.sock?.sendPresenceUpdate("paused", jid).catch(() => {});
+      }
+      if (response?.text || response?.images?.length || response?.files?.length) {
+        await this.send(jid, response);
       }
     } catch (err) {
       console.error("[whatsapp] Error processing message:", err);
@@ -184,13 +236,155 @@ export class WhatsAppChannel implements Channel {
     }
   }
 
-  /** Send a message to a specific JID (used by scheduler for cron delivery). */
-  async sendToChannel(channelId: string, text: string): Promise<void> {
-    if (!this.sock) {
-      console.error("[whatsapp] Cannot send: not connected");
-      return;
+  /** Download the image, transcribe the voice note and save the document a message carries. */
+  private async loadMedia(
+    msg: proto.IWebMessageInfo,
+    media: {
+      imageMsg?: proto.Message.IImageMessage | null;
+      audioMsg?: proto.Message.IAudioMessage | null;
+      documentMsg?: proto.Message.IDocumentMessage | null;
+    },
+    sessionKey: string,
+  ): Promise<LoadedAttachments> {
+    const { imageMsg, audioMsg, documentMsg } = media;
+    const loaded: LoadedAttachments = {};
+
+    if (imageMsg) {
+      const data = await this.downloadMedia(msg, "image");
+      if (data) loaded.images = [{ data, name: "image.jpg", mimeType: imageMsg.mimetype || "image/jpeg" }];
+    }
+
+    // Voice notes and audio: transcribed into the message text
+    if (audioMsg) {
+      if (!this.speechToText) {
+        return { reply: "🎤 I can't listen to voice messages here — please type your message." };
+      }
+      const data = await this.downloadMedia(msg, "voice message");
+      const transcript = data
+        ? await this.speechToText.transcribe(data, audioMsg.mimetype || "audio/ogg").catch((err) => {
+            console.warn("[whatsapp] Failed to transcribe voice message:", err instanceof Error ? err.message : err);
+            return undefined;
+          })
+        : undefined;
+      if (!transcript) return { reply: "Sorry, I couldn't make out that voice message." };
+      const sender = (msg.key.participant || msg.key.remoteJid || "").replace(/@.*$/, "");
+      console.log(`[whatsapp] Transcribed ${Number(audioMsg.seconds ?? 0)}s voice message from ${sender}`);
+      loaded.text = `[Voice message] ${transcript}`;
+    }
+
+    // Documents: saved to the session inbox for the agent's file tools
+    if (documentMsg) loaded.files = await this.receiveDocument(msg, documentMsg, sessionKey);
+    return loaded;
+  }
+
+  private async downloadMedia(msg: proto.IWebMessageInfo, what: string): Promise<Buffer | undefined> {
+    try {
+      const data = await (await import("@whiskeysockets/baileys")).downloadMediaMessage(msg, "buffer", {});
+      return Buffer.isBuffer(data) ? data : undefined;
+    } catch (err) {
+      console.warn(`[whatsapp] Failed to download ${what}:`, err);
+      return undefined;
+    }
+  }
+
+  private async receiveDocument(
+    msg: proto.IWebMessageInfo,
+    document: proto.Message.IDocumentMessage,
+    sessionKey: string,
+  ): Promise<ReceivedFile[]> {
+    if (!this.inbox) return [];
+    return this.inbox.receive(sessionKey, [
+      {
+        name: document.fileName || "document",
+        mimeType: document.mimetype ?? undefined,
+        size: document.fileLength != null ? Number(document.fileLength) : undefined,
+        // Streamed, so a document without a reported size is still cut off at the limit
+        download: async (maxBytes) => {
+          const { downloadMediaMessage } = await import("@whiskeysockets/baileys");
+          return readStream(await downloadMediaMessage(msg, "stream", {}), maxBytes);
+        },
+      },
+    ]);
+  }
+
+  /** "[Replying to …]" line for a message sent as a reply to an earlier one. */
+  private quotedContext(content: proto.IMessage): string | undefined {
+    const contextInfo =
+      content.extendedTextMessage?.contextInfo ??
+      content.imageMessage?.contextInfo ??
+      content.documentMessage?.contextInfo ??
+      content.documentWithCaptionMessage?.message?.documentMessage?.contextInfo ??
+      content.audioMessage?.contextInfo;
+    const quoted = contextInfo?.quotedMessage;
+    if (!quoted) return undefined;
+    const quotedText =
+      quoted.conversation ||
+      quoted.extendedTextMessage?.text ||
+      quoted.imageMessage?.caption ||
+      (quoted.imageMessage && "[image]") ||
+      (quoted.documentMessage && `[document: ${quoted.documentMessage.fileName ?? "file"}]`) ||
+      (quoted.audioMessage && "[voice message]") ||
+      "";
+    if (!quotedText) return undefined;
+    const botNumber = this.sock?.user?.id.replace(/[:@].*$/, "");
+    const author = contextInfo.participant?.replace(/[:@].*$/, "");
+    const who = author && author === botNumber ? "your earlier message" : author ?? "an earlier message";
+    const clipped = quotedText.length > MAX_QUOTE_CHARS ? `${quotedText.slice(0, MAX_QUOTE_CHARS)}…` : quotedText;
+    return `[Replying to ${who}: "${clipped}"]`;
+  }
+
+  /**
+   * WhatsApp has no buttons for linked-device bots: ask for a "YES" / "NO"
+   * reply and wait for the requesting user to send one.
+   */
+  private async requestApproval(jid: string, request: ToolApprovalRequest): Promise<boolean> {
+    if (!this.sock) return false;
+    await this.sock.sendMessage(jid, {
+      text: `🔐 *${request.toolName}* needs your approval:\n\`\`\`${request.summary}\`\`\`\nReply *YES* to run it or *NO* to skip.`,
+    });
+
+    const verdict = await new Promise<boolean | "expired">((resolve) => {
+      const entry: PendingApproval = {
+        userId: request.userId,
+        resolve: (approved) => settle(approved),
+      };
+      const onAbort = () => settle("expired");
+      const settle = (result: boolean | "expired") => {
+        request.signal.removeEventListener("abort", onAbort);
+        const queue = this.pendingApprovals.get(jid) ?? [];
+        const remaining = queue.filter((p) => p !== entry);
+        if (remaining.length > 0) this.pendingApprovals.set(jid, remaining);
+        else this.pendingApprovals.delete(jid);
+        resolve(result);
+      };
+      request.signal.addEventListener("abort", onAbort, { once: true });
+      this.pendingApprovals.set(jid, [...(this.pendingApprovals.get(jid) ?? []), entry]);
+    });
+
+    if (verdict === "expired") {
+      await this.sock?.sendMessage(jid, { text: `⌛ Approval expired: *${request.toolName}* was not run.` }).catch(() => {});
+    }
+    return verdict === true;
+  }
+
+  /** Send a message to a JID (replies, scheduler, heartbeat and subagent deliveries). */
+  async send(jid: string, message: OutboundMessage): Promise<void> {
+    if (!this.sock) throw new Error("WhatsApp is not connected");
+    if (message.text) {
+      for (const chunk of renderMessage(message.text, this.capabilities)) {
+        await this.sock.sendMessage(jid, { text: chunk });
+      }
+    }
+    for (const image of message.images ?? []) {
+      await this.sock.sendMessage(jid, { image: image.data, mimetype: image.mimeType });
+    }
+    for (const file of message.files ?? []) {
+      await this.sock.sendMessage(jid, {
+        document: file.data,
+        mimetype: file.mimeType ?? "application/octet-stream",
+        fileName: file.name,
+      });
     }
-    await this.sock.sendMessage(channelId, { text });
   }
 
   async stop(): Promise<void> {
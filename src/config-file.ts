@@ -0,0 +1,492 @@
+import fs from "node:fs";
+import path from "node:path";
+import { QUEUE_MODES } from "./agent/inbound-queue.js";
+import type { QueueMode } from "./agent/inbound-queue.js";
+import { TOOL_POLICY_ACTIONS } from "./security/tool-policy.js";
+import type { ToolPolicyRule } from "./security/tool-policy.js";
+import { ACCESS_ROLES, UNKNOWN_USER_POLICIES } from "./security/access.js";
+import type { AccessRole } from "./security/access.js";
+import { WEBHOOK_VERIFY_MODES } from "./webhooks.js";
+import { TRANSCRIPTION_BACKENDS } from "./media/transcribe.js";
+import type { WebhookVerify } from "./webhooks.js";
+
+/**
+ * Optional declarative config file (nano-openclaw.json).
+ *
+ * The file is validated against a small typed schema, `${VAR}` references in
+ * strings are interpolated from the environment (keep secrets in .env), and
+ * the result is mapped onto the same env var names loadConfig() already reads.
+ * File values take precedence over env vars; anything the file omits falls
+ * back to the environment, so env-only setups keep working unchanged.
+ *
+ * Extra channel accounts (a second Discord bot, another Slack workspace),
+ * structured tool policy rules and webhooks can only be expressed here, under
+ * `channels.accounts`, `toolPolicy.rules` and `webhooks.hooks`.
+ */
+
+// ── Schema ─────────────────────────────────────────────────────────────
+
+type Schema =
+  | { type: "string"; enum?: readonly string[] }
+  | { type: "number"; integer?: boolean; min?: number }
+  | { type: "boolean" }
+  | { type: "array"; items: Schema }
+  | { type: "object"; properties: Record<string, Schema>; required?: string[] }
+  | { type: "record"; values: Schema }
+  | { type: "union"; discriminator: string; variants: Record<string, Schema & { type: "object" }> };
+
+const str = (values?: readonly string[]): Schema => ({ type: "string", enum: values });
+const int = (min?: number): Schema => ({ type: "number", integer: true, min });
+const num = (min?: number): Schema => ({ type: "number", min });
+const bool: Schema = { type: "boolean" };
+const list = (items: Schema): Schema => ({ type: "array", items });
+const obj = (properties: Record<string, Schema>, required?: string[]) =>
+  ({ type: "object", properties, required }) as Schema & { type: "object" };
+
+const discordAccount = obj(
+  { type: str(), token: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES), taskThreads: bool },
+  ["token"],
+);
+const slackAccount = obj(
+  { type: str(), botToken: str(), appToken: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES) },
+  ["botToken", "appToken"],
+);
+const telegramAccount = obj({ type: str(), token: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES) }, ["token"]);
+const matrixAccount = obj(
+  { type: str(), homeserverUrl: str(), accessToken: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES) },
+  ["homeserverUrl", "accessToken"],
+);
+const whatsappAccount = obj({ type: str(), authDir: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES) });
+
+const webhookHook = obj(
+  {
+    secret: str(),
+    verify: str(WEBHOOK_VERIFY_MODES),
+    signatureHeader: str(),
+    prompt: str(),
+    deliverTo: str(),
+    role: str(ACCESS_ROLES),
+    rateLimit: obj({ max: int(1), windowMs: int(1000) }),
+  },
+  ["secret", "prompt", "deliverTo"],
+);
+
+const toolPolicyRule = obj(
+  {
+    tool: str(),
+    action: str(TOOL_POLICY_ACTIONS),
+    args: { type: "record", values: str() },
+    channels: list(str()),
+    users: list(str()),
+  },
+  ["tool", "action"],
+);
+
+const CONFIG_SCHEMA = obj({
+  $schema: str(),
+  model: obj({
+    provider: str(),
+    id: str(),
+    apiKey: str(),
+    baseUrl: str(),
+    fallbacks: list(str()),
+    background: str(),
+    backgroundTimeoutMs: int(1000),
+    backgroundRetries: int(0),
+    thinkingLevel: str(["off", "minimal", "low", "medium", "high"]),
+  }),
+  workspaceDir: str(),
+  agentDir: str(),
+  braveApiKey: str(),
+  puppeteerExecutable: str(),
+  allowLocalhost: bool,
+  channels: obj({
+    discord: obj({ token: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES), taskThreads: bool }),
+    slack: obj({ botToken: str(), appToken: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES) }),
+    telegram: obj({ token: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES) }),
+    matrix: obj({ homeserverUrl: str(), accessToken: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES) }),
+    whatsapp: obj({ enabled: bool, authDir: str(), allowFrom: list(str()), queueMode: str(QUEUE_MODES) }),
+    http: obj({ enabled: bool, host: str(), port: int(0), tokens: list(str()), queueMode: str(QUEUE_MODES) }),
+    cli: obj({ enabled: bool, user: str(), imageDir: str() }),
+    accounts: {
+      type: "record",
+      values: {
+        type: "union",
+        discriminator: "type",
+        variants: { discord: discordAccount, slack: slackAccount, telegram: telegramAccount, matrix: matrixAccount, whatsapp: whatsappAccount },
+      },
+    },
+  }),
+  consolidation: obj({
+    enabled: bool,
+    threshold: int(1),
+    citations: str(["auto", "on", "off"]),
+  }),
+  heartbeat: obj({ enabled: bool, intervalMs: int(1000), minIntervalMs: int(0), deliverTo: str() }),
+  scheduler: obj({ maxConcurrency: int(1), jobTimeoutMs: int(1000), maxConsecutiveFailures: int(1) }),
+  webhooks: obj({ host: str(), port: int(0), hooks: { type: "record", values: webhookHook } }),
+  sandbox: obj({
+    enabled: bool,
+    scope: str(["session", "shared"]),
+    image: str(),
+    network: str(),
+    memory: str(),
+    cpus: num(0),
+    pidsLimit: int(1),
+    setupCommand: str(),
+  }),
+  firecrawl: obj({ apiKey: str(), baseUrl: str(), onlyMainContent: bool }),
+  attachments: obj({ maxBytes: int(1), allowedTypes: list(str()) }),
+  transcription: obj({
+    backend: str(TRANSCRIPTION_BACKENDS),
+    whisperBin: str(),
+    whisperModel: str(),
+    language: str(),
+    ffmpegBin: str(),
+  }),
+  budgets: obj({ dailyUsd: num(0), sessionDailyUsd: num(0) }),
+  queue: obj({ mode: str(QUEUE_MODES), collectDebounceMs: int(0) }),
+  sessionPool: obj({ idleMs: int(0), maxSessions: int(0) }),
+  toolPolicy: obj({
+    default: str(TOOL_POLICY_ACTIONS),
+    askTimeoutMs: int(1000),
+    allow: list(str()),
+    ask: list(str()),
+    deny: list(str()),
+    rules: list(toolPolicyRule),
+  }),
+  access: obj({
+    owners: list(str()),
+    members: list(str()),
+    guests: list(str()),
+    unknown: str(UNKNOWN_USER_POLICIES),
+    refusalMessage: str(),
+    memberTools: list(str()),
+    guestTools: list(str()),
+    guestCommands: list(str()),
+  }),
+});
+
+/** Config file key → env var it overrides. */
+const FILE_TO_ENV: Record<string, string> = {
+  "model.provider": "MODEL_PROVIDER",
+  "model.id": "MODEL_ID",
+  "model.apiKey": "MODEL_API_KEY",
+  "model.baseUrl": "MODEL_BASE_URL",
+  "model.fallbacks": "MODEL_FALLBACKS",
+  "model.background": "BACKGROUND_MODEL",
+  "model.backgroundTimeoutMs": "BACKGROUND_LLM_TIMEOUT_MS",
+  "model.backgroundRetries": "BACKGROUND_LLM_RETRIES",
+  "model.thinkingLevel": "THINKING_LEVEL",
+  workspaceDir: "WORKSPACE_DIR",
+  agentDir: "AGENT_DIR",
+  braveApiKey: "BRAVE_API_KEY",
+  puppeteerExecutable: "PUPPETEER_EXECUTABLE",
+  allowLocalhost: "ALLOW_LOCALHOST",
+  "channels.discord.token": "DISCORD_TOKEN",
+  "channels.discord.allowFrom": "DISCORD_ALLOW_FROM",
+  "channels.discord.queueMode": "DISCORD_QUEUE_MODE",
+  "channels.discord.taskThreads": "DISCORD_TASK_THREADS",
+  "channels.slack.botToken": "SLACK_BOT_TOKEN",
+  "channels.slack.appToken": "SLACK_APP_TOKEN",
+  "channels.slack.allowFrom": "SLACK_ALLOW_FROM",
+  "channels.slack.queueMode": "SLACK_QUEUE_MODE",
+  "channels.telegram.token": "TELEGRAM_BOT_TOKEN",
+  "channels.telegram.allowFrom": "TELEGRAM_ALLOW_FROM",
+  "channels.telegram.queueMode": "TELEGRAM_QUEUE_MODE",
+  "channels.matrix.homeserverUrl": "MATRIX_HOMESERVER_URL",
+  "channels.matrix.accessToken": "MATRIX_ACCESS_TOKEN",
+  "channels.matrix.allowFrom": "MATRIX_ALLOW_FROM",
+  "channels.matrix.queueMode": "MATRIX_QUEUE_MODE",
+  "channels.whatsapp.enabled": "WHATSAPP_ENABLED",
+  "channels.whatsapp.authDir": "WHATSAPP_AUTH_DIR",
+  "channels.whatsapp.allowFrom": "WHATSAPP_ALLOW_FROM",
+  "channels.whatsapp.queueMode": "WHATSAPP_QUEUE_MODE",
+  "channels.http.enabled": "HTTP_ENABLED",
+  "channels.http.host": "HTTP_HOST",
+  "channels.http.port": "HTTP_PORT",
+  "channels.http.tokens": "HTTP_TOKENS",
+  "channels.http.queueMode": "HTTP_QUEUE_MODE",
+  "channels.cli.enabled": "CLI_ENABLED",
+  "channels.cli.user": "CLI_USER",
+  "channels.cli.imageDir": "CLI_IMAGE_DIR",
+  "consolidation.enabled": "CONSOLIDATION_ENABLED",
+  "consolidation.threshold": "CONSOLIDATION_THRESHOLD",
+  "consolidation.citations": "CITATIONS_MODE",
+  "heartbeat.enabled": "HEARTBEAT_ENABLED",
+  "heartbeat.intervalMs": "HEARTBEAT_INTERVAL_MS",
+  "heartbeat.minIntervalMs": "HEARTBEAT_MIN_INTERVAL_MS",
+  "heartbeat.deliverTo": "HEARTBEAT_DELIVER_TO",
+  "scheduler.maxConcurrency": "SCHEDULER_MAX_CONCURRENCY",
+  "scheduler.jobTimeoutMs": "SCHEDULER_JOB_TIMEOUT_MS",
+  "scheduler.maxConsecutiveFailures": "SCHEDULER_MAX_FAILURES",
+  "webhooks.host": "WEBHOOKS_HOST",
+  "webhooks.port": "WEBHOOKS_PORT",
+  "sandbox.enabled": "SANDBOX_ENABLED",
+  "sandbox.scope": "SANDBOX_SCOPE",
+  "sandbox.image": "SANDBOX_IMAGE",
+  "sandbox.network": "SANDBOX_NETWORK",
+  "sandbox.memory": "SANDBOX_MEMORY",
+  "sandbox.cpus": "SANDBOX_CPUS",
+  "sandbox.pidsLimit": "SANDBOX_PIDS_LIMIT",
+  "sandbox.setupCommand": "SANDBOX_SETUP_COMMAND",
+  "firecrawl.apiKey": "FIRECRAWL_API_KEY",
+  "firecrawl.baseUrl": "FIRECRAWL_BASE_URL",
+  "firecrawl.onlyMainContent": "FIRECRAWL_ONLY_MAIN_CONTENT",
+  "attachments.maxBytes": "ATTACHMENTS_MAX_BYTES",
+  "attachments.allowedTypes": "ATTACHMENTS_ALLOWED_TYPES",
+  "transcription.backend": "TRANSCRIPTION_BACKEND",
+  "transcription.whisperBin": "WHISPER_BIN",
+  "transcription.whisperModel": "WHISPER_MODEL",
+  "transcription.language": "WHISPER_LANGUAGE",
+  "transcription.ffmpegBin": "FFMPEG_BIN",
+  "budgets.dailyUsd": "BUDGET_DAILY_USD",
+  "budgets.sessionDailyUsd": "BUDGET_SESSION_DAILY_USD",
+  "queue.mode": "QUEUE_MODE",
+  "queue.collectDebounceMs": "QUEUE_COLLECT_DEBOUNCE_MS",
+  "sessionPool.idleMs": "SESSION_POOL_IDLE_MS",
+  "sessionPool.maxSessions": "SESSION_POOL_MAX",
+  "toolPolicy.default": "TOOL_POLICY_DEFAULT",
+  "toolPolicy.askTimeoutMs": "TOOL_APPROVAL_TIMEOUT_MS",
+  "toolPolicy.allow": "TOOL_POLICY_ALLOW",
+  "toolPolicy.ask": "TOOL_POLICY_ASK",
+  "toolPolicy.deny": "TOOL_POLICY_DENY",
+  "access.owners": "ACCESS_OWNERS",
+  "access.members": "ACCESS_MEMBERS",
+  "access.guests": "ACCESS_GUESTS",
+  "access.unknown": "ACCESS_UNKNOWN",
+  "access.refusalMessage": "ACCESS_REFUSAL_MESSAGE",
+  "access.memberTools": "ACCESS_MEMBER_TOOLS",
+  "access.guestTools": "ACCESS_GUEST_TOOLS",
+  "access.guestCommands": "ACCESS_GUEST_COMMANDS",
+};
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+/** An additional channel account declared under `channels.accounts`. */
+export type ChannelAccountFileEntry =
+  | { name: string; type: "discord"; token: string; allowFrom?: string[]; queueMode?: QueueMode; taskThreads?: boolean }
+  | { name: string; type: "slack"; botToken: string; appToken: string; allowFrom?: string[]; queueMode?: QueueMode }
+  | { name: string; type: "telegram"; token: string; allowFrom?: string[]; queueMode?: QueueMode }
+  | { name: string; type: "matrix"; homeserverUrl: string; accessToken: string; allowFrom?: string[]; queueMode?: QueueMode }
+  | { name: string; type: "whatsapp"; authDir?: string; allowFrom?: string[]; queueMode?: QueueMode };
+
+/** A webhook declared under `webhooks.hooks`. */
+export interface WebhookHookFileEntry {
+  name: string;
+  secret: string;
+  verify?: WebhookVerify;
+  signatureHeader?: string;
+  prompt: string;
+  deliverTo: string;
+  role?: AccessRole;
+  rateLimit?: { max?: number; windowMs?: number };
+}
+
+export interface LoadedConfigFile {
+  path: string;
+  /** Env-var-shaped overrides derived from the file. */
+  env: Record<string, string>;
+  accounts: ChannelAccountFileEntry[];
+  /** `toolPolicy.rules`, checked before the env-style allow / ask / deny lists. */
+  toolRules: ToolPolicyRule[];
+  /** `webhooks.hooks`, named after their keys. */
+  hooks: WebhookHookFileEntry[];
+}
+
+export class ConfigValidationError extends Error {
+  constructor(
+    readonly filePath: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid config file ${filePath}:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+// ── Loading ────────────────────────────────────────────────────────────
+
+/** Config file location: NANO_OPENCLAW_CONFIG, else ./nano-openclaw.json if present. */
+export function resolveConfigFilePath(): string | undefined {
+  const explicit = process.env.NANO_OPENCLAW_CONFIG?.trim();
+  if (explicit) return path.resolve(explicit);
+  const fallback = path.resolve("nano-openclaw.json");
+  return fs.existsSync(fallback) ? fallback : undefined;
+}
+
+/** Read, interpolate and validate the config file. Throws ConfigValidationError. */
+export function loadConfigFile(filePath: string): LoadedConfigFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    throw new ConfigValidationError(filePath, [
+      err instanceof Error ? err.message : String(err),
+    ]);
+  }
+
+  const issues: string[] = [];
+  const value = interpolateEnv(raw, "", issues);
+  validate(value, CONFIG_SCHEMA, "", issues);
+  if (issues.length > 0) throw new ConfigValidationError(filePath, issues);
+
+  const env: Record<string, string> = {};
+  for (const [keyPath, envVar] of Object.entries(FILE_TO_ENV)) {
+    const v = getPath(value, keyPath);
+    if (v === undefined) continue;
+    env[envVar] = Array.isArray(v) ? v.join(",") : String(v);
+  }
+
+  const accountsRaw = (getPath(value, "channels.accounts") ?? {}) as Record<string, Record<string, unknown>>;
+  const accounts = Object.entries(accountsRaw).map(
+    ([name, account]) => ({ ...account, name }) as ChannelAccountFileEntry,
+  );
+
+  const toolRules = (getPath(value, "toolPolicy.rules") ?? []) as ToolPolicyRule[];
+
+  const hooksRaw = (getPath(value, "webhooks.hooks") ?? {}) as Record<string, Record<string, unknown>>;
+  const hooks = Object.entries(hooksRaw).map(([name, hook]) => ({ ...hook, name }) as WebhookHookFileEntry);
+
+  return { path: filePath, env, accounts, toolRules, hooks };
+}
+
+/**
+ * Watch the config file and invoke onChange (debounced) after edits.
+ * Editors often replace files on save, so the directory is watched rather
+ * than the file inode. Returns a function that stops watching.
+ */
+export function watchConfigFile(filePath: string, onChange: () => void): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const watcher = fs.watch(path.dirname(filePath), (_event, filename) => {
+    if (filename && filename.toString() !== path.basename(filePath)) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(onChange, 300);
+  });
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+// ── Internals ──────────────────────────────────────────────────────────
+
+function interpolateEnv(value: unknown, keyPath: string, issues: string[]): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_m, name: string) => {
+      const resolved = process.env[name];
+      if (resolved === undefined) {
+        issues.push(`${keyPath || "(root)"}: environment variable ${name} is not set`);
+        return "";
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((v, i) => interpolateEnv(v, `${keyPath}[${i}]`, issues));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, interpolateEnv(v, joinPath(keyPath, k), issues)]),
+    );
+  }
+  return value;
+}
+
+function validate(value: unknown, schema: Schema, keyPath: string, issues: string[]): void {
+  const at = keyPath || "(root)";
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        issues.push(`${at}: expected a string, got ${describe(value)}`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${at}: must be one of ${schema.enum.map((e) => `"${e}"`).join(", ")}`);
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push(`${at}: expected a number, got ${describe(value)}`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        issues.push(`${at}: expected an integer`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        issues.push(`${at}: must be >= ${schema.min}`);
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") issues.push(`${at}: expected true/false, got ${describe(value)}`);
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        issues.push(`${at}: expected an array, got ${describe(value)}`);
+        return;
+      }
+      value.forEach((item, i) => validate(item, schema.items, `${keyPath}[${i}]`, issues));
+      return;
+    case "object": {
+      if (!isPlainObject(value)) {
+        issues.push(`${at}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) issues.push(`${joinPath(keyPath, key)}: is required`);
+      }
+      for (const [key, v] of Object.entries(value)) {
+        const child = schema.properties[key];
+        if (!child) {
+          issues.push(`${joinPath(keyPath, key)}: unknown key`);
+          continue;
+        }
+        validate(v, child, joinPath(keyPath, key), issues);
+      }
+      return;
+    }
+    case "record":
+      if (!isPlainObject(value)) {
+        issues.push(`${at}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      for (const [key, v] of Object.entries(value)) {
+        validate(v, schema.values, joinPath(keyPath, key), issues);
+      }
+      return;
+    case "union": {
+      if (!isPlainObject(value)) {
+        issues.push(`${at}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      const tag = value[schema.discriminator];
+      const variant = typeof tag === "string" ? schema.variants[tag] : undefined;
+      if (!variant) {
+        issues.push(
+          `${joinPath(keyPath, schema.discriminator)}: must be one of ${Object.keys(schema.variants).map((v) => `"${v}"`).join(", ")}`,
+        );
+        return;
+      }
+      validate(value, variant, keyPath, issues);
+      return;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** The value's type only — values may come from `${VAR}` secrets, so they're never echoed. */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "string" ? "a string" : typeof value;
+}
+
+function joinPath(base: string, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
+
+function getPath(value: unknown, keyPath: string): unknown {
+  let cur = value;
+  for (const key of keyPath.split(".")) {
+    if (!isPlainObject(cur)) return undefined;
+    cur = cur[key];
+  }
+  return cur;
+}
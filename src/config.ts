@@ -7,6 +7,21 @@ import { defaultSandboxConfig, defaultSandboxDockerConfig } from "./sandbox/type
 import type { HeartbeatConfig } from "./heartbeat.js";
 import { defaultHeartbeatConfig } from "./heartbeat.js";
 import type { SchedulerOptions } from "./scheduler.js";
+import type { WebhooksConfig } from "./webhooks.js";
+import { defaultWebhookRateLimit } from "./webhooks.js";
+import type { BudgetConfig } from "./agent/usage.js";
+import type { LlmFixtureConfig } from "./agent/replay.js";
+import { QUEUE_MODES } from "./agent/inbound-queue.js";
+import type { QueueMode } from "./agent/inbound-queue.js";
+import { loadConfigFile, resolveConfigFilePath } from "./config-file.js";
+import { TOOL_POLICY_ACTIONS, validateToolPolicyRules } from "./security/tool-policy.js";
+import type { ToolPolicyConfig, ToolPolicyRule } from "./security/tool-policy.js";
+import { UNKNOWN_USER_POLICIES } from "./security/access.js";
+import type { AccessConfig } from "./security/access.js";
+import { TRANSCRIPTION_BACKENDS } from "./media/transcribe.js";
+import type { TranscriptionConfig } from "./media/transcribe.js";
+import { DEFAULT_ALLOWED_ATTACHMENT_TYPES } from "./channels/inbox.js";
+import type { AttachmentsConfig } from "./channels/inbox.js";
 
 /** Resolve the repo-local workspace/ directory (sibling of src/). */
 function resolveDefaultWorkspaceDir(): string {
@@ -17,32 +32,136 @@ function resolveDefaultWorkspaceDir(): string {
 
 config();
 
+export interface DiscordConfig {
+  enabled: boolean;
+  /** Channel name used in session keys and delivery routing (default: "discord"). */
+  name?: string;
+  token: string;
+  /** Optional allowlist of Discord user IDs. */
+  allowFrom?: string[];
+  /** How mid-run messages are handled on this channel (default: global QUEUE_MODE). */
+  queueMode?: QueueMode;
+  /** Move a server-channel task into its own thread once it starts using tools. */
+  taskThreads?: boolean;
+}
+
 export interface WhatsAppConfig {
   enabled: boolean;
+  /** Channel name used in session keys and delivery routing (default: "whatsapp"). */
+  name?: string;
   /** Directory to persist WhatsApp auth state (QR login). */
   authDir: string;
   /** Optional allowlist of phone numbers / JIDs that may interact. */
   allowFrom?: string[];
+  /** How mid-run messages are handled on this channel (default: global QUEUE_MODE). */
+  queueMode?: QueueMode;
 }
 
 export interface SlackConfig {
   enabled: boolean;
+  /** Channel name used in session keys and delivery routing (default: "slack"). */
+  name?: string;
   /** Bot token (xoxb-…) */
   botToken: string;
   /** App-level token (xapp-…) for Socket Mode */
   appToken: string;
   /** Optional allowlist of Slack user IDs. */
   allowFrom?: string[];
+  /** How mid-run messages are handled on this channel (default: global QUEUE_MODE). */
+  queueMode?: QueueMode;
+}
+
+export interface TelegramConfig {
+  enabled: boolean;
+  /** Channel name used in session keys and delivery routing (default: "telegram"). */
+  name?: string;
+  /** Bot token from @BotFather. */
+  token: string;
+  /** Optional allowlist of Telegram user IDs or @usernames. */
+  allowFrom?: string[];
+  /** How mid-run messages are handled on this channel (default: global QUEUE_MODE). */
+  queueMode?: QueueMode;
+}
+
+export interface MatrixConfig {
+  enabled: boolean;
+  /** Channel name used in session keys and delivery routing (default: "matrix"). */
+  name?: string;
+  /** Homeserver base URL, e.g. https://matrix.example.org */
+  homeserverUrl: string;
+  /** Access token of the bot account. */
+  accessToken: string;
+  /** Optional allowlist of Matrix user IDs (@user:server); also gates room invites. */
+  allowFrom?: string[];
+  /** How mid-run messages are handled on this channel (default: global QUEUE_MODE). */
+  queueMode?: QueueMode;
+}
+
+export interface HttpTokenConfig {
+  /** User ID requests with this token run as (sessions, roles, tool policy). */
+  userId: string;
+  token: string;
 }
 
+export interface HttpConfig {
+  enabled: boolean;
+  /** Channel name used in session keys and delivery routing (default: "http"). */
+  name?: string;
+  /** Interface to listen on (default: 127.0.0.1). */
+  host: string;
+  /** Port to listen on; 0 picks a free port. */
+  port: number;
+  /** Bearer tokens accepted by the API. Requests without a known token get 401. */
+  tokens: HttpTokenConfig[];
+  /** How mid-run messages are handled on this channel (default: global QUEUE_MODE). */
+  queueMode?: QueueMode;
+}
+
+export interface CliConfig {
+  enabled: boolean;
+  /** Channel name used in session keys and delivery routing (default: "cli"). */
+  name?: string;
+  /** User the terminal chats as; the session key is "cli:<user>". */
+  user: string;
+  /** Where images returned by the agent are written. */
+  imageDir: string;
+}
+
+/** Additional account on a platform (config file `channels.accounts`); `name` is required. */
+export type ChannelAccountConfig =
+  | ({ type: "discord"; name: string } & DiscordConfig)
+  | ({ type: "whatsapp"; name: string } & WhatsAppConfig)
+  | ({ type: "slack"; name: string } & SlackConfig)
+  | ({ type: "telegram"; name: string } & TelegramConfig)
+  | ({ type: "matrix"; name: string } & MatrixConfig);
+
 export interface ChannelsConfig {
-  discord: { enabled: boolean; token: string };
+  discord: DiscordConfig;
   whatsapp: WhatsAppConfig;
   slack: SlackConfig;
+  telegram: TelegramConfig;
+  matrix: MatrixConfig;
+  http: HttpConfig;
+  cli: CliConfig;
+  accounts: ChannelAccountConfig[];
 }
 
 export type CitationsMode = "auto" | "on" | "off";
 
+export interface QueueConfig {
+  /** Default handling of messages that arrive while a turn is running. */
+  mode: QueueMode;
+  /** "collect" mode: quiet period before merged messages are sent (ms). */
+  collectDebounceMs: number;
+}
+
+export interface SessionPoolConfig {
+  /** Dispose a warm session after this long without a turn (ms). */
+  idleMs: number;
+  /** Most warm sessions kept at once (0 = rebuild the session every turn). */
+  maxSessions: number;
+}
+
 export interface ConsolidationConfig {
   /** Enable LLM-driven memory consolidation. */
   enabled: boolean;
@@ -63,12 +182,35 @@ export interface FirecrawlConfig {
   onlyMainContent: boolean;
 }
 
+/** A provider/model pair the agent can run on (primary model or a fallback). */
+export interface ModelRef {
+  provider: string;
+  modelId: string;
+  apiKey: string;
+  /** Override base URL for this provider (only inherited from MODEL_BASE_URL for the primary provider). */
+  baseUrl?: string;
+}
+
+/** One-shot housekeeping calls (memory consolidation, pre-compaction memory flush). */
+export interface BackgroundLlmConfig {
+  /** Cheaper model for housekeeping; the primary model when unset. */
+  model?: ModelRef;
+  /** Per-attempt timeout for direct calls (ms). */
+  timeoutMs: number;
+  /** Retries for transient errors (rate limits, 5xx, timeouts). */
+  maxRetries: number;
+}
+
 export interface NanoConfig {
   provider: string;
   modelId: string;
   apiKey: string;
   /** Override base URL for the model provider (e.g. OpenRouter, custom endpoints). */
   baseUrl?: string;
+  /** Ordered fallback models tried when the primary fails with a retryable or auth/quota error. */
+  modelFallbacks: ModelRef[];
+  /** Model and limits for housekeeping LLM calls. */
+  background: BackgroundLlmConfig;
   workspaceDir: string;
   /** Subdirectory of workspaceDir where the agent's coding tools operate. */
   codeDir: string;
@@ -80,12 +222,75 @@ export interface NanoConfig {
   consolidation: ConsolidationConfig;
   heartbeat: HeartbeatConfig;
   scheduler: SchedulerOptions;
+  /** Inbound webhooks (`POST /hooks/<name>`) that start agent turns. */
+  webhooks: WebhooksConfig;
   /** Pi SDK thinking level for models that support extended thinking. */
   thinkingLevel: string;
   /** Firecrawl configuration for JS-heavy site extraction */
   firecrawl: FirecrawlConfig;
+  /** Speech-to-text for inbound voice messages. */
+  transcription: TranscriptionConfig;
+  /** Limits for files users send, saved to `<codeDir>/inbox/`. */
+  attachments: AttachmentsConfig;
+  /** Optional spend limits; turns are refused once exceeded. */
+  budgets: BudgetConfig;
+  /** Mid-run message handling (queue / collect / steer). */
+  queue: QueueConfig;
+  /** Warm agent sessions reused across turns. */
+  sessionPool: SessionPoolConfig;
+  /** Which tool calls run, are refused, or need the user's confirmation. */
+  toolPolicy: ToolPolicyConfig;
+  /** User roles (owner / member / guest) and what unknown users get. */
+  access: AccessConfig;
   /** Allow localhost URLs in web_fetch (for development) */
   allowLocalhost: boolean;
+  /** Record/replay LLM exchanges to a fixture file (offline runs, regression scripts). */
+  llmFixtures?: LlmFixtureConfig;
+  /** Path of the nano-openclaw.json config file, if one was loaded. */
+  configFile?: string;
+}
+
+type EnvSource = Record<string, string | undefined>;
+
+/** Parse an integer env var; throws instead of silently yielding NaN. */
+function parseIntVar(env: EnvSource, name: string, opts: { min?: number } = {}): number | undefined {
+  const raw = env[name]?.trim();
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value)) {
+    throw new Error(`${name} must be an integer`);
+  }
+  if (opts.min !== undefined && value < opts.min) {
+    throw new Error(`${name} must be >= ${opts.min}`);
+  }
+  return value;
+}
+
+function parseFloatVar(env: EnvSource, name: string): number | undefined {
+  const raw = env[name]?.trim();
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${name} must be a number`);
+  }
+  return value;
+}
+
+function parseEnumVar<T extends string>(env: EnvSource, name: string, values: readonly T[]): T | undefined {
+  const raw = env[name]?.trim();
+  if (!raw) return undefined;
+  if (!(values as readonly string[]).includes(raw)) {
+    throw new Error(`${name} must be one of ${values.join(", ")}`);
+  }
+  return raw as T;
+}
+
+function isTrue(value: string | undefined): boolean {
+  return value === "true" || value === "1";
+}
+
+function isNotFalse(value: string | undefined): boolean {
+  return value !== "false" && value !== "0";
 }
 
 function parseAllowList(envVar: string | undefined): string[] | undefined {
@@ -93,127 +298,350 @@ function parseAllowList(envVar: string | undefined): string[] | undefined {
   return envVar.split(",").map((s) => s.trim()).filter(Boolean);
 }
 
+/**
+ * Resolve a "provider/modelId" spec to a ModelRef.
+ * The first path segment is the provider; the rest is the model ID, so
+ * "openrouter/anthropic/claude-sonnet-4" → provider=openrouter, modelId=anthropic/claude-sonnet-4.
+ * API keys come from MODEL_API_KEY_<PROVIDER> (e.g. MODEL_API_KEY_OPENROUTER), else MODEL_API_KEY.
+ */
+export function parseModelRef(
+  spec: string,
+  primary: { provider: string; apiKey: string; baseUrl?: string },
+): ModelRef {
+  const slashIdx = spec.indexOf("/");
+  if (slashIdx <= 0 || slashIdx === spec.length - 1) {
+    throw new Error(`Model "${spec}" must be in "provider/modelId" form`);
+  }
+  const provider = spec.slice(0, slashIdx);
+  const modelId = spec.slice(slashIdx + 1);
+  const keyVar = `MODEL_API_KEY_${provider.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+  return {
+    provider,
+    modelId,
+    apiKey: process.env[keyVar]?.trim() || primary.apiKey,
+    baseUrl: provider === primary.provider ? primary.baseUrl : undefined,
+  };
+}
+
+/** Parse MODEL_FALLBACKS ("provider/modelId,provider/modelId"). */
+function parseModelFallbacks(
+  envVar: string | undefined,
+  primary: { provider: string; apiKey: string; baseUrl?: string },
+): ModelRef[] {
+  return (parseAllowList(envVar) ?? []).map((entry) => {
+    try {
+      return parseModelRef(entry, primary);
+    } catch (err) {
+      throw new Error(`MODEL_FALLBACKS: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+}
+
+/**
+ * Parse HTTP_TOKENS ("userId:token,userId:token"). User IDs namespace the
+ * gateway's session keys as they are, so they must already fit the key alphabet.
+ */
+function parseHttpTokens(envVar: string | undefined): HttpTokenConfig[] {
+  return (parseAllowList(envVar) ?? []).map((entry) => {
+    const colonIdx = entry.indexOf(":");
+    if (colonIdx <= 0 || colonIdx === entry.length - 1) {
+      throw new Error(`HTTP_TOKENS: "${entry.slice(0, 20)}…" must be in "userId:token" form`);
+    }
+    const userId = entry.slice(0, colonIdx);
+    if (!/^[A-Za-z0-9._-]{1,128}$/.test(userId)) {
+      throw new Error(`HTTP_TOKENS: user ID "${userId}" may only use letters, digits, ".", "_" and "-"`);
+    }
+    return { userId, token: entry.slice(colonIdx + 1) };
+  });
+}
+
+/**
+ * Load config from the environment, overlaid with nano-openclaw.json when
+ * present (see config-file.ts). Throws on invalid values rather than
+ * silently falling back to NaN / defaults.
+ */
 export function loadConfig(): NanoConfig {
-  const provider = process.env.MODEL_PROVIDER || "anthropic";
-  const modelId = process.env.MODEL_ID || "claude-sonnet-4-20250514";
-  const apiKey = process.env.MODEL_API_KEY;
+  const configFile = resolveConfigFilePath();
+  const file = configFile ? loadConfigFile(configFile) : undefined;
+  const env: EnvSource = { ...process.env, ...file?.env };
+
+  const provider = env.MODEL_PROVIDER || "anthropic";
+  const modelId = env.MODEL_ID || "claude-sonnet-4-20250514";
+  const apiKey = env.MODEL_API_KEY;
   if (!apiKey) throw new Error("MODEL_API_KEY is required");
 
   // If WORKSPACE_DIR is set, use that. Otherwise use the repo's workspace/ directory.
   const workspaceDir =
-    process.env.WORKSPACE_DIR?.trim() || resolveDefaultWorkspaceDir();
+    env.WORKSPACE_DIR?.trim() || resolveDefaultWorkspaceDir();
 
   // Code directory: where agent coding tools (read/write/edit/bash) operate.
   // Keeps code isolated from workspace-level files (AGENTS.md, skills/, memory/).
   const codeDir = path.join(workspaceDir, "code");
 
   const agentDir =
-    process.env.AGENT_DIR?.trim() ||
+    env.AGENT_DIR?.trim() ||
     path.join(os.homedir(), ".nano-openclaw");
 
-  const braveApiKey = process.env.BRAVE_API_KEY?.trim() || undefined;
-  const thinkingLevel = process.env.THINKING_LEVEL?.trim() || "low";
-  const puppeteerExecutable = process.env.PUPPETEER_EXECUTABLE?.trim() || undefined;
-  const baseUrl = process.env.MODEL_BASE_URL?.trim() || undefined;
+  const braveApiKey = env.BRAVE_API_KEY?.trim() || undefined;
+  const thinkingLevel =
+    parseEnumVar(env, "THINKING_LEVEL", ["off", "minimal", "low", "medium", "high"] as const) ?? "low";
+  const puppeteerExecutable = env.PUPPETEER_EXECUTABLE?.trim() || undefined;
+  const baseUrl = env.MODEL_BASE_URL?.trim() || undefined;
+  const modelFallbacks = parseModelFallbacks(env.MODEL_FALLBACKS, { provider, apiKey, baseUrl });
+  const backgroundModelSpec = env.BACKGROUND_MODEL?.trim();
+  let backgroundModel: ModelRef | undefined;
+  try {
+    backgroundModel = backgroundModelSpec
+      ? parseModelRef(backgroundModelSpec, { provider, apiKey, baseUrl })
+      : undefined;
+  } catch (err) {
+    throw new Error(`BACKGROUND_MODEL: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const background: BackgroundLlmConfig = {
+    model: backgroundModel,
+    timeoutMs: parseIntVar(env, "BACKGROUND_LLM_TIMEOUT_MS", { min: 1000 }) ?? 60_000,
+    maxRetries: parseIntVar(env, "BACKGROUND_LLM_RETRIES", { min: 0 }) ?? 2,
+  };
 
   // Channel configs — each channel is optional
-  const discordToken = process.env.DISCORD_TOKEN?.trim() || "";
+  const discordToken = env.DISCORD_TOKEN?.trim() || "";
   const channels: ChannelsConfig = {
     discord: {
       enabled: Boolean(discordToken),
       token: discordToken,
+      allowFrom: parseAllowList(env.DISCORD_ALLOW_FROM),
+      queueMode: parseEnumVar(env, "DISCORD_QUEUE_MODE", QUEUE_MODES),
+      taskThreads: isTrue(env.DISCORD_TASK_THREADS),
     },
     whatsapp: {
-      enabled: process.env.WHATSAPP_ENABLED === "true" || process.env.WHATSAPP_ENABLED === "1",
-      authDir: process.env.WHATSAPP_AUTH_DIR?.trim() || path.join(agentDir, "whatsapp-auth"),
-      allowFrom: parseAllowList(process.env.WHATSAPP_ALLOW_FROM),
+      enabled: isTrue(env.WHATSAPP_ENABLED),
+      authDir: env.WHATSAPP_AUTH_DIR?.trim() || path.join(agentDir, "whatsapp-auth"),
+      allowFrom: parseAllowList(env.WHATSAPP_ALLOW_FROM),
+      queueMode: parseEnumVar(env, "WHATSAPP_QUEUE_MODE", QUEUE_MODES),
     },
     slack: {
-      enabled: Boolean(process.env.SLACK_BOT_TOKEN?.trim() && process.env.SLACK_APP_TOKEN?.trim()),
-      botToken: process.env.SLACK_BOT_TOKEN?.trim() || "",
-      appToken: process.env.SLACK_APP_TOKEN?.trim() || "",
-      allowFrom: parseAllowList(process.env.SLACK_ALLOW_FROM),
+      enabled: Boolean(env.SLACK_BOT_TOKEN?.trim() && env.SLACK_APP_TOKEN?.trim()),
+      botToken: env.SLACK_BOT_TOKEN?.trim() || "",
+      appToken: env.SLACK_APP_TOKEN?.trim() || "",
+      allowFrom: parseAllowList(env.SLACK_ALLOW_FROM),
+      queueMode: parseEnumVar(env, "SLACK_QUEUE_MODE", QUEUE_MODES),
+    },
+    telegram: {
+      enabled: Boolean(env.TELEGRAM_BOT_TOKEN?.trim()),
+      token: env.TELEGRAM_BOT_TOKEN?.trim() || "",
+      allowFrom: parseAllowList(env.TELEGRAM_ALLOW_FROM),
+      queueMode: parseEnumVar(env, "TELEGRAM_QUEUE_MODE", QUEUE_MODES),
+    },
+    matrix: {
+      enabled: Boolean(env.MATRIX_HOMESERVER_URL?.trim() && env.MATRIX_ACCESS_TOKEN?.trim()),
+      homeserverUrl: env.MATRIX_HOMESERVER_URL?.trim() || "",
+      accessToken: env.MATRIX_ACCESS_TOKEN?.trim() || "",
+      allowFrom: parseAllowList(env.MATRIX_ALLOW_FROM),
+      queueMode: parseEnumVar(env, "MATRIX_QUEUE_MODE", QUEUE_MODES),
+    },
+    http: {
+      enabled: isTrue(env.HTTP_ENABLED),
+      host: env.HTTP_HOST?.trim() || "127.0.0.1",
+      port: parseIntVar(env, "HTTP_PORT", { min: 0 }) ?? 8787,
+      tokens: parseHttpTokens(env.HTTP_TOKENS),
+      queueMode: parseEnumVar(env, "HTTP_QUEUE_MODE", QUEUE_MODES),
     },
+    cli: {
+      enabled: isTrue(env.CLI_ENABLED),
+      user: env.CLI_USER?.trim() || os.userInfo().username || "local",
+      imageDir: env.CLI_IMAGE_DIR?.trim() || path.join(os.tmpdir(), "nano-openclaw-images"),
+    },
+    // Extra accounts (config file only) — each becomes its own channel named after its key
+    accounts: (file?.accounts ?? []).map((account): ChannelAccountConfig =>
+      account.type === "whatsapp"
+        ? {
+            ...account,
+            enabled: true,
+            authDir: account.authDir || path.join(agentDir, `whatsapp-auth-${account.name}`),
+          }
+        : { ...account, enabled: true },
+    ),
   };
 
+  if (channels.http.enabled && channels.http.tokens.length === 0) {
+    throw new Error("HTTP_TOKENS is required when HTTP_ENABLED=true");
+  }
+
+  const reserved = new Set(["discord", "whatsapp", "slack", "telegram", "matrix", "http", "cli"]);
+  for (const account of channels.accounts) {
+    if (reserved.has(account.name) || account.name.includes(":")) {
+      throw new Error(`channels.accounts.${account.name}: name must not contain ":" or reuse a platform name`);
+    }
+  }
+
   const enabledChannels = [
     channels.discord.enabled && "discord",
     channels.whatsapp.enabled && "whatsapp",
     channels.slack.enabled && "slack",
+    channels.telegram.enabled && "telegram",
+    channels.matrix.enabled && "matrix",
+    channels.http.enabled && "http",
+    channels.cli.enabled && "cli",
+    ...channels.accounts.map((a) => a.name),
   ].filter(Boolean);
   if (enabledChannels.length === 0) {
-    throw new Error("At least one channel must be configured (DISCORD_TOKEN, WHATSAPP_ENABLED, or SLACK_BOT_TOKEN+SLACK_APP_TOKEN)");
+    throw new Error("At least one channel must be configured (DISCORD_TOKEN, WHATSAPP_ENABLED, SLACK_BOT_TOKEN+SLACK_APP_TOKEN, TELEGRAM_BOT_TOKEN, MATRIX_HOMESERVER_URL+MATRIX_ACCESS_TOKEN, HTTP_ENABLED, or CLI_ENABLED — try `npm run chat`)");
   }
 
   // Memory consolidation config
   const consolidation: ConsolidationConfig = {
-    enabled: process.env.CONSOLIDATION_ENABLED !== "false" && process.env.CONSOLIDATION_ENABLED !== "0",
-    messageThreshold: process.env.CONSOLIDATION_THRESHOLD
-      ? parseInt(process.env.CONSOLIDATION_THRESHOLD, 10)
-      : 50,
-    citations: (process.env.CITATIONS_MODE as ConsolidationConfig["citations"]) || "auto",
+    enabled: isNotFalse(env.CONSOLIDATION_ENABLED),
+    messageThreshold: parseIntVar(env, "CONSOLIDATION_THRESHOLD", { min: 1 }) ?? 50,
+    citations: parseEnumVar(env, "CITATIONS_MODE", ["auto", "on", "off"] as const) ?? "auto",
   };
 
   // Sandbox config from environment
-  const sandboxEnabled = process.env.SANDBOX_ENABLED === "true" || process.env.SANDBOX_ENABLED === "1";
+  const sandboxEnabled = isTrue(env.SANDBOX_ENABLED);
   const sandboxDefaults = defaultSandboxDockerConfig();
   const sandbox: SandboxConfig = {
     ...defaultSandboxConfig(),
     enabled: sandboxEnabled,
-    scope: (process.env.SANDBOX_SCOPE === "shared" ? "shared" : "session") as SandboxConfig["scope"],
+    scope: parseEnumVar(env, "SANDBOX_SCOPE", ["session", "shared"] as const) ?? "session",
     docker: {
       ...sandboxDefaults,
-      image: process.env.SANDBOX_IMAGE?.trim() || sandboxDefaults.image,
-      network: process.env.SANDBOX_NETWORK?.trim() || sandboxDefaults.network,
-      memory: process.env.SANDBOX_MEMORY?.trim() || undefined,
-      cpus: process.env.SANDBOX_CPUS ? parseFloat(process.env.SANDBOX_CPUS) : undefined,
-      pidsLimit: process.env.SANDBOX_PIDS_LIMIT ? parseInt(process.env.SANDBOX_PIDS_LIMIT, 10) : 256,
-      setupCommand: process.env.SANDBOX_SETUP_COMMAND?.trim() || undefined,
+      image: env.SANDBOX_IMAGE?.trim() || sandboxDefaults.image,
+      network: env.SANDBOX_NETWORK?.trim() || sandboxDefaults.network,
+      memory: env.SANDBOX_MEMORY?.trim() || undefined,
+      cpus: parseFloatVar(env, "SANDBOX_CPUS"),
+      pidsLimit: parseIntVar(env, "SANDBOX_PIDS_LIMIT", { min: 1 }) ?? 256,
+      setupCommand: env.SANDBOX_SETUP_COMMAND?.trim() || undefined,
     },
   };
 
   // Heartbeat config
   const heartbeat: HeartbeatConfig = {
     ...defaultHeartbeatConfig,
-    enabled: process.env.HEARTBEAT_ENABLED !== "false" && process.env.HEARTBEAT_ENABLED !== "0",
-    intervalMs: process.env.HEARTBEAT_INTERVAL_MS
-      ? parseInt(process.env.HEARTBEAT_INTERVAL_MS, 10)
-      : defaultHeartbeatConfig.intervalMs,
-    minIntervalMs: process.env.HEARTBEAT_MIN_INTERVAL_MS
-      ? parseInt(process.env.HEARTBEAT_MIN_INTERVAL_MS, 10)
-      : defaultHeartbeatConfig.minIntervalMs,
+    enabled: isNotFalse(env.HEARTBEAT_ENABLED),
+    intervalMs: parseIntVar(env, "HEARTBEAT_INTERVAL_MS", { min: 1000 }) ?? defaultHeartbeatConfig.intervalMs,
+    minIntervalMs: parseIntVar(env, "HEARTBEAT_MIN_INTERVAL_MS", { min: 0 }) ?? defaultHeartbeatConfig.minIntervalMs,
+    deliverTo: env.HEARTBEAT_DELIVER_TO || undefined,
   };
+  if (heartbeat.deliverTo && !heartbeat.deliverTo.includes(":")) {
+    throw new Error(`HEARTBEAT_DELIVER_TO must be a session key like "telegram:dm:123456"`);
+  }
 
   // Scheduler options
   const scheduler: SchedulerOptions = {
-    maxConcurrency: process.env.SCHEDULER_MAX_CONCURRENCY
-      ? parseInt(process.env.SCHEDULER_MAX_CONCURRENCY, 10)
-      : undefined,
-    jobTimeoutMs: process.env.SCHEDULER_JOB_TIMEOUT_MS
-      ? parseInt(process.env.SCHEDULER_JOB_TIMEOUT_MS, 10)
-      : undefined,
-    maxConsecutiveFailures: process.env.SCHEDULER_MAX_FAILURES
-      ? parseInt(process.env.SCHEDULER_MAX_FAILURES, 10)
-      : undefined,
+    maxConcurrency: parseIntVar(env, "SCHEDULER_MAX_CONCURRENCY", { min: 1 }),
+    jobTimeoutMs: parseIntVar(env, "SCHEDULER_JOB_TIMEOUT_MS", { min: 1000 }),
+    maxConsecutiveFailures: parseIntVar(env, "SCHEDULER_MAX_FAILURES", { min: 1 }),
   };
 
+  // Webhooks — hooks themselves are config-file only (webhooks.hooks)
+  const webhooks: WebhooksConfig = {
+    host: env.WEBHOOKS_HOST?.trim() || "127.0.0.1",
+    port: parseIntVar(env, "WEBHOOKS_PORT", { min: 0 }) ?? 8788,
+    hooks: (file?.hooks ?? []).map((hook) => ({
+      ...hook,
+      verify: hook.verify ?? "hmac-sha256",
+      // Payloads come from outside: guest tools unless the hook says otherwise
+      role: hook.role ?? "guest",
+      rateLimit: { ...defaultWebhookRateLimit, ...hook.rateLimit },
+    })),
+  };
+  for (const hook of webhooks.hooks) {
+    if (!hook.deliverTo.includes(":")) {
+      throw new Error(`webhooks.hooks.${hook.name}.deliverTo must be a session key like "telegram:dm:123456"`);
+    }
+  }
+
   // Firecrawl config for JS-heavy site extraction
-  const firecrawlApiKey = process.env.FIRECRAWL_API_KEY?.trim() || undefined;
+  const firecrawlApiKey = env.FIRECRAWL_API_KEY?.trim() || undefined;
   const firecrawl: FirecrawlConfig = {
-    enabled: firecrawlApiKey ? true : process.env.FIRECRAWL_ENABLED === "true",
+    enabled: firecrawlApiKey ? true : env.FIRECRAWL_ENABLED === "true",
     apiKey: firecrawlApiKey,
-    baseUrl: process.env.FIRECRAWL_BASE_URL?.trim() || undefined,
-    onlyMainContent: process.env.FIRECRAWL_ONLY_MAIN_CONTENT !== "false",
+    baseUrl: env.FIRECRAWL_BASE_URL?.trim() || undefined,
+    onlyMainContent: env.FIRECRAWL_ONLY_MAIN_CONTENT !== "false",
+  };
+
+  // Speech-to-text for voice messages (local whisper.cpp when a model is set)
+  const whisperModel = env.WHISPER_MODEL?.trim() || undefined;
+  const transcription: TranscriptionConfig = {
+    backend: parseEnumVar(env, "TRANSCRIPTION_BACKEND", TRANSCRIPTION_BACKENDS) ?? (whisperModel ? "whisper-cpp" : "none"),
+    whisperBin: env.WHISPER_BIN?.trim() || "whisper-cli",
+    whisperModel,
+    language: env.WHISPER_LANGUAGE?.trim() || "auto",
+    ffmpegBin: env.FFMPEG_BIN?.trim() || "ffmpeg",
+  };
+  if (transcription.backend === "whisper-cpp" && !whisperModel) {
+    throw new Error("WHISPER_MODEL is required when TRANSCRIPTION_BACKEND=whisper-cpp");
+  }
+
+  // Files users send (PDFs, CSVs, archives, …)
+  const attachments: AttachmentsConfig = {
+    maxBytes: parseIntVar(env, "ATTACHMENTS_MAX_BYTES", { min: 1 }) ?? 20 * 1024 * 1024,
+    allowedTypes: parseAllowList(env.ATTACHMENTS_ALLOWED_TYPES) ?? DEFAULT_ALLOWED_ATTACHMENT_TYPES,
+  };
+
+  // Spend limits (USD, per UTC day)
+  const budgets: BudgetConfig = {
+    dailyUsd: parseFloatVar(env, "BUDGET_DAILY_USD"),
+    sessionDailyUsd: parseFloatVar(env, "BUDGET_SESSION_DAILY_USD"),
+  };
+
+  // Mid-run message handling
+  const queue: QueueConfig = {
+    mode: parseEnumVar(env, "QUEUE_MODE", QUEUE_MODES) ?? "queue",
+    collectDebounceMs: parseIntVar(env, "QUEUE_COLLECT_DEBOUNCE_MS", { min: 0 }) ?? 1500,
+  };
+
+  // Warm session reuse
+  const sessionPool: SessionPoolConfig = {
+    idleMs: parseIntVar(env, "SESSION_POOL_IDLE_MS", { min: 0 }) ?? 10 * 60_000,
+    maxSessions: parseIntVar(env, "SESSION_POOL_MAX", { min: 0 }) ?? 32,
+  };
+
+  // Tool policy: config file rules first, then the env deny / ask / allow lists
+  const toolNameRules = (envVar: string, action: ToolPolicyRule["action"]): ToolPolicyRule[] =>
+    (parseAllowList(env[envVar]) ?? []).map((tool) => ({ tool, action }));
+  const toolPolicy: ToolPolicyConfig = {
+    default: parseEnumVar(env, "TOOL_POLICY_DEFAULT", TOOL_POLICY_ACTIONS) ?? "allow",
+    askTimeoutMs: parseIntVar(env, "TOOL_APPROVAL_TIMEOUT_MS", { min: 1000 }) ?? 120_000,
+    rules: [
+      ...(file?.toolRules ?? []),
+      ...toolNameRules("TOOL_POLICY_DENY", "deny"),
+      ...toolNameRules("TOOL_POLICY_ASK", "ask"),
+      ...toolNameRules("TOOL_POLICY_ALLOW", "allow"),
+    ],
+  };
+  validateToolPolicyRules(toolPolicy.rules);
+
+  // User roles and access control (default: everyone is a member, as before roles existed)
+  const access: AccessConfig = {
+    owners: parseAllowList(env.ACCESS_OWNERS) ?? [],
+    members: parseAllowList(env.ACCESS_MEMBERS) ?? [],
+    guests: parseAllowList(env.ACCESS_GUESTS) ?? [],
+    unknown: parseEnumVar(env, "ACCESS_UNKNOWN", UNKNOWN_USER_POLICIES) ?? "member",
+    refusalMessage: env.ACCESS_REFUSAL_MESSAGE?.trim() || "Sorry, I only talk to people I know.",
+    memberTools: parseAllowList(env.ACCESS_MEMBER_TOOLS) ?? ["*"],
+    guestTools: parseAllowList(env.ACCESS_GUEST_TOOLS) ?? ["web_search", "web_fetch"],
+    guestCommands: parseAllowList(env.ACCESS_GUEST_COMMANDS) ?? ["help", "status", "stop", "reset", "whoami"],
   };
 
   // Allow localhost for development (disabled by default for security)
-  const allowLocalhost = process.env.ALLOW_LOCALHOST === "true" || process.env.ALLOW_LOCALHOST === "1";
+  const allowLocalhost = isTrue(env.ALLOW_LOCALHOST);
+
+  // LLM record/replay (development only)
+  const llmFixtureMode = parseEnumVar(env, "LLM_FIXTURE_MODE", ["record", "replay"] as const);
+  const llmFixturePath = env.LLM_FIXTURE_PATH?.trim();
+  if (llmFixtureMode && !llmFixturePath) {
+    throw new Error("LLM_FIXTURE_PATH is required when LLM_FIXTURE_MODE is set");
+  }
+  const llmFixtures: LlmFixtureConfig | undefined =
+    llmFixtureMode && llmFixturePath ? { mode: llmFixtureMode, path: llmFixturePath } : undefined;
 
   return {
     provider,
     modelId,
     apiKey,
     baseUrl,
+    modelFallbacks,
+    background,
     workspaceDir,
     codeDir,
     agentDir,
@@ -224,8 +652,101 @@ export function loadConfig(): NanoConfig {
     consolidation,
     heartbeat,
     scheduler,
+    webhooks,
     thinkingLevel,
     firecrawl,
+    transcription,
+    attachments,
+    budgets,
+    queue,
+    sessionPool,
+    toolPolicy,
+    access,
+    llmFixtures,
     allowLocalhost,
+    configFile,
   };
 }
+
+/**
+ * Apply the hot-reloadable sections of `next` onto the live `current` config
+ * in place (consumers hold references to these objects). Returns the names
+ * of the sections that changed. Everything else — model, tokens, directories,
+ * sandbox — needs a restart and is left untouched.
+ */
+export function applyReloadableConfig(current: NanoConfig, next: NanoConfig): string[] {
+  const changed: string[] = [];
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+  if (!same(current.heartbeat, next.heartbeat)) {
+    Object.assign(current.heartbeat, next.heartbeat);
+    changed.push("heartbeat");
+  }
+  if (!same(current.scheduler, next.scheduler)) {
+    Object.assign(current.scheduler, next.scheduler);
+    changed.push("scheduler");
+  }
+  if (!same(current.attachments, next.attachments)) {
+    Object.assign(current.attachments, next.attachments);
+    changed.push("attachments");
+  }
+  if (!same(current.budgets, next.budgets)) {
+    Object.assign(current.budgets, next.budgets);
+    changed.push("budgets");
+  }
+  if (!same(current.queue, next.queue)) {
+    Object.assign(current.queue, next.queue);
+    changed.push("queue");
+  }
+  if (!same(current.sessionPool, next.sessionPool)) {
+    Object.assign(current.sessionPool, next.sessionPool);
+    changed.push("sessionPool");
+  }
+  if (!same(current.toolPolicy, next.toolPolicy)) {
+    Object.assign(current.toolPolicy, next.toolPolicy);
+    changed.push("toolPolicy");
+  }
+  if (!same(current.access, next.access)) {
+    Object.assign(current.access, next.access);
+    changed.push("access");
+  }
+  if (!same(current.webhooks.hooks, next.webhooks.hooks)) {
+    current.webhooks.hooks = next.webhooks.hooks;
+    changed.push("webhooks");
+  }
+  if (current.consolidation.citations !== next.consolidation.citations) {
+    current.consolidation.citations = next.consolidation.citations;
+    changed.push("citations");
+  }
+
+  type ChannelReloadable = { allowFrom?: string[]; queueMode?: QueueMode };
+  const channelTargets: Array<[ChannelReloadable | undefined, ChannelReloadable | undefined]> = [
+    [current.channels.discord, next.channels.discord],
+    [current.channels.slack, next.channels.slack],
+    [current.channels.whatsapp, next.channels.whatsapp],
+    [current.channels.telegram, next.channels.telegram],
+    [current.channels.matrix, next.channels.matrix],
+    [current.channels.http, next.channels.http],
+    ...current.channels.accounts.map((a): [ChannelReloadable, ChannelReloadable | undefined] => [
+      a,
+      next.channels.accounts.find((n) => n.name === a.name && n.type === a.type),
+    ]),
+  ];
+  let allowlistsChanged = false;
+  let queueModesChanged = false;
+  for (const [cur, nxt] of channelTargets) {
+    if (!cur || !nxt) continue;
+    if (!same(cur.allowFrom, nxt.allowFrom)) {
+      cur.allowFrom = nxt.allowFrom;
+      allowlistsChanged = true;
+    }
+    if (cur.queueMode !== nxt.queueMode) {
+      cur.queueMode = nxt.queueMode;
+      queueModesChanged = true;
+    }
+  }
+  if (allowlistsChanged) changed.push("allowlists");
+  if (queueModesChanged) changed.push("channel queue modes");
+
+  return changed;
+}
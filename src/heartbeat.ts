@@ -11,6 +11,9 @@ export interface HeartbeatConfig {
   /** Minimum interval between two heartbeats in ms — prevents rapid-fire if
    *  the process restarts frequently (default: 10 min). */
   minIntervalMs: number;
+  /** Session key that receives heartbeat replies (e.g. "telegram:dm:123456").
+   *  Unset: the heartbeat runs in its own session and nothing is sent. */
+  deliverTo?: string;
 }
 
 export const defaultHeartbeatConfig: HeartbeatConfig = {
@@ -47,6 +50,7 @@ export class HeartbeatService {
   private statePath: string;
   private state: HeartbeatState = { lastRunAtMs: 0, runCount: 0 };
   private timer?: ReturnType<typeof setInterval>;
+  private startTimer?: ReturnType<typeof setTimeout>;
   private onHeartbeat: HeartbeatCallback;
   private running = false;
 
@@ -81,13 +85,18 @@ export class HeartbeatService {
     );
 
     // First tick after initial delay, then recurring
-    setTimeout(async () => {
+    this.startTimer = setTimeout(async () => {
+      this.startTimer = undefined;
       await this.tick();
       this.timer = setInterval(() => this.tick(), this.config.intervalMs);
     }, initialDelay);
   }
 
   stop(): void {
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+      this.startTimer = undefined;
+    }
     if (this.timer) {
       clearInterval(this.timer);
       this.timer = undefined;
@@ -95,6 +104,13 @@ export class HeartbeatService {
     console.log("[heartbeat] Stopped");
   }
 
+  /** Apply a new config (e.g. after a config file reload) by restarting the timers. */
+  async reconfigure(config: HeartbeatConfig): Promise<void> {
+    this.stop();
+    this.config = config;
+    await this.start();
+  }
+
   /** Force a heartbeat immediately (e.g., for testing). */
   async runNow(): Promise<string | null> {
     return this.execute();
@@ -160,7 +176,9 @@ export class HeartbeatService {
     sections.push(
       "[HEARTBEAT] This is a periodic proactive wake-up. " +
       "Review your workspace, memory, and any pending tasks. " +
-      "Take action if something needs attention — otherwise respond briefly that all is well.",
+      (this.config.deliverTo
+        ? "Your reply is sent to the user: message them only if something needs their attention, otherwise reply exactly NO_REPLY."
+        : "Take action if something needs attention — otherwise respond briefly that all is well."),
     );
 
     // Read MEMORY.md for context
@@ -1,73 +1,152 @@
 import path from "node:path";
-import { loadConfig } from "./config.js";
+import { applyReloadableConfig, loadConfig } from "./config.js";
+import { watchConfigFile } from "./config-file.js";
 import { AgentRunner } from "./agent.js";
 import { DiscordChannel } from "./channels/discord.js";
 import { ChannelManager } from "./channels/manager.js";
+import type { OutboundMessage } from "./channels/base.js";
 import { Scheduler } from "./scheduler.js";
 import { HeartbeatService } from "./heartbeat.js";
+import { WebhookServer } from "./webhooks.js";
 import { removeAllSandboxContainers } from "./sandbox/index.js";
 import { buildAnnounceMessage, buildSpawnProgressMessage } from "./subagent.js";
+import { THINKING_LEVELS, isThinkingLevel } from "./agent/session-overrides.js";
+import { formatUsageReport } from "./agent/usage.js";
+import { QUEUE_MODES, isQueueMode } from "./agent/inbound-queue.js";
+import { ACCESS_ROLES, AccessControl, isAccessRole, userRef } from "./security/access.js";
+import { IdentityStore } from "./security/identity.js";
+import { createSpeechToText } from "./media/transcribe.js";
+import { Inbox } from "./channels/inbox.js";
+
+/** Commands answered by the handler in main(); other "/…" text goes to the agent. */
+const CHAT_COMMANDS = ["stop", "reset", "status", "model", "think", "queue", "usage", "whoami", "link", "pair", "role", "help"];
 
 async function main() {
   console.log("nano-openclaw starting...");
 
+  // `npm run chat`: talk to the agent in this terminal
+  if (process.argv.includes("--chat")) process.env.CLI_ENABLED = "true";
+
   const config = loadConfig();
 
   // Initialize agent runner
   const agent = new AgentRunner(config);
   await agent.init();
 
+  // Accounts linked across channels with /link
+  const identities = new IdentityStore(config.agentDir);
+  await identities.load();
+
+  // Roles / pairing grants, checked by the channel manager before dispatch
+  const access = new AccessControl(config.agentDir, config.access);
+  await access.load();
+
   // Build channel manager with enabled channels
-  const channels = new ChannelManager();
+  const channels = new ChannelManager({ agentDir: config.agentDir });
+  channels.setAccessControl(access, config.access);
+  channels.setIdentities(identities);
+
+  // Files users send are saved under code/inbox/<session>/ for the agent's tools
+  const inbox = new Inbox(config.codeDir, config.attachments);
+  const whatsappOptions = { speechToText: createSpeechToText(config.transcription), inbox };
 
   if (config.channels.discord.enabled) {
-    channels.add(new DiscordChannel(config.channels.discord.token));
+    channels.add(new DiscordChannel(config.channels.discord, { inbox }));
   }
 
   if (config.channels.whatsapp.enabled) {
     const { WhatsAppChannel } = await import("./channels/whatsapp.js");
-    channels.add(new WhatsAppChannel(config.channels.whatsapp));
+    channels.add(new WhatsAppChannel(config.channels.whatsapp, whatsappOptions));
   }
 
   if (config.channels.slack.enabled) {
     const { SlackChannel } = await import("./channels/slack.js");
-    channels.add(new SlackChannel(config.channels.slack));
+    channels.add(new SlackChannel(config.channels.slack, { inbox }));
+  }
+
+  if (config.channels.telegram.enabled) {
+    const { TelegramChannel } = await import("./channels/telegram.js");
+    channels.add(new TelegramChannel(config.channels.telegram, { inbox }));
+  }
+
+  if (config.channels.matrix.enabled) {
+    const { MatrixChannel } = await import("./channels/matrix.js");
+    channels.add(new MatrixChannel(config.channels.matrix, { inbox }));
+  }
+
+  if (config.channels.http.enabled) {
+    const { HttpChannel } = await import("./channels/http.js");
+    channels.add(new HttpChannel(config.channels.http));
+  }
+
+  if (config.channels.cli.enabled) {
+    const { CliChannel } = await import("./channels/cli.js");
+    channels.add(new CliChannel(config.channels.cli));
+  }
+
+  // Additional accounts from the config file (e.g. a second Slack workspace)
+  for (const account of config.channels.accounts) {
+    if (account.type === "discord") {
+      channels.add(new DiscordChannel(account, { inbox }));
+    } else if (account.type === "whatsapp") {
+      const { WhatsAppChannel } = await import("./channels/whatsapp.js");
+      channels.add(new WhatsAppChannel(account, whatsappOptions));
+    } else if (account.type === "telegram") {
+      const { TelegramChannel } = await import("./channels/telegram.js");
+      channels.add(new TelegramChannel(account, { inbox }));
+    } else if (account.type === "matrix") {
+      const { MatrixChannel } = await import("./channels/matrix.js");
+      channels.add(new MatrixChannel(account, { inbox }));
+    } else {
+      const { SlackChannel } = await import("./channels/slack.js");
+      channels.add(new SlackChannel(account, { inbox }));
+    }
   }
 
   console.log(`[channels] Enabled: ${channels.enabledNames.join(", ")}`);
 
-  // Initialize scheduler for cron jobs / reminders
-  const schedulerStorePath = path.join(config.agentDir, "cron-store.json");
-  const scheduler = new Scheduler(schedulerStorePath, async (job) => {
-    // Extract channel name and channel ID from session key (e.g. "discord:channel:123")
-    const parts = job.sessionKey.split(":");
+  // Where a session's messages go: its own channel, or for a shared "identity:" session,
+  // the DM the user wrote from last. `channelId` (the chat the session last heard from)
+  // is used when given; otherwise the chat is the key's last segment, unless the channel
+  // says otherwise (Slack threads).
+  const resolveTarget = (sessionKey: string, channelId?: string): { channelName: string; channelId: string } => {
+    const origin = identities.originOf(sessionKey);
+    const key = origin ?? sessionKey;
+    const parts = key.split(":");
     const channelName = parts[0] || "discord";
-    const channelId = parts[parts.length - 1];
-    if (!channelId) {
-      console.error(`[scheduler] Cannot resolve channel from session key: ${job.sessionKey}`);
-      return;
-    }
+    if (channelId && !origin) return { channelName, channelId };
+    return { channelName, channelId: channels.get(channelName)?.deliveryTarget?.(key) ?? parts[parts.length - 1] };
+  };
 
-    const targetChannel = channels.get(channelName);
+  // Proactive delivery to the channel a session key belongs to (e.g. "discord:channel:123"),
+  // through the outbound queue. Used for cron jobs, heartbeat and webhook replies.
+  // Returns false if the channel can't be resolved.
+  const deliverToSession = async (sessionKey: string, message: OutboundMessage, source: string): Promise<boolean> => {
+    const { channelName, channelId } = resolveTarget(sessionKey);
+    if (!channelId || !channels.get(channelName)) {
+      console.error(`[delivery] Cannot resolve channel from session key: ${sessionKey}`);
+      return false;
+    }
+    await channels.deliver(channelName, channelId, message, source);
+    return true;
+  };
 
+  // Initialize scheduler for cron jobs / reminders
+  const schedulerStorePath = path.join(config.agentDir, "cron-store.json");
+  const scheduler = new Scheduler(schedulerStorePath, async (job) => {
     if (job.payload.kind === "systemEvent") {
-      console.log(`[scheduler] Delivering systemEvent to ${channelName}:${channelId}: ${job.payload.text.slice(0, 80)}`);
-      if (targetChannel && "sendToChannel" in targetChannel) {
-        await (targetChannel as { sendToChannel: (id: string, text: string) => Promise<void> }).sendToChannel(channelId, job.payload.text);
-      }
+      console.log(`[scheduler] Delivering systemEvent to ${job.sessionKey}: ${job.payload.text.slice(0, 80)}`);
+      await deliverToSession(job.sessionKey, { text: job.payload.text }, "cron");
     } else if (job.payload.kind === "agentTurn") {
-      console.log(`[scheduler] Running agentTurn for ${channelName}:${channelId}: ${job.payload.message.slice(0, 80)}`);
+      console.log(`[scheduler] Running agentTurn for ${job.sessionKey}: ${job.payload.message.slice(0, 80)}`);
       const response = await agent.handleCronAgentTurn(
         job.sessionKey,
         job.payload.message,
       );
-      if (response?.text && targetChannel && "sendToChannel" in targetChannel) {
-        const images = response.images?.map((img) => ({
-          data: img.data,
-          name: img.name,
-        }));
-        await (targetChannel as { sendToChannel: (id: string, text: string, images?: unknown) => Promise<void> }).sendToChannel(channelId, response.text, images);
-        console.log(`[scheduler] Delivered agentTurn result to ${channelName}:${channelId}`);
+      if (response?.text) {
+        if (await deliverToSession(job.sessionKey, response, "cron")) {
+          console.log(`[scheduler] Delivered agentTurn result to ${job.sessionKey}`);
+        }
       }
     }
   }, config.scheduler);
@@ -83,23 +162,18 @@ async function main() {
       totalSpawned: params.totalSpawned,
     });
 
-    const channelName = params.parentSessionKey.split(":")[0] || "discord";
+    const { channelName, channelId: parentChannelId } = resolveTarget(params.parentSessionKey, params.parentChannelId);
     console.log(
-      `[subagent.progress] label="${params.label || 'none'}" channelName=${channelName} parentChannelId=${params.parentChannelId} totalSpawned=${params.totalSpawned}`,
+      `[subagent.progress] label="${params.label || 'none'}" channelName=${channelName} parentChannelId=${parentChannelId} totalSpawned=${params.totalSpawned}`,
     );
 
     // Send progress update to the channel — use parentChannelId (actual channel ID),
     // NOT the session key suffix (which is a user ID for DMs, not the channel ID).
-    if (params.parentChannelId) {
-      const targetChannel = channels.get(channelName);
-      console.log(`[subagent.progress] targetChannel found: ${!!targetChannel}, hasSendToChannel: ${!!(targetChannel && "sendToChannel" in targetChannel)}`);
-      if (targetChannel && "sendToChannel" in targetChannel) {
-        try {
-          await (targetChannel as { sendToChannel: (id: string, text: string) => Promise<void> }).sendToChannel(params.parentChannelId, progressText);
-          console.log(`[subagent.progress] Sent to ${channelName}:${params.parentChannelId}`);
-        } catch (err) {
-          console.error(`[subagent.progress] sendToChannel FAILED:`, err instanceof Error ? err.message : String(err));
-        }
+    if (parentChannelId) {
+      try {
+        await channels.deliver(channelName, parentChannelId, { text: progressText }, "subagent");
+      } catch (err) {
+        console.error(`[subagent.progress] Delivery FAILED:`, err instanceof Error ? err.message : String(err));
       }
     } else {
       console.log(`[subagent.progress] WARNING: parentChannelId is empty/missing`);
@@ -108,7 +182,6 @@ async function main() {
 
   // Wire subagent tool progress callback: send each tool call from subagents to the channel
   agent.setSubagentToolProgressCallback(async (params) => {
-    const channelName = "discord"; // subagents always inherit parent channel
     const emoji: Record<string, string> = {
       web_search: "🔍", web_fetch: "🌐", browser: "🖥️", read: "📄",
       write: "✏️", edit: "📝", exec: "💻", bash: "💻", memory: "🧠",
@@ -130,11 +203,10 @@ async function main() {
       }
     }
 
-    if (params.parentChannelId) {
-      const targetChannel = channels.get(channelName);
-      if (targetChannel && "sendToChannel" in targetChannel) {
-        await (targetChannel as { sendToChannel: (id: string, text: string) => Promise<void> }).sendToChannel(params.parentChannelId, text).catch(() => {});
-      }
+    // Live progress is best-effort — not worth queueing for retries
+    const { channelName, channelId } = resolveTarget(params.parentSessionKey, params.parentChannelId);
+    if (channelId) {
+      await channels.get(channelName)?.send(channelId, { text }).catch(() => {});
     }
   });
 
@@ -154,9 +226,9 @@ async function main() {
       remainingActiveChildren: remainingActive,
     });
 
-    const channelName = params.parentSessionKey.split(":")[0] || "discord";
+    const { channelName, channelId: parentChannelId } = resolveTarget(params.parentSessionKey, params.parentChannelId);
     console.log(
-      `[subagent.announce] label="${params.label || 'none'}" status=${params.status} channelName=${channelName} parentChannelId=${params.parentChannelId} remainingActive=${remainingActive}`,
+      `[subagent.announce] label="${params.label || 'none'}" status=${params.status} channelName=${channelName} parentChannelId=${parentChannelId} remainingActive=${remainingActive}`,
     );
 
     // Inject the announce as a new message into the parent agent session
@@ -168,26 +240,18 @@ async function main() {
       userId: "system",
       userName: "subagent-announce",
       isGroup: false,
-    }, {});
+    }, {}, { queueMode: "queue" });
     console.log(`[subagent.announce] Parent response: text=${response?.text ? response.text.slice(0, 80) + '...' : 'null'}, isNoReply=${response?.text === 'NO_REPLY'}`);
 
     // Deliver response to the appropriate channel — use parentChannelId (actual channel ID),
     // NOT the session key suffix (which is a user ID for DMs, not the channel ID).
     if (response?.text && response.text !== "NO_REPLY") {
-      if (params.parentChannelId) {
-        const targetChannel = channels.get(channelName);
-        console.log(`[subagent.announce] Delivering to ${channelName}:${params.parentChannelId}, targetChannel=${!!targetChannel}`);
-        if (targetChannel && "sendToChannel" in targetChannel) {
-          const images = response.images?.map((img) => ({
-            data: img.data,
-            name: img.name,
-          }));
-          try {
-            await (targetChannel as { sendToChannel: (id: string, text: string, images?: unknown) => Promise<void> }).sendToChannel(params.parentChannelId, response.text, images);
-            console.log(`[subagent.announce] Delivered to ${channelName}:${params.parentChannelId}`);
-          } catch (err) {
-            console.error(`[subagent.announce] sendToChannel FAILED:`, err instanceof Error ? err.message : String(err));
-          }
+      if (parentChannelId) {
+        console.log(`[subagent.announce] Delivering to ${channelName}:${parentChannelId}`);
+        try {
+          await channels.deliver(channelName, parentChannelId, response, "subagent");
+        } catch (err) {
+          console.error(`[subagent.announce] Delivery FAILED:`, err instanceof Error ? err.message : String(err));
         }
       } else {
         console.log(`[subagent.announce] WARNING: parentChannelId is empty/missing, cannot deliver`);
@@ -212,10 +276,18 @@ async function main() {
     workspaceDir: config.workspaceDir,
     agentDir: config.agentDir,
     onHeartbeat: async (prompt) => {
-      // Run heartbeat through the agent, delivering to the first available channel
+      // With HEARTBEAT_DELIVER_TO the heartbeat runs in that session and its reply is sent there
+      const { deliverTo } = config.heartbeat;
+      if (deliverTo) {
+        const response = await agent.handleCronAgentTurn(deliverTo, prompt, "heartbeat");
+        if (response?.text && response.text.trim() !== "NO_REPLY") {
+          await deliverToSession(deliverTo, response, "heartbeat");
+        }
+        return response?.text ?? null;
+      }
       const firstChannel = channels.enabledNames[0];
       if (!firstChannel) {
-        console.log("[heartbeat] No channels available for delivery");
+        console.log("[heartbeat] No channels available");
         return null;
       }
       const response = await agent.handleCronAgentTurn(
@@ -227,7 +299,52 @@ async function main() {
   });
   await heartbeat.start();
 
-  channels.onCommand(async (command, _args, sessionKey, _channelId) => {
+  // Inbound webhooks: POST /hooks/<name> runs a templated prompt as a turn
+  // and delivers the reply like a cron agentTurn
+  const webhooks = new WebhookServer({
+    config: config.webhooks,
+    agentDir: config.agentDir,
+    onTurn: async (hook, prompt) => {
+      const response = await agent.handleCronAgentTurn(hook.deliverTo, prompt, "webhook", hook.role);
+      if (response?.text) {
+        const delivered = await deliverToSession(hook.deliverTo, response, "webhook");
+        if (!delivered) throw new Error(`Cannot deliver to ${hook.deliverTo}`);
+      }
+    },
+  });
+  await webhooks.start();
+
+  // Hot-reload safe config sections when nano-openclaw.json changes.
+  // Channels, model and directories are left alone (restart to apply).
+  const stopWatchingConfig = config.configFile
+    ? watchConfigFile(config.configFile, () => {
+        let next;
+        try {
+          next = loadConfig();
+        } catch (err) {
+          console.error(`[config] Reload rejected, keeping current config:\n${err instanceof Error ? err.message : String(err)}`);
+          return;
+        }
+        const changed = applyReloadableConfig(config, next);
+        if (changed.length === 0) {
+          console.log("[config] Reloaded (no hot-reloadable changes; other edits need a restart)");
+          return;
+        }
+        console.log(`[config] Reloaded: ${changed.join(", ")}`);
+        if (changed.includes("heartbeat")) {
+          heartbeat.reconfigure(config.heartbeat).catch((err) => console.error("[config] Heartbeat reconfigure failed:", err));
+        }
+        if (changed.includes("scheduler")) scheduler.updateOptions(config.scheduler);
+      })
+    : undefined;
+  if (config.configFile) {
+    console.log(`[config] Loaded ${config.configFile} (watching for changes)`);
+  }
+
+  channels.onCommand(async (command, args, chatSessionKey, _channelId, userId, isGroup) => {
+    const channelName = chatSessionKey.split(":")[0];
+    // In a DM of a linked account with a shared session, session commands act on the shared one
+    const sessionKey = identities.sharedSessionFor(channelName, userId, chatSessionKey) ?? chatSessionKey;
     switch (command) {
       case "stop": {
         const aborted = agent.abortSession(sessionKey);
@@ -236,8 +353,9 @@ async function main() {
           : "No active task to stop.";
       }
       case "reset": {
-        // Abort if running, then delete session file
+        // Abort if running, drop the warm session, then delete session file
         agent.abortSession(sessionKey);
+        agent.evictSession(sessionKey);
         const safe = sessionKey.replace(/[^a-zA-Z0-9_-]/g, "_");
         const sessionFile = path.join(config.agentDir, "sessions", `${safe}.jsonl`);
         try {
@@ -248,20 +366,220 @@ async function main() {
       }
       case "status": {
         const active = agent.isSessionActive(sessionKey);
-        return active ? "⚙️ Agent is currently running." : "💤 No active task.";
+        const settings = agent.getSessionSettings(sessionKey);
+        const model = agent.getActiveModel(sessionKey) ?? settings.model;
+        const state = active ? "⚙️ Agent is currently running." : "💤 No active task.";
+        return `${state}\nModel: \`${model}\` · Thinking: \`${settings.thinkingLevel}\` · Queue: \`${settings.queueMode}\``;
+      }
+      case "model": {
+        if (!args) {
+          const settings = agent.getSessionSettings(sessionKey);
+          const { available, fallbacks } = agent.listModels();
+          const lines = [
+            `**Current model:** \`${settings.model}\`${settings.modelOverridden ? " (session override)" : ""}`,
+          ];
+          if (fallbacks.length > 0) {
+            lines.push(`**Fallbacks:** ${fallbacks.map((m) => `\`${m}\``).join(" → ")}`);
+          }
+          if (available.length > 0) {
+            const shown = available.slice(0, 30);
+            lines.push(`**Available:**\n${shown.map((m) => `• \`${m}\``).join("\n")}`);
+            if (available.length > shown.length) {
+              lines.push(`…and ${available.length - shown.length} more`);
+            }
+          }
+          lines.push("Usage: `/model <provider/id>` or `/model default`");
+          return lines.join("\n");
+        }
+        if (args === "default" || args === "reset") {
+          await agent.setSessionModel(sessionKey, null);
+          return `🔁 Model reset to default: \`${config.provider}/${config.modelId}\``;
+        }
+        try {
+          await agent.setSessionModel(sessionKey, args);
+          return `🧠 Model for this session set to \`${args}\``;
+        } catch (err) {
+          return `❌ ${err instanceof Error ? err.message : String(err)}`;
+        }
+      }
+      case "think": {
+        const level = args.toLowerCase();
+        if (!level) {
+          const settings = agent.getSessionSettings(sessionKey);
+          return `Thinking level: \`${settings.thinkingLevel}\`${settings.thinkingOverridden ? " (session override)" : ""}\nUsage: \`/think <${THINKING_LEVELS.join("|")}>\` or \`/think default\``;
+        }
+        if (level === "default" || level === "reset") {
+          await agent.setSessionThinkingLevel(sessionKey, null);
+          return `🔁 Thinking level reset to default: \`${config.thinkingLevel}\``;
+        }
+        if (!isThinkingLevel(level)) {
+          return `❌ Unknown thinking level "${args}". Use one of: ${THINKING_LEVELS.join(", ")}`;
+        }
+        await agent.setSessionThinkingLevel(sessionKey, level);
+        return `💭 Thinking level for this session set to \`${level}\``;
+      }
+      case "queue": {
+        const mode = args.toLowerCase();
+        if (!mode) {
+          const settings = agent.getSessionSettings(sessionKey);
+          return [
+            `Queue mode: \`${settings.queueMode}\`${settings.queueModeOverridden ? " (session override)" : ""}`,
+            "• `queue` — each message runs as its own turn, in order",
+            "• `collect` — messages sent in quick succession are merged into one prompt",
+            "• `steer` — messages sent mid-run are injected into the running task",
+            `Usage: \`/queue <${QUEUE_MODES.join("|")}>\` or \`/queue default\``,
+          ].join("\n");
+        }
+        if (mode === "default" || mode === "reset") {
+          await agent.setSessionQueueMode(sessionKey, null);
+          return `🔁 Queue mode reset to default: \`${agent.getSessionSettings(sessionKey).queueMode}\``;
+        }
+        if (!isQueueMode(mode)) {
+          return `❌ Unknown queue mode "${args}". Use one of: ${QUEUE_MODES.join(", ")}`;
+        }
+        await agent.setSessionQueueMode(sessionKey, mode);
+        return `📥 Queue mode for this session set to \`${mode}\``;
+      }
+      case "usage": {
+        // The global views list every session's spend, so only owners see them
+        const isOwner = access.resolveRole(channelName, userId) === "owner";
+        const scope = args.toLowerCase() || (isOwner ? "today" : "session");
+        const ledger = agent.getUsageLedger();
+        if (scope === "today" || scope === "month") {
+          if (!isOwner) return "⛔ `/usage today|month` covers every session — only owners can see it. Try `/usage session`.";
+          const summary = await ledger.summarize(scope);
+          return formatUsageReport(summary, {
+            title: scope === "today" ? "Usage today" : "Usage this month",
+            budgets: config.budgets,
+          });
+        }
+        if (scope === "session") {
+          const [today, month] = await Promise.all([
+            ledger.summarize("today", sessionKey),
+            ledger.summarize("month", sessionKey),
+          ]);
+          return [
+            formatUsageReport(today, { title: "This session today", budgets: config.budgets }),
+            formatUsageReport(month, { title: "This session this month" }),
+          ].join("\n\n");
+        }
+        return "Usage: `/usage [today|month|session]`";
+      }
+      case "whoami": {
+        const role = access.resolveRole(channelName, userId) ?? `${config.access.unknown} (unknown user)`;
+        const linked = identities.identityOf(channelName, userId);
+        return `You are \`${userRef(channelName, userId)}\` · Role: \`${role}\`${linked ? ` · Identity: \`${linked.id}\`` : ""}`;
+      }
+      case "link": {
+        const [action = "", value = ""] = args.split(/\s+/).filter(Boolean);
+        const usage = "Usage: `/link` (get a code), `/link <code>`, `/link status`, `/link session <on|off>`, `/link remove`";
+        if (!action) {
+          // Anyone who sees the code can link their account into this identity
+          if (isGroup) return "🔒 Link codes are only given out in a direct message — send me `/link` there.";
+          const { code } = await identities.issueCode(channelName, userId, userId);
+          return [
+            `🔗 Your link code: \`${code}\``,
+            `Send \`/link ${code}\` from your account on another platform within 10 minutes to link the two.`,
+          ].join("\n");
+        }
+        if (action === "status") {
+          const linked = identities.identityOf(channelName, userId);
+          if (!linked) return "This account isn't linked to any other. Run `/link` to get a code.";
+          return [
+            `**Identity \`${linked.id}\`:**`,
+            ...linked.identity.accounts.map((a) => `• \`${a}\``),
+            `Shared session: ${linked.identity.sharedSession ? "on" : "off"}`,
+          ].join("\n");
+        }
+        if (action === "session") {
+          const linked = identities.identityOf(channelName, userId);
+          if (!linked) return "Link an account first — run `/link` to get a code.";
+          if (value !== "on" && value !== "off") return "Usage: `/link session <on|off>`";
+          await identities.setSharedSession(linked.id, value === "on");
+          return value === "on"
+            ? "🧵 Your DMs on every linked platform now share one conversation."
+            : "🔀 Each platform keeps its own conversation again.";
+        }
+        if (action === "remove") {
+          return (await identities.unlink(channelName, userId))
+            ? "🔓 This account is no longer linked."
+            : "This account isn't linked to any other.";
+        }
+        if (/^[A-Za-z0-9]{6}$/.test(action)) {
+          const result = await identities.redeem(action, channelName, userId);
+          if ("error" in result) return `❌ ${result.error}`;
+          const moved = await agent.reassignUserMemory(result.merged, result.identity);
+          if (moved > 0) console.log(`[identity] Moved ${moved} memories to ${result.identity}`);
+          return `✅ Linked! Both accounts are now \`${result.identity}\`. Use \`/link session on\` to share one conversation across them.`;
+        }
+        return usage;
+      }
+      case "pair": {
+        const [action = "list", code, roleArg = "member"] = args.split(/\s+/).filter(Boolean);
+        if (action === "list") {
+          const pending = access.listPending();
+          if (pending.length === 0) return "No pending pairing requests.";
+          return [
+            "**Pending pairing requests:**",
+            ...pending.map((p) => `• \`${p.code}\` — ${p.userName} (\`${p.user}\`) since ${p.requestedAt.slice(0, 16).replace("T", " ")} UTC`),
+            "Approve with `/pair approve <code> [member|guest|owner]`, reject with `/pair deny <code>`.",
+          ].join("\n");
+        }
+        if (!code) return "Usage: `/pair [list]`, `/pair approve <code> [role]`, `/pair deny <code>`";
+        if (action === "approve") {
+          if (!isAccessRole(roleArg)) return `❌ Unknown role "${roleArg}". Use one of: ${ACCESS_ROLES.join(", ")}`;
+          const request = await access.approve(code, roleArg, userRef(channelName, userId));
+          if (!request) return `❌ No pending request with code \`${code}\` (codes expire after an hour).`;
+          await channels
+            .deliver(request.channel, request.channelId, { text: `✅ You've been approved as ${roleArg}. Go ahead!` }, "pairing")
+            .catch(() => {});
+          return `✅ ${request.userName} (\`${request.user}\`) approved as \`${roleArg}\``;
+        }
+        if (action === "deny") {
+          return (await access.deny(code)) ? `🚫 Pairing request \`${code}\` rejected.` : `❌ No pending request with code \`${code}\`.`;
+        }
+        return "Usage: `/pair [list]`, `/pair approve <code> [role]`, `/pair deny <code>`";
+      }
+      case "role": {
+        const [user, roleArg] = args.split(/\s+/).filter(Boolean);
+        if (!user) {
+          const grants = access.listGrants();
+          const lines = [
+            `**Config roles:** owners ${config.access.owners.length}, members ${config.access.members.length}, guests ${config.access.guests.length} · unknown users: \`${config.access.unknown}\``,
+          ];
+          if (grants.length > 0) {
+            lines.push("**Granted in chat:**", ...grants.map((g) => `• \`${g.user}\`${g.name ? ` (${g.name})` : ""} — ${g.role}`));
+          }
+          lines.push("Usage: `/role <channel:userId> <owner|member|guest|none>`");
+          return lines.join("\n");
+        }
+        if (!user.includes(":") || !roleArg) return "Usage: `/role <channel:userId> <owner|member|guest|none>`";
+        if (roleArg !== "none" && !isAccessRole(roleArg)) {
+          return `❌ Unknown role "${roleArg}". Use one of: ${ACCESS_ROLES.join(", ")}, none`;
+        }
+        await access.setRole(user, roleArg === "none" ? null : roleArg, userRef(channelName, userId));
+        return roleArg === "none" ? `🔁 Removed the granted role of \`${user}\`` : `👤 \`${user}\` is now \`${roleArg}\``;
       }
       case "help":
         return [
           "**Commands:**",
           "`/stop` — Cancel the current agent task",
           "`/reset` — Clear conversation history and start fresh",
-          "`/status` — Check if the agent is busy",
+          "`/status` — Check if the agent is busy and which model it's using",
+          "`/model [provider/id]` — List models or switch this session's model",
+          "`/think <off|low|medium|high>` — Set this session's thinking level",
+          "`/queue <queue|collect|steer>` — How messages sent mid-run are handled",
+          "`/usage [session|today|month]` — Show this session's token usage and cost (all sessions: owner)",
+          "`/whoami` — Show your user ID and role",
+          "`/link [code|status|session on|off|remove]` — Link your accounts on other platforms",
+          "`/pair [approve|deny <code>]` — Review pairing requests (owner)",
+          "`/role <channel:userId> <role>` — Grant or revoke a role (owner)",
           "`/help` — Show this message",
         ].join("\n");
       default:
         return null; // Not a known command — fall through to agent
     }
-  });
+  }, CHAT_COMMANDS);
 
   channels.onMessage(async (msg, stream) => {
     console.log(
@@ -283,9 +601,12 @@ async function main() {
   // Graceful shutdown
   const shutdown = async () => {
     console.log("\nShutting down...");
+    stopWatchingConfig?.();
     heartbeat.stop();
     scheduler.stop();
+    await webhooks.stop();
     await channels.stopAll();
+    agent.shutdown();
     if (config.sandbox.enabled) {
       console.log("[sandbox] Cleaning up containers...");
       const result = await removeAllSandboxContainers();
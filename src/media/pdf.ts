@@ -0,0 +1,45 @@
+// Lazy-loaded pdfjs-dist (same approach as openclaw's src/media/input-files.ts)
+type PdfJsModule = typeof import("pdfjs-dist/legacy/build/pdf.mjs");
+let pdfJsModulePromise: Promise<PdfJsModule> | null = null;
+
+async function loadPdfJs(): Promise<PdfJsModule> {
+  if (!pdfJsModulePromise) {
+    pdfJsModulePromise = import("pdfjs-dist/legacy/build/pdf.mjs").catch((err) => {
+      pdfJsModulePromise = null;
+      throw new Error(
+        `pdfjs-dist is required for PDF extraction: ${String(err)}`,
+      );
+    });
+  }
+  return pdfJsModulePromise;
+}
+
+/** Text of the first `maxPages` pages, pages separated by blank lines. */
+export async function extractPdfText(
+  data: ArrayBuffer | Uint8Array,
+  maxPages: number,
+): Promise<{ text: string; numPages: number }> {
+  const { getDocument } = await loadPdfJs();
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    useWorkerFetch: false,
+    isEvalSupported: false,
+  }).promise;
+
+  const lastPage = Math.min(pdf.numPages, maxPages);
+  const textParts: string[] = [];
+
+  for (let pageNum = 1; pageNum <= lastPage; pageNum += 1) {
+    const page = await pdf.getPage(pageNum);
+    const textContent = await page.getTextContent();
+    const pageText = textContent.items
+      .map((item) => ("str" in item ? String(item.str) : ""))
+      .filter(Boolean)
+      .join(" ");
+    if (pageText) {
+      textParts.push(pageText);
+    }
+  }
+
+  return { text: textParts.join("\n\n"), numPages: pdf.numPages };
+}
@@ -0,0 +1,90 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Speech-to-text for voice messages.
+ *
+ * Channels take a `SpeechToText` and stay unaware of the backend. The one
+ * built in runs whisper.cpp locally: the audio is converted to 16 kHz mono
+ * WAV with ffmpeg (voice notes are usually Ogg/Opus), then transcribed by the
+ * `whisper-cli` binary with a ggml model — nothing leaves the machine.
+ */
+
+export const TRANSCRIPTION_BACKENDS = ["none", "whisper-cpp"] as const;
+export type TranscriptionBackend = (typeof TRANSCRIPTION_BACKENDS)[number];
+
+export interface TranscriptionConfig {
+  /** "none" disables transcription — voice messages are answered with a notice. */
+  backend: TranscriptionBackend;
+  /** whisper.cpp CLI binary (default: "whisper-cli"). */
+  whisperBin: string;
+  /** ggml model file, e.g. models/ggml-base.bin (required for whisper-cpp). */
+  whisperModel?: string;
+  /** Spoken language code ("en", "de", …) or "auto" to detect. */
+  language: string;
+  /** ffmpeg binary used to convert audio for whisper.cpp. */
+  ffmpegBin: string;
+}
+
+export interface SpeechToText {
+  readonly name: string;
+  /** Transcribe an audio clip; resolves to "" when nothing intelligible was said. */
+  transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+const TRANSCRIBE_TIMEOUT_MS = 120_000;
+
+export function createSpeechToText(config: TranscriptionConfig): SpeechToText | undefined {
+  switch (config.backend) {
+    case "none":
+      return undefined;
+    case "whisper-cpp":
+      return new WhisperCppSpeechToText(config);
+  }
+}
+
+export class WhisperCppSpeechToText implements SpeechToText {
+  readonly name = "whisper-cpp";
+
+  constructor(private config: TranscriptionConfig) {}
+
+  async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    if (!this.config.whisperModel) throw new Error("No whisper.cpp model configured (WHISPER_MODEL)");
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "nano-openclaw-stt-"));
+    try {
+      const input = path.join(dir, `input.${mimeType.split("/")[1]?.split(";")[0] || "audio"}`);
+      const wav = path.join(dir, "audio.wav");
+      const output = path.join(dir, "transcript");
+      await fs.writeFile(input, audio);
+      await run(this.config.ffmpegBin, ["-nostdin", "-loglevel", "error", "-y", "-i", input, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wav]);
+      await run(this.config.whisperBin, [
+        "-m", this.config.whisperModel,
+        "-f", wav,
+        "-l", this.config.language,
+        "-nt", // no timestamps
+        "-np", // no progress / system info on stderr
+        "-otxt",
+        "-of", output,
+      ]);
+      const text = await fs.readFile(`${output}.txt`, "utf-8");
+      // whisper.cpp marks silence and noise as "[BLANK_AUDIO]", "(music)" etc.
+      return text.replace(/\[[A-Z_ ]+\]|\((?:music|noise|silence)\)/gi, " ").replace(/\s+/g, " ").trim();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
+
+function run(command: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: TRANSCRIBE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }, (err, _stdout, stderr) => {
+      if (err) {
+        reject(new Error(`${path.basename(command)} failed: ${stderr.toString().trim() || err.message}`));
+        return;
+      }
+      resolve();
+    });
+  });
+}
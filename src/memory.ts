@@ -8,8 +8,15 @@ export interface MemoryEntry {
   tags: string[];
   createdAt: string;
   updatedAt: string;
+  /** Canonical user ID for memories about one person; unset for shared memories. */
+  user?: string;
 }
 
+/**
+ * Shared memories are visible to every conversation. Per-user memories (with
+ * `user` set) are only visible to — and editable by — that user, across all
+ * the accounts linked into their identity.
+ */
 export class MemoryStore {
   private memories: MemoryEntry[] = [];
   private filePath: string;
@@ -32,34 +39,54 @@ export class MemoryStore {
     await fs.writeFile(this.filePath, JSON.stringify(this.memories, null, 2));
   }
 
-  async store(content: string, tags: string[] = []): Promise<MemoryEntry> {
+  async store(content: string, tags: string[] = [], user?: string): Promise<MemoryEntry> {
     const entry: MemoryEntry = {
       id: randomUUID(),
       content,
       tags,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      ...(user ? { user } : {}),
     };
     this.memories.push(entry);
     await this.save();
     return entry;
   }
 
-  async search(query: string): Promise<MemoryEntry[]> {
+  async search(query: string, user?: string): Promise<MemoryEntry[]> {
     const lower = query.toLowerCase();
-    return this.memories.filter(
+    return this.visibleTo(user).filter(
       (m) =>
         m.content.toLowerCase().includes(lower) ||
         m.tags.some((t) => t.toLowerCase().includes(lower)),
     );
   }
 
-  async list(): Promise<MemoryEntry[]> {
-    return [...this.memories];
+  /** Shared memories plus the given user's own. */
+  async list(user?: string): Promise<MemoryEntry[]> {
+    return this.visibleTo(user);
   }
 
-  async remove(id: string): Promise<boolean> {
-    const idx = this.memories.findIndex((m) => m.id === id);
+  /** Only the given user's own memories. */
+  forUser(user: string): MemoryEntry[] {
+    return this.memories.filter((m) => m.user === user);
+  }
+
+  /** Move per-user memories to another canonical ID (after accounts are linked). */
+  async reassignUser(from: string[], to: string): Promise<number> {
+    let moved = 0;
+    for (const m of this.memories) {
+      if (m.user && from.includes(m.user)) {
+        m.user = to;
+        moved++;
+      }
+    }
+    if (moved > 0) await this.save();
+    return moved;
+  }
+
+  async remove(id: string, user?: string): Promise<boolean> {
+    const idx = this.memories.findIndex((m) => m.id === id && (!m.user || m.user === user));
     if (idx === -1) return false;
     this.memories.splice(idx, 1);
     await this.save();
@@ -70,8 +97,9 @@ export class MemoryStore {
     id: string,
     content: string,
     tags?: string[],
+    user?: string,
   ): Promise<MemoryEntry | null> {
-    const entry = this.memories.find((m) => m.id === id);
+    const entry = this.visibleTo(user).find((m) => m.id === id);
     if (!entry) return null;
     entry.content = content;
     if (tags) entry.tags = tags;
@@ -79,4 +107,8 @@ export class MemoryStore {
     await this.save();
     return entry;
   }
+
+  private visibleTo(user?: string): MemoryEntry[] {
+    return this.memories.filter((m) => !m.user || m.user === user);
+  }
 }
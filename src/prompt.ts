@@ -16,6 +16,8 @@ export function buildSystemPrompt(params: {
   bootstrapContext?: string;
   currentTime?: string;
   memoryContext?: string;
+  /** Per-user memories of the person in this conversation, one per line. */
+  userMemory?: string;
   citationsMode?: CitationsMode;
   sandbox?: {
     containerName: string;
@@ -74,6 +76,18 @@ export function buildSystemPrompt(params: {
     );
   }
 
+  // ── Per-user memory (memory tool, scope "user") ─────────────────────────
+  if (params.userMemory) {
+    sections.push(
+      [
+        "## About This User",
+        "What you've remembered about the person you're talking to, on any platform they've linked:",
+        "",
+        params.userMemory,
+      ].join("\n"),
+    );
+  }
+
   // ── Skills ──────────────────────────────────────────────────────────────
   if (params.skillsSection) {
     sections.push(params.skillsSection);
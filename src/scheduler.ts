@@ -75,6 +75,14 @@ const DEFAULT_OPTIONS: Required<SchedulerOptions> = {
   retryBaseDelayMs: 5_000,
 };
 
+/** Merge options over defaults, ignoring explicitly-undefined fields. */
+function resolveOptions(opts?: SchedulerOptions): Required<SchedulerOptions> {
+  const defined = Object.fromEntries(
+    Object.entries(opts ?? {}).filter(([, v]) => v !== undefined),
+  );
+  return { ...DEFAULT_OPTIONS, ...defined };
+}
+
 // ── Scheduler ──────────────────────────────────────────────────────────
 
 export class Scheduler {
@@ -94,7 +102,7 @@ export class Scheduler {
   constructor(storePath: string, onFire: JobFireCallback, opts?: SchedulerOptions) {
     this.storePath = storePath;
     this.onFire = onFire;
-    this.opts = { ...DEFAULT_OPTIONS, ...opts };
+    this.opts = resolveOptions(opts);
   }
 
   async start(): Promise<void> {
@@ -199,6 +207,15 @@ export class Scheduler {
     return true;
   }
 
+  /** Apply new limits (e.g. after a config file reload). Affects subsequent executions. */
+  updateOptions(opts: SchedulerOptions): void {
+    this.opts = resolveOptions(opts);
+    console.log(
+      `[scheduler] Options updated (maxConcurrency=${this.opts.maxConcurrency}, jobTimeoutMs=${this.opts.jobTimeoutMs}, maxConsecutiveFailures=${this.opts.maxConsecutiveFailures})`,
+    );
+    this.drainQueue();
+  }
+
   /** Summary for status checks. */
   status(): { total: number; enabled: number; running: number; queued: number } {
     return {
@@ -0,0 +1,263 @@
+import { randomInt } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Cross-channel user roles and access control, consulted by ChannelManager
+ * before a message or command is dispatched.
+ *
+ * - owner:  everything, including `/pair` and `/role`
+ * - member: the tools in `memberTools` (default all), every other command,
+ *           memory in context
+ * - guest:  the tools in `guestTools`, the commands in `guestCommands`,
+ *           no memory (neither in the prompt nor via memory tools)
+ *
+ * Roles come from the config lists (ACCESS_OWNERS / _MEMBERS / _GUESTS) first,
+ * then from grants made in chat (`/pair approve`, `/role`), persisted to
+ * agentDir/access.json. Everyone else is an unknown user, handled per
+ * `unknown`: refused, asked to pair (a code the owner approves), or given a
+ * default role.
+ *
+ * Users are referenced as "<channel>:<userId>" (channel = channel or account
+ * name, e.g. "discord:1234", "work:U123") or a bare "<userId>" for any channel.
+ * Roles are per account: linking accounts with `/link` never changes one.
+ */
+
+export const ACCESS_ROLES = ["owner", "member", "guest"] as const;
+export type AccessRole = (typeof ACCESS_ROLES)[number];
+
+export const UNKNOWN_USER_POLICIES = ["refuse", "pair", "guest", "member"] as const;
+export type UnknownUserPolicy = (typeof UNKNOWN_USER_POLICIES)[number];
+
+export interface AccessConfig {
+  owners: string[];
+  members: string[];
+  guests: string[];
+  /** What users without a role get. */
+  unknown: UnknownUserPolicy;
+  /** Reply to unknown users when `unknown` is "refuse". */
+  refusalMessage: string;
+  /** Tool names members may use ("*" = all). */
+  memberTools: string[];
+  /** Tool names guests may use ("*" = all except memory tools). */
+  guestTools: string[];
+  /** Commands (without "/") guests may run. */
+  guestCommands: string[];
+}
+
+/** Commands that manage access — owners only. */
+export const OWNER_COMMANDS = new Set(["pair", "role"]);
+
+/** Tools that read the agent's memory; never exposed to roles that can't read memory. */
+const MEMORY_TOOLS = new Set(["memory", "memory_search", "memory_get"]);
+
+export function isAccessRole(value: string): value is AccessRole {
+  return (ACCESS_ROLES as readonly string[]).includes(value);
+}
+
+export function roleCanReadMemory(role: AccessRole): boolean {
+  return role !== "guest";
+}
+
+export function roleAllowsTool(config: AccessConfig, role: AccessRole, toolName: string): boolean {
+  if (role === "owner") return true;
+  if (!roleCanReadMemory(role) && MEMORY_TOOLS.has(toolName)) return false;
+  const allowed = role === "member" ? config.memberTools : config.guestTools;
+  return allowed.includes("*") || allowed.includes(toolName);
+}
+
+export function roleAllowsCommand(config: AccessConfig, role: AccessRole, command: string): boolean {
+  if (role === "owner") return true;
+  if (OWNER_COMMANDS.has(command)) return false;
+  return role === "member" || config.guestCommands.includes(command);
+}
+
+/** Stable "<channel>:<userId>" key used for grants and pairing. */
+export function userRef(channel: string, userId: string): string {
+  return `${channel}:${userId}`;
+}
+
+export interface AccessGrant {
+  role: AccessRole;
+  name?: string;
+  grantedAt: string;
+  grantedBy?: string;
+}
+
+export interface PairingRequest {
+  code: string;
+  /** "<channel>:<userId>" of the requester. */
+  user: string;
+  userName: string;
+  /** Where to tell the requester they were approved. */
+  channel: string;
+  channelId: string;
+  requestedAt: string;
+}
+
+export type AdmitResult =
+  | { role: AccessRole }
+  /** Not admitted; `reply` (if any) is sent back to the user. */
+  | { role?: undefined; reply: string | null };
+
+interface AccessFile {
+  grants: Record<string, AccessGrant>;
+  pending: PairingRequest[];
+}
+
+const PAIRING_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MAX_PENDING = 50;
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O, 1/I
+
+export class AccessControl {
+  private grants = new Map<string, AccessGrant>();
+  private pending: PairingRequest[] = [];
+  private storePath: string;
+
+  constructor(
+    agentDir: string,
+    /** Live config section — hot reload applies. */
+    private config: AccessConfig,
+  ) {
+    this.storePath = path.join(agentDir, "access.json");
+  }
+
+  async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.storePath, "utf-8");
+      const data = JSON.parse(raw) as Partial<AccessFile>;
+      this.grants = new Map(Object.entries(data.grants ?? {}));
+      this.pending = data.pending ?? [];
+    } catch {
+      this.grants = new Map();
+      this.pending = [];
+    }
+    if (this.config.unknown === "pair" && this.config.owners.length === 0 && !this.hasGrantedOwner()) {
+      console.warn("[access] ACCESS_UNKNOWN=pair but no owner is configured — nobody can approve pairing codes");
+    }
+  }
+
+  /** Role of a known user, or undefined for unknown users. */
+  resolveRole(channel: string, userId: string): AccessRole | undefined {
+    const matches = (refs: string[]) => refs.some((r) => r === userId || r === userRef(channel, userId));
+    if (matches(this.config.owners)) return "owner";
+    if (matches(this.config.members)) return "member";
+    if (matches(this.config.guests)) return "guest";
+    return this.grants.get(userRef(channel, userId))?.role;
+  }
+
+  /** Decide whether a user may talk to the bot, starting a pairing request if configured. */
+  async admit(sender: { channel: string; userId: string; userName: string; channelId: string }): Promise<AdmitResult> {
+    const role = this.resolveRole(sender.channel, sender.userId);
+    if (role) return { role };
+
+    switch (this.config.unknown) {
+      case "guest":
+      case "member":
+        return { role: this.config.unknown };
+      case "refuse":
+        return { reply: this.config.refusalMessage || null };
+      case "pair": {
+        const request = await this.requestPairing(sender);
+        return {
+          reply: `🔑 You're not paired with this bot yet. Ask the owner to approve code **${request.code}** (\`/pair approve ${request.code}\`).`,
+        };
+      }
+    }
+  }
+
+  /** Roles granted in chat (config-listed users are not included). */
+  listGrants(): Array<{ user: string } & AccessGrant> {
+    return [...this.grants.entries()].map(([user, grant]) => ({ user, ...grant }));
+  }
+
+  /** Open pairing requests, oldest first (expired ones are dropped). */
+  listPending(): PairingRequest[] {
+    this.prunePending();
+    return [...this.pending];
+  }
+
+  /** Approve a pairing code. Returns the request, or undefined if the code is unknown/expired. */
+  async approve(code: string, role: AccessRole, grantedBy: string): Promise<PairingRequest | undefined> {
+    this.prunePending();
+    const request = this.pending.find((p) => p.code === code.toUpperCase());
+    if (!request) return undefined;
+    this.pending = this.pending.filter((p) => p !== request);
+    this.grants.set(request.user, {
+      role,
+      name: request.userName,
+      grantedAt: new Date().toISOString(),
+      grantedBy,
+    });
+    await this.persist();
+    console.log(`[access] ${grantedBy} approved ${request.user} (${request.userName}) as ${role}`);
+    return request;
+  }
+
+  /** Reject a pairing code. Returns false if it doesn't exist. */
+  async deny(code: string): Promise<boolean> {
+    const before = this.pending.length;
+    this.pending = this.pending.filter((p) => p.code !== code.toUpperCase());
+    if (this.pending.length === before) return false;
+    await this.persist();
+    return true;
+  }
+
+  /** Grant or (with null) revoke a chat-granted role. Config-listed roles are unaffected. */
+  async setRole(user: string, role: AccessRole | null, grantedBy: string): Promise<void> {
+    if (role) {
+      this.grants.set(user, { ...this.grants.get(user), role, grantedAt: new Date().toISOString(), grantedBy });
+    } else {
+      this.grants.delete(user);
+    }
+    await this.persist();
+    console.log(`[access] ${grantedBy} set ${user} → ${role ?? "no role"}`);
+  }
+
+  private async requestPairing(sender: {
+    channel: string;
+    userId: string;
+    userName: string;
+    channelId: string;
+  }): Promise<PairingRequest> {
+    this.prunePending();
+    const user = userRef(sender.channel, sender.userId);
+    const existing = this.pending.find((p) => p.user === user);
+    if (existing) return existing;
+
+    const request: PairingRequest = {
+      code: Array.from({ length: 6 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join(""),
+      user,
+      userName: sender.userName,
+      channel: sender.channel,
+      channelId: sender.channelId,
+      requestedAt: new Date().toISOString(),
+    };
+    this.pending.push(request);
+    if (this.pending.length > MAX_PENDING) this.pending.shift();
+    await this.persist();
+    console.log(`[access] Pairing request ${request.code} from ${user} (${sender.userName})`);
+    return request;
+  }
+
+  private prunePending(): void {
+    const cutoff = Date.now() - PAIRING_TTL_MS;
+    this.pending = this.pending.filter((p) => Date.parse(p.requestedAt) >= cutoff);
+  }
+
+  private hasGrantedOwner(): boolean {
+    return [...this.grants.values()].some((g) => g.role === "owner");
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      const data: AccessFile = { grants: Object.fromEntries(this.grants), pending: this.pending };
+      const tmp = this.storePath + ".tmp";
+      await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+      await fs.rename(tmp, this.storePath);
+    } catch (err) {
+      console.error(`[access] Failed to persist: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
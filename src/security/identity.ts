@@ -0,0 +1,240 @@
+import { randomInt, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { userRef } from "./access.js";
+
+/**
+ * Cross-channel identities: one person's accounts on different platforms,
+ * linked with `/link`.
+ *
+ * `/link` in a DM issues a short-lived code; sending `/link <code>` from
+ * another (admitted) account links the two under one identity ("u-1a2b3c4d").
+ * Linked accounts share a canonical user ID (per-user memory) but each keeps
+ * its own role. They can opt into one conversation: with `sharedSession` on,
+ * their DMs all use the session "identity:<id>", and proactive messages for
+ * it (reminders, subagent results) go to the chat the user wrote from last.
+ *
+ * Unlinked accounts are their own canonical ID ("<channel>:<userId>").
+ * Persisted to agentDir/identities.json.
+ */
+
+export interface Identity {
+  /** Linked accounts as "<channel>:<userId>". */
+  accounts: string[];
+  /** DMs from any linked account share the session "identity:<id>". */
+  sharedSession: boolean;
+  /** DM session keys seen per account, so commands there apply to the shared session too. */
+  dmSessions: string[];
+  /** Session key of the most recent DM — where the shared session delivers. */
+  lastOrigin?: string;
+  createdAt: string;
+}
+
+export interface LinkCode {
+  code: string;
+  /** "<channel>:<userId>" that asked for the code. */
+  user: string;
+  userName: string;
+  createdAt: string;
+}
+
+export type RedeemResult =
+  | {
+      identity: string;
+      /** Canonical IDs folded into `identity` (unlinked account refs, merged identities). */
+      merged: string[];
+    }
+  | { error: string };
+
+interface IdentityFile {
+  identities: Record<string, Identity>;
+  codes: LinkCode[];
+}
+
+/** Session key prefix of shared cross-channel sessions. */
+export const IDENTITY_SESSION_PREFIX = "identity:";
+
+const CODE_TTL_MS = 10 * 60 * 1000; // 10 min
+const MAX_CODES = 50;
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O, 1/I
+
+export class IdentityStore {
+  private identities = new Map<string, Identity>();
+  /** Account ref → identity ID. */
+  private byAccount = new Map<string, string>();
+  private codes: LinkCode[] = [];
+  private storePath: string;
+
+  constructor(agentDir: string) {
+    this.storePath = path.join(agentDir, "identities.json");
+  }
+
+  async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.storePath, "utf-8");
+      const data = JSON.parse(raw) as Partial<IdentityFile>;
+      this.identities = new Map(Object.entries(data.identities ?? {}));
+      this.codes = data.codes ?? [];
+    } catch {
+      this.identities = new Map();
+      this.codes = [];
+    }
+    this.reindex();
+  }
+
+  /** Canonical user ID: the identity the account is linked into, else "<channel>:<userId>". */
+  canonicalId(channel: string, userId: string): string {
+    const ref = userRef(channel, userId);
+    return this.byAccount.get(ref) ?? ref;
+  }
+
+  /** The identity an account belongs to, if linked. */
+  identityOf(channel: string, userId: string): { id: string; identity: Identity } | undefined {
+    const id = this.byAccount.get(userRef(channel, userId));
+    const identity = id ? this.identities.get(id) : undefined;
+    return id && identity ? { id, identity } : undefined;
+  }
+
+  /** Every account linked with this one, itself included. */
+  linkedAccounts(channel: string, userId: string): string[] {
+    return this.identityOf(channel, userId)?.identity.accounts ?? [userRef(channel, userId)];
+  }
+
+  /** Issue a one-time code to enter from another account (replaces an earlier open one). */
+  async issueCode(channel: string, userId: string, userName: string): Promise<LinkCode> {
+    this.pruneCodes();
+    const user = userRef(channel, userId);
+    const code: LinkCode = {
+      code: Array.from({ length: 6 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join(""),
+      user,
+      userName,
+      createdAt: new Date().toISOString(),
+    };
+    this.codes = [...this.codes.filter((c) => c.user !== user), code];
+    if (this.codes.length > MAX_CODES) this.codes.shift();
+    await this.persist();
+    return code;
+  }
+
+  /** Link the account sending `code` with the account that issued it. */
+  async redeem(code: string, channel: string, userId: string): Promise<RedeemResult> {
+    this.pruneCodes();
+    const entry = this.codes.find((c) => c.code === code.toUpperCase());
+    if (!entry) return { error: "Unknown or expired code — run `/link` again on your other account." };
+    const redeemer = userRef(channel, userId);
+    if (entry.user === redeemer) return { error: "Send this code from your *other* account." };
+    this.codes = this.codes.filter((c) => c !== entry);
+
+    const issuerId = this.byAccount.get(entry.user);
+    const redeemerId = this.byAccount.get(redeemer);
+    if (issuerId && issuerId === redeemerId) {
+      await this.persist();
+      return { error: "These accounts are already linked." };
+    }
+
+    // Keep an existing identity (the issuer's first) so its memory stays put
+    const id = issuerId ?? redeemerId ?? `u-${randomUUID().slice(0, 8)}`;
+    const identity: Identity = this.identities.get(id) ?? {
+      accounts: [],
+      sharedSession: false,
+      dmSessions: [],
+      createdAt: new Date().toISOString(),
+    };
+    const merged: string[] = [];
+    for (const [ref, refId] of [
+      [entry.user, issuerId],
+      [redeemer, redeemerId],
+    ] as const) {
+      if (refId === id) continue;
+      if (refId) {
+        // Fold the other identity (and all its accounts) into this one
+        const other = this.identities.get(refId);
+        this.identities.delete(refId);
+        identity.accounts.push(...(other?.accounts ?? [ref]));
+        identity.dmSessions.push(...(other?.dmSessions ?? []));
+      } else {
+        identity.accounts.push(ref);
+      }
+      merged.push(refId ?? ref);
+    }
+    this.identities.set(id, identity);
+    this.reindex();
+    await this.persist();
+    console.log(`[identity] Linked ${entry.user} and ${redeemer} as ${id}`);
+    return { identity: id, merged };
+  }
+
+  /** Detach an account from its identity. False if it isn't linked to another account. */
+  async unlink(channel: string, userId: string): Promise<boolean> {
+    const found = this.identityOf(channel, userId);
+    if (!found || found.identity.accounts.length < 2) return false;
+    const ref = userRef(channel, userId);
+    found.identity.accounts = found.identity.accounts.filter((a) => a !== ref);
+    found.identity.dmSessions = found.identity.dmSessions.filter((k) => !k.startsWith(`${channel}:`));
+    this.reindex();
+    await this.persist();
+    console.log(`[identity] Unlinked ${ref} from ${found.id}`);
+    return true;
+  }
+
+  async setSharedSession(id: string, enabled: boolean): Promise<void> {
+    const identity = this.identities.get(id);
+    if (!identity) return;
+    identity.sharedSession = enabled;
+    await this.persist();
+  }
+
+  /**
+   * Shared session key for a DM from this account, or undefined when the
+   * account isn't linked or hasn't opted in. Remembers the DM's own session
+   * key as the place to deliver to.
+   */
+  async routeDm(channel: string, userId: string, sessionKey: string): Promise<string | undefined> {
+    const found = this.identityOf(channel, userId);
+    if (!found?.identity.sharedSession) return undefined;
+    const { id, identity } = found;
+    if (identity.lastOrigin !== sessionKey || !identity.dmSessions.includes(sessionKey)) {
+      identity.lastOrigin = sessionKey;
+      if (!identity.dmSessions.includes(sessionKey)) identity.dmSessions.push(sessionKey);
+      await this.persist();
+    }
+    return `${IDENTITY_SESSION_PREFIX}${id}`;
+  }
+
+  /** Shared session key for a command sent from a known DM of a linked account. */
+  sharedSessionFor(channel: string, userId: string, sessionKey: string): string | undefined {
+    const found = this.identityOf(channel, userId);
+    if (!found?.identity.sharedSession || !found.identity.dmSessions.includes(sessionKey)) return undefined;
+    return `${IDENTITY_SESSION_PREFIX}${found.id}`;
+  }
+
+  /** For a shared session key, the DM session to deliver to; undefined for any other key. */
+  originOf(sessionKey: string): string | undefined {
+    if (!sessionKey.startsWith(IDENTITY_SESSION_PREFIX)) return undefined;
+    return this.identities.get(sessionKey.slice(IDENTITY_SESSION_PREFIX.length))?.lastOrigin;
+  }
+
+  private reindex(): void {
+    this.byAccount.clear();
+    for (const [id, identity] of this.identities) {
+      for (const account of identity.accounts) this.byAccount.set(account, id);
+    }
+  }
+
+  private pruneCodes(): void {
+    const cutoff = Date.now() - CODE_TTL_MS;
+    this.codes = this.codes.filter((c) => Date.parse(c.createdAt) >= cutoff);
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      const data: IdentityFile = { identities: Object.fromEntries(this.identities), codes: this.codes };
+      const tmp = this.storePath + ".tmp";
+      await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+      await fs.rename(tmp, this.storePath);
+    } catch (err) {
+      console.error(`[identity] Failed to persist: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
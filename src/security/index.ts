@@ -1,2 +1,24 @@
 export { SsrfBlockedError, validateUrlForSsrf, fetchWithSsrfGuard } from "./ssrf.js";
 export type { SsrfValidationOptions } from "./ssrf.js";
+export {
+  ToolDeniedError,
+  TOOL_POLICY_ACTIONS,
+  evaluateToolPolicy,
+  describeToolCall,
+  validateToolPolicyRules,
+} from "./tool-policy.js";
+export type { ToolPolicyAction, ToolPolicyRule, ToolPolicyConfig, ToolCallSubject } from "./tool-policy.js";
+export {
+  AccessControl,
+  ACCESS_ROLES,
+  UNKNOWN_USER_POLICIES,
+  OWNER_COMMANDS,
+  isAccessRole,
+  roleAllowsCommand,
+  roleAllowsTool,
+  roleCanReadMemory,
+  userRef,
+} from "./access.js";
+export type { AccessConfig, AccessGrant, AccessRole, AdmitResult, PairingRequest, UnknownUserPolicy } from "./access.js";
+export { IdentityStore, IDENTITY_SESSION_PREFIX } from "./identity.js";
+export type { Identity, LinkCode, RedeemResult } from "./identity.js";
@@ -0,0 +1,127 @@
+/**
+ * Tool call policy: decide per call whether a tool may run ("allow"), must
+ * not run ("deny"), or needs the user's confirmation first ("ask").
+ *
+ * Rules are checked in order and the first match wins; if none match, the
+ * policy default applies. A rule can be narrowed to tool arguments (regex per
+ * argument), channels (channel name or session key prefix) and users.
+ *
+ * Confirmation itself is channel UI (buttons, "reply YES") — see
+ * `StreamCallbacks.onApprovalRequest`. Turns with no one to ask (cron,
+ * heartbeat, subagent announces) treat "ask" as "deny".
+ */
+
+export const TOOL_POLICY_ACTIONS = ["allow", "deny", "ask"] as const;
+export type ToolPolicyAction = (typeof TOOL_POLICY_ACTIONS)[number];
+
+export interface ToolPolicyRule {
+  /** Tool name (e.g. "bash", "file_ops"); "*" matches every tool. */
+  tool: string;
+  action: ToolPolicyAction;
+  /** Argument name → regex; every listed argument must match its string value. */
+  args?: Record<string, string>;
+  /** Channel names ("discord") or session key prefixes ("slack:dm:U123"). Omit for all. */
+  channels?: string[];
+  /** Platform user IDs. Omit for all users. */
+  users?: string[];
+}
+
+export interface ToolPolicyConfig {
+  /** Action when no rule matches. */
+  default: ToolPolicyAction;
+  /** How long an "ask" waits for an answer before the call is denied (ms). */
+  askTimeoutMs: number;
+  rules: ToolPolicyRule[];
+}
+
+export interface ToolCallSubject {
+  toolName: string;
+  params: unknown;
+  sessionKey: string;
+  userId?: string;
+}
+
+export class ToolDeniedError extends Error {
+  readonly toolName: string;
+
+  constructor(toolName: string, reason: string) {
+    super(`Tool call "${toolName}" was not run: ${reason}. Do not retry it unless the user asks.`);
+    this.name = "ToolDeniedError";
+    this.toolName = toolName;
+  }
+}
+
+/** Throws on the first rule whose argument patterns are not valid regexes. */
+export function validateToolPolicyRules(rules: ToolPolicyRule[]): void {
+  rules.forEach((rule, i) => {
+    for (const [arg, pattern] of Object.entries(rule.args ?? {})) {
+      try {
+        new RegExp(pattern);
+      } catch (err) {
+        throw new Error(
+          `toolPolicy.rules[${i}].args.${arg}: invalid regex (${err instanceof Error ? err.message : String(err)})`,
+        );
+      }
+    }
+  });
+}
+
+/** Resolve the action for one tool call. */
+export function evaluateToolPolicy(
+  policy: ToolPolicyConfig,
+  call: ToolCallSubject,
+): { action: ToolPolicyAction; rule?: ToolPolicyRule } {
+  const rule = policy.rules.find((r) => ruleMatches(r, call));
+  return rule ? { action: rule.action, rule } : { action: policy.default };
+}
+
+function ruleMatches(rule: ToolPolicyRule, call: ToolCallSubject): boolean {
+  if (rule.tool !== "*" && rule.tool !== call.toolName) return false;
+  if (rule.channels && !rule.channels.some((c) => call.sessionKey === c || call.sessionKey.startsWith(`${c}:`))) {
+    return false;
+  }
+  if (rule.users && (!call.userId || !rule.users.includes(call.userId))) return false;
+  for (const [arg, pattern] of Object.entries(rule.args ?? {})) {
+    const value = argValue(call.params, arg);
+    if (value === undefined || !new RegExp(pattern).test(value)) return false;
+  }
+  return true;
+}
+
+function argValue(params: unknown, name: string): string | undefined {
+  if (!params || typeof params !== "object") return undefined;
+  const value = (params as Record<string, unknown>)[name];
+  if (value === undefined || value === null) return undefined;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+const SUMMARY_MAX_CHARS = 300;
+
+/** One-line description of a call for the confirmation prompt. */
+export function describeToolCall(toolName: string, params: unknown): string {
+  const p = (params && typeof params === "object" ? params : {}) as Record<string, unknown>;
+  const pick = (...keys: string[]) =>
+    keys
+      .filter((k) => p[k] !== undefined && p[k] !== "")
+      .map((k) => (k === "command" ? String(p[k]) : `${k}: ${String(p[k])}`))
+      .join(", ");
+
+  let summary: string;
+  switch (toolName) {
+    case "bash":
+    case "exec":
+      summary = pick("command");
+      break;
+    case "read":
+    case "write":
+    case "edit":
+      summary = pick("path");
+      break;
+    case "file_ops":
+      summary = pick("action", "path", "src", "dest", "url");
+      break;
+    default:
+      summary = JSON.stringify(params ?? {});
+  }
+  return summary.length > SUMMARY_MAX_CHARS ? `${summary.slice(0, SUMMARY_MAX_CHARS)}…` : summary;
+}
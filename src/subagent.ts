@@ -42,6 +42,7 @@ export type SpawnProgressCallback = (params: {
 }) => Promise<void>;
 
 export type SubagentToolProgressCallback = (params: {
+  parentSessionKey: string;
   parentChannelId: string;
   runId: string;
   label?: string;
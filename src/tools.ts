@@ -12,7 +12,14 @@ export { createSubagentTool } from "./tools/subagent.js";
 export { createMemorySearchTool } from "./tools/memory-search.js";
 export { createMemoryGetTool } from "./tools/memory-get.js";
 
-export function createMemoryTool(store: MemoryStore): NanoToolDefinition {
+/**
+ * @param currentUser canonical ID of the user in the running turn — enables
+ *   `scope: "user"` memories and hides other users' ones.
+ */
+export function createMemoryTool(
+  store: MemoryStore,
+  currentUser: () => string | undefined = () => undefined,
+): NanoToolDefinition {
   return {
     name: "memory",
     label: "memory",
@@ -24,6 +31,8 @@ export function createMemoryTool(store: MemoryStore): NanoToolDefinition {
       "  list    - List all stored memories",
       "  delete  - Remove a memory by ID (requires: id)",
       "  update  - Update a memory by ID (requires: id, content, optional: tags)",
+      'Use scope "user" on store for facts about the person you\'re talking to (preferences, names, plans);',
+      "they follow them across every platform they've linked. Default scope is shared.",
     ].join("\n"),
     parameters: {
       type: "object",
@@ -51,6 +60,11 @@ export function createMemoryTool(store: MemoryStore): NanoToolDefinition {
           items: { type: "string" },
           description: "Tags for store/update actions",
         },
+        scope: {
+          type: "string",
+          enum: ["shared", "user"],
+          description: 'For store: "user" to keep the memory with the current user, "shared" (default) otherwise',
+        },
       },
     },
     execute: async (
@@ -59,6 +73,7 @@ export function createMemoryTool(store: MemoryStore): NanoToolDefinition {
     ): Promise<{ content: Array<{ type: "text"; text: string }> }> => {
       const p = params as Record<string, unknown>;
       const action = p.action as string;
+      const user = currentUser();
 
       try {
         switch (action) {
@@ -67,14 +82,16 @@ export function createMemoryTool(store: MemoryStore): NanoToolDefinition {
             if (!content)
               return textResult("Error: content is required for store action");
             const tags = (p.tags as string[]) || [];
-            const entry = await store.store(content, tags);
+            if (p.scope === "user" && !user)
+              return textResult("Error: no user in this conversation — store it with scope \"shared\"");
+            const entry = await store.store(content, tags, p.scope === "user" ? user : undefined);
             return jsonTextResult({ status: "stored", memory: entry });
           }
           case "search": {
             const query = p.query as string;
             if (!query)
               return textResult("Error: query is required for search action");
-            const results = await store.search(query);
+            const results = await store.search(query, user);
             return jsonTextResult({
               status: "ok",
               count: results.length,
@@ -82,7 +99,7 @@ export function createMemoryTool(store: MemoryStore): NanoToolDefinition {
             });
           }
           case "list": {
-            const all = await store.list();
+            const all = await store.list(user);
             return jsonTextResult({
               status: "ok",
               count: all.length,
@@ -93,7 +110,7 @@ export function createMemoryTool(store: MemoryStore): NanoToolDefinition {
             const id = p.id as string;
             if (!id)
               return textResult("Error: id is required for delete action");
-            const deleted = await store.remove(id);
+            const deleted = await store.remove(id, user);
             return jsonTextResult({
               status: deleted ? "deleted" : "not_found",
             });
@@ -106,7 +123,7 @@ export function createMemoryTool(store: MemoryStore): NanoToolDefinition {
             if (!content)
               return textResult("Error: content is required for update action");
             const tags = p.tags as string[] | undefined;
-            const updated = await store.update(id, content, tags);
+            const updated = await store.update(id, content, tags, user);
             return jsonTextResult({
               status: updated ? "updated" : "not_found",
               memory: updated,
@@ -1,6 +1,7 @@
 import type { NanoToolDefinition } from "./types.js";
 import { textResult, jsonTextResult } from "./types.js";
 import { fetchWithSsrfGuard, SsrfBlockedError } from "../security/ssrf.js";
+import { extractPdfText } from "../media/pdf.js";
 
 const DEFAULT_MAX_CHARS = 50_000;
 const DEFAULT_TIMEOUT_MS = 30_000;
@@ -11,48 +12,6 @@ const PDF_MAX_BYTES = 50 * 1024 * 1024; // 50 MB download cap for PDFs
 const DEFAULT_FIRECRAWL_BASE_URL = "https://api.firecrawl.dev";
 const FIRECRAWL_TIMEOUT_MS = 60_000;
 
-// Lazy-loaded pdfjs-dist (same approach as openclaw's src/media/input-files.ts)
-type PdfJsModule = typeof import("pdfjs-dist/legacy/build/pdf.mjs");
-let pdfJsModulePromise: Promise<PdfJsModule> | null = null;
-
-async function loadPdfJs(): Promise<PdfJsModule> {
-  if (!pdfJsModulePromise) {
-    pdfJsModulePromise = import("pdfjs-dist/legacy/build/pdf.mjs").catch((err) => {
-      pdfJsModulePromise = null;
-      throw new Error(
-        `pdfjs-dist is required for PDF extraction: ${String(err)}`,
-      );
-    });
-  }
-  return pdfJsModulePromise;
-}
-
-async function extractPdfText(buffer: ArrayBuffer): Promise<{ text: string; numPages: number }> {
-  const { getDocument } = await loadPdfJs();
-  const pdf = await getDocument({
-    data: new Uint8Array(buffer),
-    useWorkerFetch: false,
-    isEvalSupported: false,
-  }).promise;
-
-  const maxPages = Math.min(pdf.numPages, PDF_MAX_PAGES);
-  const textParts: string[] = [];
-
-  for (let pageNum = 1; pageNum <= maxPages; pageNum += 1) {
-    const page = await pdf.getPage(pageNum);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items
-      .map((item) => ("str" in item ? String(item.str) : ""))
-      .filter(Boolean)
-      .join(" ");
-    if (pageText) {
-      textParts.push(pageText);
-    }
-  }
-
-  return { text: textParts.join("\n\n"), numPages: pdf.numPages };
-}
-
 function stripTags(html: string): string {
   return html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
 }
@@ -272,7 +231,7 @@ export function createWebFetchTool(options: WebFetchOptions = {}): NanoToolDefin
             });
           }
           try {
-            const { text: pdfText, numPages } = await extractPdfText(arrayBuf);
+            const { text: pdfText, numPages } = await extractPdfText(arrayBuf, PDF_MAX_PAGES);
             let text = pdfText;
             const isTruncated = text.length > maxChars;
             if (isTruncated) {
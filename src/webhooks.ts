@@ -0,0 +1,300 @@
+import fs from "node:fs/promises";
+import http from "node:http";
+import path from "node:path";
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import type { AccessRole } from "./security/access.js";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type WebhookVerify = "hmac-sha256" | "token";
+
+export const WEBHOOK_VERIFY_MODES: readonly WebhookVerify[] = ["hmac-sha256", "token"];
+
+export interface WebhookHookConfig {
+  /** URL segment: the hook is served at `POST /hooks/<name>`. */
+  name: string;
+  /** Shared secret: HMAC key, or the token itself for `verify: "token"`. */
+  secret: string;
+  /** "hmac-sha256" (default): hex HMAC of the raw body in `signatureHeader`.
+   *  "token": the secret sent verbatim in `signatureHeader` or as a Bearer token. */
+  verify: WebhookVerify;
+  /** Header carrying the signature / token (default: X-Hub-Signature-256 or X-Webhook-Token). */
+  signatureHeader?: string;
+  /** Prompt template; `{{path.to.field}}` is replaced from the JSON (or form) body, `{{.}}` with all of it. */
+  prompt: string;
+  /** Session key whose channel receives the reply, e.g. "telegram:dm:123456". */
+  deliverTo: string;
+  /** Role the turn runs as, which decides its tools and memory access (default: "guest"). */
+  role: AccessRole;
+  /** At most `max` accepted calls per `windowMs` (default: 10 per minute). */
+  rateLimit: { max: number; windowMs: number };
+}
+
+export interface WebhooksConfig {
+  /** Interface to listen on (default: 127.0.0.1). */
+  host: string;
+  /** Port to listen on (default: 8788); 0 picks a free port. */
+  port: number;
+  /** Named hooks (config file `webhooks.hooks`). The server only starts when there is at least one. */
+  hooks: WebhookHookConfig[];
+}
+
+export const defaultWebhookRateLimit = { max: 10, windowMs: 60_000 };
+
+interface WebhookRunRecord {
+  ts: string;
+  id: string;
+  hook: string;
+  status: "ok" | "error" | "rejected" | "rate_limited";
+  /** Caller address (for rejected calls). */
+  remote?: string;
+  durationMs?: number;
+  error?: string;
+  /** Rejected calls not logged since the previous "rejected" entry for the hook. */
+  suppressed?: number;
+}
+
+/** Run the templated prompt and deliver the reply; resolves once delivered. */
+export type WebhookTurnCallback = (hook: WebhookHookConfig, prompt: string) => Promise<void>;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const RUN_LOG_FILE = "runs.jsonl";
+/** At most one "rejected" entry per hook per interval; the rest are counted. */
+const REJECTED_LOG_INTERVAL_MS = 60_000;
+
+// ── Webhook Server ─────────────────────────────────────────────────────
+
+/**
+ * Inbound webhooks that start agent turns.
+ *
+ * External systems (Git hooks, home automation, form handlers) POST to
+ * `/hooks/<name>`. The call is verified against the hook's secret, checked
+ * against its rate limit, answered with 202 right away, and the templated
+ * prompt then runs as an agent turn (as the hook's `role`, guest by default)
+ * whose reply goes to the hook's `deliverTo` session — the same path cron
+ * jobs use.
+ *
+ * Every accepted call is appended to `<agentDir>/webhooks/runs.jsonl`.
+ * Rejected calls (bad signature) are sampled — one entry per hook per minute,
+ * with a count of the ones skipped — so junk traffic can't grow the log.
+ */
+export class WebhookServer {
+  private config: WebhooksConfig;
+  private logDir: string;
+  private onTurn: WebhookTurnCallback;
+  private server?: http.Server;
+  /** Accepted call timestamps per hook, for the sliding-window rate limit. */
+  private recentCalls = new Map<string, number[]>();
+  /** Per hook: when a rejected call was last logged, and how many were skipped since. */
+  private rejectedLog = new Map<string, { loggedAt: number; suppressed: number }>();
+
+  constructor(opts: { config: WebhooksConfig; agentDir: string; onTurn: WebhookTurnCallback }) {
+    this.config = opts.config;
+    this.logDir = path.join(opts.agentDir, "webhooks");
+    this.onTurn = opts.onTurn;
+  }
+
+  async start(): Promise<void> {
+    if (this.config.hooks.length === 0) {
+      console.log("[webhooks] No hooks configured");
+      return;
+    }
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        console.error("[webhooks] Request failed:", err);
+        if (!res.headersSent) sendJson(res, 500, { error: "Internal error" });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.config.port, this.config.host, () => resolve());
+    });
+    this.server = server;
+    console.log(
+      `[webhooks] Listening on http://${this.config.host}:${this.port} (${this.config.hooks.map((h) => h.name).join(", ")})`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** Bound port (useful with port 0). */
+  get port(): number {
+    const address = this.server?.address();
+    return address && typeof address === "object" ? address.port : this.config.port;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const match = (req.url ?? "").split("?")[0].match(/^\/hooks\/([^/]+)$/);
+    // Hooks are looked up per request so config reloads apply immediately
+    const hook = match ? this.config.hooks.find((h) => h.name === decodeURIComponent(match[1])) : undefined;
+    if (!hook) {
+      sendJson(res, 404, { error: "Unknown hook" });
+      return;
+    }
+    if (req.method !== "POST") {
+      res.setHeader("Allow", "POST");
+      sendJson(res, 405, { error: "Use POST" });
+      return;
+    }
+
+    const id = randomUUID();
+    const remote = req.socket.remoteAddress;
+    const raw = await readBody(req);
+    if (raw === undefined) {
+      sendJson(res, 413, { error: `Body exceeds ${MAX_BODY_BYTES} bytes` });
+      return;
+    }
+
+    if (!verifySignature(hook, req, raw)) {
+      await this.logRejected(hook, id, remote);
+      sendJson(res, 401, { error: "Invalid signature" });
+      return;
+    }
+
+    const retryAfterMs = this.takeRateLimit(hook);
+    if (retryAfterMs > 0) {
+      await this.log({ id, hook: hook.name, status: "rate_limited", remote });
+      res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+      sendJson(res, 429, { error: "Rate limit exceeded" });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = parsePayload(raw, req.headers["content-type"]);
+    } catch {
+      sendJson(res, 400, { error: "Body is not valid JSON" });
+      return;
+    }
+
+    // Turns can take minutes — acknowledge now, run in the background
+    sendJson(res, 202, { id });
+    const prompt = `[Webhook "${hook.name}"]\n${renderTemplate(hook.prompt, payload)}`;
+    console.log(`[webhooks] ${hook.name}: running turn ${id} → ${hook.deliverTo}`);
+    const startedAt = Date.now();
+    try {
+      await this.onTurn(hook, prompt);
+      await this.log({ id, hook: hook.name, status: "ok", durationMs: Date.now() - startedAt });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[webhooks] ${hook.name}: turn ${id} failed: ${message}`);
+      await this.log({ id, hook: hook.name, status: "error", durationMs: Date.now() - startedAt, error: message });
+    }
+  }
+
+  /** Record a call if the hook is under its limit; returns ms until a slot frees otherwise. */
+  private takeRateLimit(hook: WebhookHookConfig): number {
+    const { max, windowMs } = hook.rateLimit;
+    const now = Date.now();
+    const recent = (this.recentCalls.get(hook.name) ?? []).filter((t) => now - t < windowMs);
+    if (recent.length >= max) {
+      this.recentCalls.set(hook.name, recent);
+      return recent[0] + windowMs - now;
+    }
+    recent.push(now);
+    this.recentCalls.set(hook.name, recent);
+    return 0;
+  }
+
+  /** Log a bad-signature call, unless one for the hook was logged within the last interval. */
+  private async logRejected(hook: WebhookHookConfig, id: string, remote: string | undefined): Promise<void> {
+    const now = Date.now();
+    const last = this.rejectedLog.get(hook.name);
+    if (last && now - last.loggedAt < REJECTED_LOG_INTERVAL_MS) {
+      last.suppressed++;
+      return;
+    }
+    const suppressed = last?.suppressed || undefined;
+    this.rejectedLog.set(hook.name, { loggedAt: now, suppressed: 0 });
+    console.warn(
+      `[webhooks] ${hook.name}: rejected call from ${remote} (bad signature)${suppressed ? `; ${suppressed} more since the last one` : ""}`,
+    );
+    await this.log({ id, hook: hook.name, status: "rejected", remote, error: "bad signature", suppressed });
+  }
+
+  private async log(entry: Omit<WebhookRunRecord, "ts">): Promise<void> {
+    const record: WebhookRunRecord = { ts: new Date().toISOString(), ...entry };
+    try {
+      await fs.mkdir(this.logDir, { recursive: true });
+      await fs.appendFile(path.join(this.logDir, RUN_LOG_FILE), JSON.stringify(record) + "\n");
+    } catch (err) {
+      console.warn(`[webhooks] Failed to append run log: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+function verifySignature(hook: WebhookHookConfig, req: http.IncomingMessage, raw: Buffer): boolean {
+  if (hook.verify === "token") {
+    const header = hook.signatureHeader?.toLowerCase() ?? "x-webhook-token";
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const provided = headerValue(req, header) ?? bearer;
+    return provided !== undefined && safeEqual(provided, hook.secret);
+  }
+  const header = hook.signatureHeader?.toLowerCase() ?? "x-hub-signature-256";
+  const provided = headerValue(req, header)?.replace(/^sha256=/i, "").toLowerCase();
+  if (!provided) return false;
+  const expected = createHmac("sha256", hook.secret).update(raw).digest("hex");
+  return safeEqual(provided, expected);
+}
+
+function headerValue(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Constant-time comparison of two strings of any length. */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function parsePayload(raw: Buffer, contentType: string | undefined): unknown {
+  const text = raw.toString("utf-8");
+  if (contentType?.includes("application/x-www-form-urlencoded")) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+  if (!text.trim()) return {};
+  if (contentType && !contentType.includes("json")) return text;
+  return JSON.parse(text);
+}
+
+/** Replace `{{a.b.0.c}}` with values from the payload; `{{.}}` is the whole payload. */
+function renderTemplate(template: string, payload: unknown): string {
+  return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_m, keyPath: string) => {
+    let value: unknown = payload;
+    if (keyPath !== ".") {
+      for (const key of keyPath.split(".")) {
+        value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+      }
+    }
+    if (value === undefined || value === null) return "";
+    return typeof value === "object" ? JSON.stringify(value, null, 2) : String(value);
+  });
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) tooLarge = true;
+      else chunks.push(chunk);
+    });
+    req.on("end", () => resolve(tooLarge ? undefined : Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}